@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { toast } from 'sonner';
 import { Toaster } from '@/components/ui/sonner';
 import { AppShell } from '@/components/layout/AppShell';
@@ -8,6 +8,7 @@ import { ContourPanel } from '@/components/features/ContourPanel';
 import { ImageFilterPanel } from '@/components/features/ImageFilterPanel';
 import { FrequencyPanel } from '@/components/features/FrequencyPanel';
 import { NoiseReductionPanel } from '@/components/features/NoiseReductionPanel';
+import { CannyPanel } from '@/components/features/CannyPanel';
 import { DisplayPanel } from '@/components/features/DisplayPanel';
 import { ExportPanel } from '@/components/features/ExportPanel';
 import { useBrightnessAnalysis } from '@/hooks/useBrightnessAnalysis';
@@ -15,15 +16,29 @@ import { useImageFilter } from '@/hooks/useImageFilter';
 import { useZoomPan } from '@/hooks/useZoomPan';
 import { useImageExport, ExportSettings } from '@/hooks/useImageExport';
 import { useFrequencySeparation } from '@/hooks/useFrequencySeparation';
+import { useStageInput } from '@/hooks/useStageInput';
 import { useNoiseReduction } from '@/hooks/useNoiseReduction';
+import { useCannyDetection } from '@/hooks/useCannyDetection';
+import { useDerivedBrightness } from '@/hooks/useDerivedBrightness';
+import { useLiveProcessing, processingKey } from '@/hooks/useLiveProcessing';
+import { SliderDragContext, useSliderDragState } from '@/hooks/useSliderDrag';
 import { SettingsStorage } from '@/hooks/useLocalStorage';
+import { useMemoryPool } from '@/hooks/useMemoryBudget';
 import { ImageUploadResult, ContourSettings, DEFAULT_CONTOUR_LEVELS } from '@/types/ImageTypes';
-import { DisplayOptions, DEFAULT_DISPLAY_OPTIONS } from '@/types/UITypes';
+import { DisplayOptions, DEFAULT_DISPLAY_OPTIONS, PreviewSettings, DEFAULT_PREVIEW_SETTINGS } from '@/types/UITypes';
 import { ImageFilterSettings } from '@/types/ImageFilterTypes';
-import { FrequencySettings, DEFAULT_FREQUENCY_SETTINGS } from '@/types/FrequencyTypes';
-
-/** 等高線設定はドラッグ中に連続で変わるので、再解析はまとめて走らせる */
-const ANALYZE_DEBOUNCE_MS = 150;
+import {
+  FrequencySettings,
+  DEFAULT_FREQUENCY_SETTINGS,
+  FREQUENCY_MIX_KEYS,
+  frequencyDetails,
+  frequencyImages,
+} from '@/types/FrequencyTypes';
+import { PipelineSettings, PipelineSource, PipelineStage } from '@/types/PipelineTypes';
+import { availableSources, sanitizePipelineSettings } from '@/utils/pipeline';
+import { clearResultCache } from '@/utils/imageWorkerClient';
+import { clearProxyImages } from '@/utils/proxyImage';
+import { bufferItems, imageDataItems, memoryBudget, rgbaBytes } from '@/utils/memoryBudget';
 
 function App() {
   const [uploadedImage, setUploadedImage] = useState<ImageUploadResult | null>(null);
@@ -34,15 +49,28 @@ function App() {
       ...DEFAULT_DISPLAY_OPTIONS,
       ...stored,
       layers: { ...DEFAULT_DISPLAY_OPTIONS.layers, ...stored.layers },
+      blendModes: { ...DEFAULT_DISPLAY_OPTIONS.blendModes, ...stored.blendModes },
     };
   });
   const [contourSettings, setContourSettings] = useState<ContourSettings>(() =>
     SettingsStorage.getContourSettings({
       levels: DEFAULT_CONTOUR_LEVELS,
+      luminanceModel: 'bt601',
+      levelMode: 'uniform',
+      manualLevels: [],
       transparency: 80,
       minContourDistance: 0,
+      minContourLength: 0,
       brightnessThreshold: 65,
       contourContrast: 0,
+      contourColorMode: 'auto',
+      lineWidth: 1,
+      dashStyle: 'solid',
+      indexInterval: 0,
+      showLabels: false,
+      labelFormat: 'value',
+      bandPalette: 'gray',
+      bandOpacity: 100,
     })
   );
   const [containerSize, setContainerSize] = useState<{ width: number; height: number } | null>(null);
@@ -56,37 +84,115 @@ function App() {
     const stored = SettingsStorage.getFrequencySettings(DEFAULT_FREQUENCY_SETTINGS);
     return { ...DEFAULT_FREQUENCY_SETTINGS, ...stored };
   });
+  const [previewSettings, setPreviewSettings] = useState<PreviewSettings>(() => ({
+    ...DEFAULT_PREVIEW_SETTINGS,
+    ...SettingsStorage.getPreviewSettings(DEFAULT_PREVIEW_SETTINGS),
+  }));
+  const [pipelineSettings, setPipelineSettings] = useState<PipelineSettings>(() =>
+    sanitizePipelineSettings(SettingsStorage.getPipelineSettings<Partial<PipelineSettings>>({}))
+  );
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const analyzeDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { dragging, beginDrag } = useSliderDragState();
 
   const { brightnessData, analyzeBrightness, clearAnalysis } = useBrightnessAnalysis();
   const {
     settings: imageFilterSettings,
     result: imageFilterResult,
-    openCVLoaded: imageFilterOpenCVLoaded,
-    openCVLoading: imageFilterOpenCVLoading,
-    openCVError: imageFilterOpenCVError,
+    engine: imageFilterEngine,
+    progress: imageFilterProgress,
     processImage: processImageFilter,
+    cancel: cancelImageFilter,
     updateSettings: updateImageFilterSettings,
     clearResult: clearImageFilterResult,
   } = useImageFilter();
   const {
     frequencyData,
+    decomposition: frequencyDecomposition,
     isProcessing: isFrequencyProcessing,
+    engine: frequencyEngine,
+    progress: frequencyProgress,
     processFrequencySeparation,
+    cancelFrequencySeparation,
     clearFrequencyData,
-  } = useFrequencySeparation();
+  } = useFrequencySeparation(frequencySettings, dragging && previewSettings.proxyPreview);
   const {
     settings: noiseReductionSettings,
     result: noiseReductionResult,
-    openCVLoaded: noiseReductionOpenCVLoaded,
-    openCVLoading: noiseReductionOpenCVLoading,
-    openCVError: noiseReductionOpenCVError,
+    engine: noiseReductionEngine,
+    progress: noiseReductionProgress,
     processImage: processNoiseReduction,
+    cancel: cancelNoiseReduction,
     updateSettings: updateNoiseReductionSettings,
     clearResult: clearNoiseReductionResult,
   } = useNoiseReduction();
-  const { exportCurrentView } = useImageExport();
+  const {
+    settings: cannySettings,
+    result: cannyResult,
+    processedEdges: cannyEdges,
+    engine: cannyEngine,
+    progress: cannyProgress,
+    processImage: processCanny,
+    cancel: cancelCanny,
+    updateSettings: updateCannySettings,
+    clearResult: clearCannyResult,
+  } = useCannyDetection();
+  const { exportCurrentView, exportContourSvg } = useImageExport();
+
+  // フィルタ後・ノイズ除去後の等高線は、そのレイヤーを表示しているときだけ解析する
+  const derivedBrightness = useDerivedBrightness(
+    {
+      filtered: displayOptions.layers.filteredContour ? imageFilterResult.filteredImageData : null,
+      denoised: displayOptions.layers.denoisedContour ? noiseReductionResult.denoisedImageData : null,
+    },
+    brightnessData,
+    contourSettings
+  );
+
+  // 読み込んだ画像（デコード済みの img 要素と ImageData）と表示中の処理結果。どちらも捨てられないメモリとして数える
+  const imageMemory = useMemo(
+    () =>
+      uploadedImage
+        ? [
+            { key: uploadedImage.image, bytes: rgbaBytes(uploadedImage.image.naturalWidth, uploadedImage.image.naturalHeight) },
+            ...imageDataItems(uploadedImage.originalImageData),
+          ]
+        : [],
+    [uploadedImage]
+  );
+  useMemoryPool('Image', imageMemory);
+
+  const resultMemory = useMemo(
+    () => [
+      ...imageDataItems(
+        imageFilterResult.filteredImageData,
+        noiseReductionResult.denoisedImageData,
+        ...frequencyImages(frequencyData),
+        frequencyDecomposition?.lowFrequency
+      ),
+      ...bufferItems(
+        ...frequencyDetails(frequencyData),
+        ...(frequencyDecomposition?.lowExact ? [frequencyDecomposition.lowExact] : []),
+        ...(frequencyDecomposition?.residuals ?? []),
+        ...[brightnessData, derivedBrightness.filtered, derivedBrightness.denoised].flatMap((data) =>
+          data ? [data.brightnessMap] : []
+        )
+      ),
+    ],
+    [
+      imageFilterResult.filteredImageData,
+      noiseReductionResult.denoisedImageData,
+      frequencyData,
+      frequencyDecomposition,
+      brightnessData,
+      derivedBrightness.filtered,
+      derivedBrightness.denoised,
+    ]
+  );
+  useMemoryPool('Results', resultMemory);
+
+  useEffect(() => {
+    memoryBudget.setLimit(previewSettings.memoryLimitMB);
+  }, [previewSettings.memoryLimitMB]);
 
   // ズーム・パン機能
   const {
@@ -104,6 +210,7 @@ function App() {
     handleTouchMove,
     handleTouchEnd,
     getTransform,
+    screenToImage,
   } = useZoomPan(
     containerSize?.width,
     containerSize?.height,
@@ -120,30 +227,40 @@ function App() {
     if (noiseReductionResult.error) toast.error(noiseReductionResult.error);
   }, [noiseReductionResult.error]);
 
+  useEffect(() => {
+    if (cannyResult.error) toast.error(cannyResult.error);
+  }, [cannyResult.error]);
+
   const handleImageUpload = useCallback((result: ImageUploadResult) => {
     setUploadedImage(result);
 
-    // すべての処理結果をリセット
+    // すべての処理結果をリセット（前の画像の結果・縮小画像のキャッシュも捨てる）
+    clearResultCache();
+    clearProxyImages();
     clearAnalysis();
     clearImageFilterResult();
     clearFrequencyData();
     clearNoiseReductionResult();
+    clearCannyResult();
 
-    analyzeBrightness(result.originalImageData, contourSettings);
+    // 等高線の解析は、入力画像が変わったのを受けて処理チェーンが走らせる
 
     resetZoom();
     setShouldAutoFit(true);
-  }, [analyzeBrightness, contourSettings, resetZoom, clearAnalysis, clearImageFilterResult, clearFrequencyData, clearNoiseReductionResult]);
+  }, [resetZoom, clearAnalysis, clearImageFilterResult, clearFrequencyData, clearNoiseReductionResult, clearCannyResult]);
 
   const handleReset = useCallback(() => {
     setUploadedImage(null);
+    clearResultCache();
+    clearProxyImages();
     clearAnalysis();
     clearImageFilterResult();
     clearFrequencyData();
     clearNoiseReductionResult();
+    clearCannyResult();
     setExportPreviewUrl(null);
     resetZoom();
-  }, [clearAnalysis, clearImageFilterResult, clearFrequencyData, clearNoiseReductionResult, resetZoom]);
+  }, [clearAnalysis, clearImageFilterResult, clearFrequencyData, clearNoiseReductionResult, clearCannyResult, resetZoom]);
 
   const handleContainerResize = useCallback((width: number, height: number) => {
     setContainerSize({ width, height });
@@ -166,13 +283,41 @@ function App() {
   const handleContourSettingsChange = useCallback((settings: ContourSettings) => {
     setContourSettings(settings);
     SettingsStorage.saveContourSettings(settings);
-    if (uploadedImage) {
-      if (analyzeDebounceRef.current) clearTimeout(analyzeDebounceRef.current);
-      analyzeDebounceRef.current = setTimeout(() => {
-        analyzeBrightness(uploadedImage.originalImageData, settings);
-      }, ANALYZE_DEBOUNCE_MS);
-    }
-  }, [uploadedImage, analyzeBrightness]);
+  }, []);
+
+  const handlePreviewSettingsChange = useCallback((settings: PreviewSettings) => {
+    setPreviewSettings(settings);
+    SettingsStorage.savePreviewSettings(settings);
+  }, []);
+
+  const handlePipelineInputChange = useCallback((stage: PipelineStage, source: PipelineSource) => {
+    setPipelineSettings((prev) => {
+      const updated = { ...prev, [stage]: source };
+      SettingsStorage.savePipelineSettings(updated);
+      return updated;
+    });
+  }, []);
+
+  // 処理チェーン: 各段は元画像か他の段の出力を入力にする（まだ処理していない段の出力は null）
+  const pipelineImages: Record<PipelineSource, ImageData | null> = {
+    original: uploadedImage?.originalImageData ?? null,
+    denoised: noiseReductionResult.denoisedImageData,
+    filtered: imageFilterResult.filteredImageData,
+    // ドラッグ中の強さの混ぜ直しは縮小画像で表示するので、次の段には分解したままの低域を渡す
+    lowFrequency: frequencyDecomposition?.lowFrequency ?? null,
+  };
+  // 縮小プレビュー画像はドラッグ中に処理し直す段（自動適用で追従する段）の分だけ作る。Canny はボタンでしか走らない
+  const originalWidth = uploadedImage?.width ?? 0;
+  const { proxyPreview, autoApply } = previewSettings;
+  const contourInput = useStageInput(pipelineImages[pipelineSettings.contour], originalWidth, proxyPreview);
+  const filterInput = useStageInput(
+    pipelineImages[pipelineSettings.filter],
+    originalWidth,
+    proxyPreview && autoApply && imageFilterSettings.enabled
+  );
+  const frequencyInput = useStageInput(pipelineImages[pipelineSettings.frequency], originalWidth, proxyPreview && autoApply);
+  const noiseInput = useStageInput(pipelineImages[pipelineSettings.denoise], originalWidth, proxyPreview && autoApply);
+  const cannyInput = useStageInput(pipelineImages[cannySettings.source], originalWidth, false);
 
   const handleFrequencySettingsChange = useCallback((settings: FrequencySettings) => {
     setFrequencySettings(settings);
@@ -180,10 +325,10 @@ function App() {
   }, []);
 
   const handleFrequencyApply = useCallback(() => {
-    if (uploadedImage) {
-      processFrequencySeparation(uploadedImage.originalImageData, frequencySettings);
+    if (frequencyInput.image) {
+      processFrequencySeparation(frequencyInput.image, frequencySettings, frequencyInput.previewScale);
     }
-  }, [uploadedImage, processFrequencySeparation, frequencySettings]);
+  }, [frequencyInput.image, frequencyInput.previewScale, processFrequencySeparation, frequencySettings]);
 
   const handleImageFilterSettingsChange = useCallback((settings: Partial<ImageFilterSettings>) => {
     updateImageFilterSettings(settings);
@@ -192,15 +337,93 @@ function App() {
   }, [updateImageFilterSettings, clearImageFilterResult]);
 
   const handleApplyImageFilter = useCallback(() => {
-    if (!uploadedImage) return;
+    if (!filterInput.image) return;
     // Apply時は自動的にenabledにする
     if (!imageFilterSettings.enabled) updateImageFilterSettings({ enabled: true });
-    processImageFilter(uploadedImage.originalImageData);
-  }, [uploadedImage, imageFilterSettings.enabled, updateImageFilterSettings, processImageFilter]);
+    processImageFilter(filterInput.image, filterInput.previewScale);
+  }, [filterInput.image, filterInput.previewScale, imageFilterSettings.enabled, updateImageFilterSettings, processImageFilter]);
 
   const handleApplyNoiseReduction = useCallback(() => {
-    if (uploadedImage) processNoiseReduction(uploadedImage.originalImageData);
-  }, [uploadedImage, processNoiseReduction]);
+    if (noiseInput.image) processNoiseReduction(noiseInput.image, noiseInput.previewScale);
+  }, [noiseInput.image, noiseInput.previewScale, processNoiseReduction]);
+
+  // 設定変更に追従する処理。ドラッグ中は縮小画像、離したら（落ち着いたら）フル解像度で処理する。
+  // 等高線は常に追従し、フィルタ・周波数分離・ノイズ除去は自動適用がオンのときだけ追従する。
+  // 入力画像（上流の段の結果）が変わったときは、結果を出している段なら自動適用に関係なく処理し直す
+
+  const runContourAnalysis = useCallback((imageData: ImageData) => {
+    analyzeBrightness(imageData, contourSettings);
+  }, [analyzeBrightness, contourSettings]);
+
+  const runFrequencySeparation = useCallback((imageData: ImageData, previewScale?: number) => {
+    processFrequencySeparation(imageData, frequencySettings, previewScale);
+  }, [processFrequencySeparation, frequencySettings]);
+
+  useLiveProcessing({
+    ...contourInput,
+    dragging,
+    key: processingKey(contourSettings),
+    enabled: true,
+    followInput: true,
+    run: runContourAnalysis,
+    clear: clearAnalysis,
+  });
+
+  useLiveProcessing({
+    ...filterInput,
+    dragging,
+    key: processingKey(imageFilterSettings, 'opacity'),
+    enabled: previewSettings.autoApply && imageFilterSettings.enabled,
+    followInput: imageFilterSettings.enabled && (previewSettings.autoApply || !!imageFilterResult.filteredImageData),
+    run: processImageFilter,
+    clear: clearImageFilterResult,
+  });
+
+  useLiveProcessing({
+    ...frequencyInput,
+    dragging,
+    // 明暗・帯域の強さは混ぜ直すだけなので、変えても低域を計算し直さない
+    key: processingKey(frequencySettings, ...FREQUENCY_MIX_KEYS),
+    enabled: previewSettings.autoApply,
+    followInput: previewSettings.autoApply || !!frequencyData.lowFrequency,
+    run: runFrequencySeparation,
+    clear: clearFrequencyData,
+  });
+
+  useLiveProcessing({
+    ...noiseInput,
+    dragging,
+    key: processingKey(noiseReductionSettings, 'opacity'),
+    enabled: previewSettings.autoApply,
+    followInput: previewSettings.autoApply || !!noiseReductionResult.denoisedImageData,
+    run: processNoiseReduction,
+    clear: clearNoiseReductionResult,
+  });
+
+  // Canny は設定変更では走らせず（Detect edges を押したときだけ）、検出済みなら入力の変化に追従する
+  useLiveProcessing({
+    ...cannyInput,
+    dragging,
+    key: processingKey(cannySettings),
+    enabled: false,
+    followInput: !!cannyResult.edges,
+    run: processCanny,
+    clear: clearCannyResult,
+  });
+
+  const cannySourceImage = cannyInput.image;
+
+  const handleApplyCanny = useCallback(() => {
+    if (!cannySourceImage) return;
+    processCanny(cannySourceImage);
+    // 検出したら結果が見えるようにレイヤーを自動でオンにする
+    if (!displayOptions.layers.canny) {
+      handleDisplayOptionsChange({
+        ...displayOptions,
+        layers: { ...displayOptions.layers, canny: true },
+      });
+    }
+  }, [cannySourceImage, processCanny, displayOptions, handleDisplayOptionsChange]);
 
   const handleDownloadPreviewChange = useCallback((on: boolean) => {
     setDownloadPreview(on);
@@ -216,19 +439,29 @@ function App() {
 
     setIsExporting(true);
     try {
-      await exportCurrentView({ current: canvasRef.current }, settings, {
+      const metadata = {
         timestamp: new Date().toISOString(),
         displayOptions,
         contourSettings,
         imageSize: { width: uploadedImage.width, height: uploadedImage.height },
-      });
+      };
+      if (settings.format === 'svg') {
+        await exportContourSvg({
+          originalImageData: uploadedImage.originalImageData,
+          brightnessData,
+          filteredBrightnessData: derivedBrightness.filtered,
+          denoisedBrightnessData: derivedBrightness.denoised,
+        }, settings, metadata);
+      } else {
+        await exportCurrentView({ current: canvasRef.current }, settings, metadata);
+      }
       toast.success(`Exported as ${settings.format.toUpperCase()}`);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Export failed.');
     } finally {
       setIsExporting(false);
     }
-  }, [uploadedImage, displayOptions, contourSettings, exportCurrentView]);
+  }, [uploadedImage, displayOptions, contourSettings, exportCurrentView, exportContourSvg, brightnessData, derivedBrightness.filtered, derivedBrightness.denoised]);
 
   const hasImage = !!uploadedImage;
   // 画像が差し替わったことを Export のサイズ見積もりに伝えるためのキー
@@ -236,39 +469,66 @@ function App() {
     ? `${uploadedImage.file.name}-${uploadedImage.file.lastModified}-${uploadedImage.width}x${uploadedImage.height}`
     : null;
 
+  // 各段のパネルの入力選択。循環する入力は選択肢から外す
+  const stageInputProps = (stage: PipelineStage) => ({
+    input: pipelineSettings[stage],
+    inputOptions: availableSources(pipelineSettings, stage),
+    onInputChange: (source: PipelineSource) => handlePipelineInputChange(stage, source),
+    inputAvailable: !!pipelineImages[pipelineSettings[stage]],
+  });
+
   const leftPanel = (
     <>
       <ContourPanel
         settings={contourSettings}
         onSettingsChange={handleContourSettingsChange}
         disabled={!hasImage}
+        {...stageInputProps('contour')}
       />
       <ImageFilterPanel
         settings={imageFilterSettings}
         onSettingsChange={handleImageFilterSettingsChange}
         onApply={handleApplyImageFilter}
         processing={imageFilterResult.processing}
+        progress={imageFilterProgress}
+        onCancel={cancelImageFilter}
         hasImage={hasImage}
-        openCVLoaded={imageFilterOpenCVLoaded}
-        openCVLoading={imageFilterOpenCVLoading}
-        openCVError={imageFilterOpenCVError}
+        engine={imageFilterEngine}
+        {...stageInputProps('filter')}
       />
       <FrequencyPanel
         settings={frequencySettings}
         onSettingsChange={handleFrequencySettingsChange}
         onApply={handleFrequencyApply}
         processing={isFrequencyProcessing}
+        progress={frequencyProgress}
+        onCancel={cancelFrequencySeparation}
         hasImage={hasImage}
+        engine={frequencyEngine}
+        {...stageInputProps('frequency')}
       />
       <NoiseReductionPanel
         settings={noiseReductionSettings}
         onSettingsChange={updateNoiseReductionSettings}
         onApply={handleApplyNoiseReduction}
         processing={noiseReductionResult.processing}
+        progress={noiseReductionProgress}
+        onCancel={cancelNoiseReduction}
+        hasImage={hasImage}
+        engine={noiseReductionEngine}
+        {...stageInputProps('denoise')}
+      />
+      <CannyPanel
+        settings={cannySettings}
+        onSettingsChange={updateCannySettings}
+        onApply={handleApplyCanny}
+        processing={cannyResult.processing}
         hasImage={hasImage}
-        openCVLoaded={noiseReductionOpenCVLoaded}
-        openCVLoading={noiseReductionOpenCVLoading}
-        openCVError={noiseReductionOpenCVError}
+        sourceAvailable={!!cannySourceImage}
+        thresholds={cannyResult.thresholds}
+        engine={cannyEngine}
+        progress={cannyProgress}
+        onCancel={cancelCanny}
       />
     </>
   );
@@ -279,8 +539,12 @@ function App() {
         options={displayOptions}
         onOptionsChange={handleDisplayOptionsChange}
         hasContour={!!brightnessData}
+        hasEdges={!!cannyResult.edges}
+        bandCount={frequencyData.bands.length}
         downloadPreview={downloadPreview}
         onDownloadPreviewChange={handleDownloadPreviewChange}
+        previewSettings={previewSettings}
+        onPreviewSettingsChange={handlePreviewSettingsChange}
       />
       <ExportPanel
         onExport={handleExport}
@@ -294,7 +558,7 @@ function App() {
   );
 
   return (
-    <>
+    <SliderDragContext.Provider value={beginDrag}>
       <AppShell
         title="Brightness Contour"
         onTitleClick={hasImage ? handleReset : undefined}
@@ -321,8 +585,14 @@ function App() {
             imageFilterOpacity={imageFilterSettings.opacity * 100}
             denoisedImageData={noiseReductionResult.denoisedImageData}
             denoiseOpacity={noiseReductionSettings.opacity * 100}
+            filteredBrightnessData={derivedBrightness.filtered}
+            denoisedBrightnessData={derivedBrightness.denoised}
             frequencyData={frequencyData}
+            cannyEdges={cannyEdges}
+            cannyColor={cannySettings.color}
+            cannyOpacity={cannySettings.opacity * 100}
             transform={getTransform()}
+            zoomPan={zoomPanState}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
@@ -337,6 +607,7 @@ function App() {
             onNativeTouchMove={handleTouchMove}
             onNativeTouchEnd={handleTouchEnd}
             exportPreviewUrl={exportPreviewUrl}
+            screenToImage={screenToImage}
           />
         ) : (
           <div className="h-full p-4 lg:p-6">
@@ -345,7 +616,7 @@ function App() {
         )}
       </AppShell>
       <Toaster />
-    </>
+    </SliderDragContext.Provider>
   );
 }
 
@@ -1,10 +1,14 @@
-import React, { useRef, useEffect, forwardRef } from 'react';
-import { CornersOut, Minus, Plus } from '@phosphor-icons/react';
+import React, { useRef, useEffect, useMemo, useState, forwardRef } from 'react';
+import { CornersOut, Eyedropper, Minus, Plus } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
+import { PixelInspector } from '@/components/PixelInspector';
 import { useCanvasRenderer } from '@/hooks/useCanvasRenderer';
+import { ImagePoint, ZoomPanState } from '@/hooks/useZoomPan';
+import { InspectorMaskSource, InspectorSource, inspectPixel } from '@/utils/pixelInspector';
 import { BrightnessData, ContourSettings } from '@/types/ImageTypes';
 import { DisplayOptions } from '@/types/UITypes';
 import { FrequencyData } from '@/types/FrequencyTypes';
+import { EdgeMask } from '@/types/CannyTypes';
 
 interface ImageCanvasProps {
   originalImageData: ImageData;
@@ -15,8 +19,15 @@ interface ImageCanvasProps {
   imageFilterOpacity?: number;
   denoisedImageData?: ImageData | null;
   denoiseOpacity?: number;
+  filteredBrightnessData?: BrightnessData | null;
+  denoisedBrightnessData?: BrightnessData | null;
   frequencyData?: FrequencyData | null;
+  cannyEdges?: EdgeMask | null;
+  cannyColor?: string;
+  cannyOpacity?: number;
   transform?: string;
+  /** transform の元になったズーム・パン。等高線はこの拡大率でストロークし直すので、拡大しても線がぼやけない */
+  zoomPan?: ZoomPanState;
   onMouseDown?: (e: React.MouseEvent) => void;
   onMouseMove?: (e: React.MouseEvent) => void;
   onMouseUp?: () => void;
@@ -31,6 +42,8 @@ interface ImageCanvasProps {
   onNativeTouchMove?: (e: TouchEvent, rect: DOMRect) => void;
   onNativeTouchEnd?: (e: TouchEvent) => void;
   exportPreviewUrl?: string | null;
+  /** Maps a pointer position to image pixels; enables the pixel inspector when given. */
+  screenToImage?: (clientX: number, clientY: number, containerRect: DOMRect) => ImagePoint | null;
 }
 
 export const ImageCanvas = forwardRef<HTMLCanvasElement, ImageCanvasProps>(function ImageCanvas({
@@ -42,8 +55,14 @@ export const ImageCanvas = forwardRef<HTMLCanvasElement, ImageCanvasProps>(funct
   imageFilterOpacity = 100,
   denoisedImageData,
   denoiseOpacity = 100,
+  filteredBrightnessData,
+  denoisedBrightnessData,
   frequencyData,
+  cannyEdges,
+  cannyColor,
+  cannyOpacity = 100,
   transform,
+  zoomPan,
   onMouseDown,
   onMouseMove,
   onMouseUp,
@@ -58,20 +77,74 @@ export const ImageCanvas = forwardRef<HTMLCanvasElement, ImageCanvasProps>(funct
   onNativeTouchMove,
   onNativeTouchEnd,
   exportPreviewUrl,
+  screenToImage,
 }, ref) {
-  const { canvasRef, renderWithLayers } = useCanvasRenderer();
+  const { canvasRef, overlayRef, upperRef, outputRef, renderWithLayers, setContourView } = useCanvasRenderer();
   const containerRef = useRef<HTMLDivElement>(null);
   const previewRef = useRef<HTMLImageElement>(null);
+  const [inspecting, setInspecting] = useState(false);
+  const [inspectedPoint, setInspectedPoint] = useState<ImagePoint | null>(null);
 
-  // 外部からのrefと内部のrefを同期。アンマウント後も外部refが外れたcanvas
-  // （前の画像が描かれたまま）を指し続けないよう、必ず null に戻す
-  useEffect(() => {
-    if (!ref || typeof ref !== 'object') return;
-    ref.current = canvasRef.current;
-    return () => {
-      ref.current = null;
-    };
-  }, [ref, canvasRef]);
+  // Read from the image layers that are actually on screen, top to bottom.
+  const inspectorSources = useMemo(() => {
+    const { layers, hiddenBands } = displayOptions;
+    const sources: (InspectorSource | InspectorMaskSource)[] = [];
+    if (layers.frequencyRecombined && frequencyData?.reconstruction) {
+      sources.push({ id: 'frequencyRecombined', label: 'Recombined', imageData: frequencyData.reconstruction });
+    }
+    // 帯域は細かい順に描くので、上にあるのは粗い帯域
+    const bands = frequencyData?.bands ?? [];
+    for (let index = bands.length - 1; index >= 0; index--) {
+      if (hiddenBands.includes(index)) continue;
+      sources.push({ id: `band${index}`, label: `Band ${index + 1}`, imageData: bands[index]! });
+    }
+    const highFrequency = [
+      ['highFrequencyCombined', 'High', frequencyData?.highFrequencyCombined],
+      ['highFrequencyDark', 'Dark', frequencyData?.highFrequencyDark],
+      ['highFrequencyBright', 'Bright', frequencyData?.highFrequencyBright],
+    ] as const;
+    for (const [id, label, imageData] of highFrequency) {
+      if (layers[id] && imageData) sources.push({ id, label, imageData });
+    }
+    if (layers.lowFrequency && frequencyData?.lowFrequency) {
+      sources.push({ id: 'lowFrequency', label: 'Low frequency', imageData: frequencyData.lowFrequency });
+    }
+    if (layers.canny && cannyEdges) {
+      sources.push({ id: 'canny', label: 'Canny', mask: cannyEdges });
+    }
+    if (layers.denoised && denoisedImageData) {
+      sources.push({ id: 'denoised', label: 'Denoised', imageData: denoisedImageData });
+    }
+    if (layers.filtered && filteredImageData) {
+      sources.push({ id: 'filtered', label: 'Filtered', imageData: filteredImageData });
+    }
+    if (layers.original) {
+      sources.push({ id: 'original', label: 'Original', imageData: originalImageData });
+    }
+    return sources;
+  }, [displayOptions, frequencyData, cannyEdges, denoisedImageData, filteredImageData, originalImageData]);
+
+  const readouts = useMemo(
+    () =>
+      inspecting && inspectedPoint
+        ? inspectPixel(
+            inspectedPoint.x,
+            inspectedPoint.y,
+            inspectorSources,
+            brightnessData?.levels ?? [],
+            contourSettings,
+            originalImageData
+          )
+        : [],
+    [inspecting, inspectedPoint, inspectorSources, brightnessData, contourSettings, originalImageData]
+  );
+
+  const inspectAt = (clientX: number, clientY: number) => {
+    if (!inspecting || !screenToImage || !containerRef.current) return;
+    const point = screenToImage(clientX, clientY, containerRef.current.getBoundingClientRect());
+    // Keep the last readout when the pointer leaves the image, so it can be read off.
+    if (point) setInspectedPoint(point);
+  };
 
   useEffect(() => {
     renderWithLayers(
@@ -84,18 +157,38 @@ export const ImageCanvas = forwardRef<HTMLCanvasElement, ImageCanvasProps>(funct
         imageFilterOpacity,
         denoisedImageData,
         denoiseOpacity,
+        filteredBrightnessData,
+        denoisedBrightnessData,
         frequencyData,
+        cannyEdges,
+        cannyColor,
+        cannyOpacity,
       }
     );
-  }, [originalImageData, brightnessData, displayOptions, contourSettings, filteredImageData, imageFilterOpacity, denoisedImageData, denoiseOpacity, frequencyData, renderWithLayers]);
+
+    // 外部の ref には等高線込みで元画像の大きさのキャンバス（書き出し元）を渡す。描き直すたびに
+    // 指す先が変わりうるので描画のあとで同期し、アンマウント後も外れたcanvas
+    // （前の画像が描かれたまま）を指し続けないよう、必ず null に戻す
+    if (!ref || typeof ref !== 'object') return;
+    ref.current = outputRef.current;
+    return () => {
+      ref.current = null;
+    };
+  }, [originalImageData, brightnessData, displayOptions, contourSettings, filteredImageData, imageFilterOpacity, denoisedImageData, denoiseOpacity, filteredBrightnessData, denoisedBrightnessData, frequencyData, cannyEdges, cannyColor, cannyOpacity, renderWithLayers, ref, outputRef]);
+
+  // 等高線は表示の拡大率・位置に合わせてストロークし直す
+  useEffect(() => {
+    if (zoomPan) setContourView(zoomPan);
+  }, [zoomPan, setContourView]);
 
   // ズーム・パンは毎フレーム変わる動的な値なので、JSX ではなく style に直接代入する。
   // -50% の平行移動でキャンバスをコンテナ中央に置いてから拡大・平行移動する。
   useEffect(() => {
     const value = `translate(-50%, -50%) ${transform ?? ''}`.trimEnd();
     if (canvasRef.current) canvasRef.current.style.transform = value;
+    if (upperRef.current) upperRef.current.style.transform = value;
     if (previewRef.current) previewRef.current.style.transform = value;
-  }, [transform, exportPreviewUrl, canvasRef]);
+  }, [transform, exportPreviewUrl, canvasRef, upperRef]);
 
   // コンテナサイズ変更を監視
   useEffect(() => {
@@ -119,6 +212,12 @@ export const ImageCanvas = forwardRef<HTMLCanvasElement, ImageCanvasProps>(funct
     };
   }, [onContainerResize]);
 
+  // Native touch listeners are bound once, so they reach the latest inspectAt through a ref.
+  const onTouchInspect = useRef(inspectAt);
+  useEffect(() => {
+    onTouchInspect.current = inspectAt;
+  });
+
   // Touch event listeners (non-passive for preventDefault)
   useEffect(() => {
     if (!containerRef.current) return;
@@ -126,7 +225,11 @@ export const ImageCanvas = forwardRef<HTMLCanvasElement, ImageCanvasProps>(funct
 
     const container = containerRef.current;
 
-    const touchStartHandler = (e: TouchEvent) => onNativeTouchStart?.(e);
+    const touchStartHandler = (e: TouchEvent) => {
+      const touch = e.touches[0];
+      if (e.touches.length === 1 && touch) onTouchInspect.current(touch.clientX, touch.clientY);
+      onNativeTouchStart?.(e);
+    };
     const touchMoveHandler = (e: TouchEvent) => {
       onNativeTouchMove?.(e, container.getBoundingClientRect());
     };
@@ -187,11 +290,16 @@ export const ImageCanvas = forwardRef<HTMLCanvasElement, ImageCanvasProps>(funct
       ref={containerRef}
       className="relative h-full w-full touch-none overflow-hidden bg-muted"
       onMouseDown={onMouseDown}
-      onMouseMove={onMouseMove}
+      onMouseMove={(e) => {
+        inspectAt(e.clientX, e.clientY);
+        onMouseMove?.(e);
+      }}
       onMouseUp={onMouseUp}
       onMouseLeave={onMouseUp}
     >
       <canvas ref={canvasRef} className="absolute top-1/2 left-1/2 origin-center" />
+      <canvas ref={overlayRef} className="pointer-events-none absolute inset-0 h-full w-full" />
+      <canvas ref={upperRef} className="pointer-events-none absolute top-1/2 left-1/2 origin-center" />
       {exportPreviewUrl && (
         <img
           ref={previewRef}
@@ -200,8 +308,30 @@ export const ImageCanvas = forwardRef<HTMLCanvasElement, ImageCanvasProps>(funct
           className="pointer-events-none absolute top-1/2 left-1/2 max-w-none origin-center"
         />
       )}
+      {inspecting && inspectedPoint && (
+        <PixelInspector
+          point={inspectedPoint}
+          readouts={readouts}
+          levelCount={brightnessData?.levels.length ?? 0}
+        />
+      )}
       {onZoomIn && onZoomOut && (
         <div className="absolute right-3 bottom-3 flex items-center gap-1 rounded-md border bg-background/90 p-1 shadow-sm backdrop-blur">
+          {screenToImage && (
+            <Button
+              variant={inspecting ? 'secondary' : 'ghost'}
+              size="icon-sm"
+              onClick={() => {
+                setInspecting((on) => !on);
+                setInspectedPoint(null);
+              }}
+              aria-label="Pixel inspector"
+              aria-pressed={inspecting}
+              title="Pixel inspector"
+            >
+              <Eyedropper />
+            </Button>
+          )}
           <Button variant="ghost" size="icon-sm" onClick={onZoomOut} aria-label="Zoom out">
             <Minus />
           </Button>
@@ -0,0 +1,66 @@
+import { ImagePoint } from '@/hooks/useZoomPan';
+import { MaskReadout, PixelReadout } from '@/utils/pixelInspector';
+
+interface PixelInspectorProps {
+  point: ImagePoint;
+  readouts: (PixelReadout | MaskReadout)[];
+  /** Number of contour levels, for the "level k of n" readout. */
+  levelCount: number;
+}
+
+const round = (value: number, digits = 0): string => value.toFixed(digits);
+
+/** Floating readout of the pixel under the cursor, one block per visible image layer. */
+export function PixelInspector({ point, readouts, levelCount }: PixelInspectorProps) {
+  return (
+    <div
+      className="pointer-events-none absolute top-3 left-3 w-56 space-y-2 rounded-md border bg-background/90 p-2 text-xs shadow-sm backdrop-blur"
+      aria-live="polite"
+    >
+      <div className="flex justify-between text-muted-foreground tabular-nums">
+        <span>Pixel</span>
+        <span>
+          {point.x}, {point.y}
+        </span>
+      </div>
+      {readouts.length === 0 && (
+        <p className="text-muted-foreground">No image layer visible.</p>
+      )}
+      {readouts.map((readout) =>
+        'edge' in readout ? (
+          <div key={readout.id} className="flex items-center justify-between border-t pt-1.5">
+            <span className="font-medium">{readout.label}</span>
+            <span className="font-mono text-muted-foreground">{readout.edge ? 'Edge' : 'No edge'}</span>
+          </div>
+        ) : (
+          <div key={readout.id} className="space-y-0.5 border-t pt-1.5">
+            <div className="flex items-center gap-1.5 font-medium">
+              <span
+                className="inline-block size-3 rounded-sm border"
+                style={{ backgroundColor: readout.hex }}
+              />
+              <span>{readout.label}</span>
+              <span className="ml-auto font-mono text-muted-foreground">{readout.hex}</span>
+            </div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-2 font-mono tabular-nums">
+              <dt className="text-muted-foreground">RGB</dt>
+              <dd>{readout.rgb.join(', ')}</dd>
+              <dt className="text-muted-foreground">HSL</dt>
+              <dd>
+                {round(readout.hsl[0])}°, {round(readout.hsl[1])}%, {round(readout.hsl[2])}%
+              </dd>
+              <dt className="text-muted-foreground">Lab</dt>
+              <dd>{readout.lab.map((v) => round(v, 1)).join(', ')}</dd>
+              <dt className="text-muted-foreground">Lum</dt>
+              <dd>{round(readout.luminance, 1)}</dd>
+              <dt className="text-muted-foreground">Level</dt>
+              <dd>
+                {readout.band} / {levelCount}
+              </dd>
+            </dl>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,51 @@
-import { CircleNotch } from '@phosphor-icons/react';
+import { CircleNotch, X } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
+import { StatusNote } from '@/components/controls/StatusNote';
+import { JobProgress } from '@/types/JobTypes';
 
 interface ApplyButtonProps {
   label: string;
   onClick: () => void;
   processing?: boolean;
   disabled?: boolean;
+  /** Stage and overall percentage of the running job, shown under the button. */
+  progress?: JobProgress | null;
+  /** Shows a Cancel button next to the busy button while processing. */
+  onCancel?: () => void;
 }
 
-/** Full-width "run this processing step" button with a busy state. */
-export function ApplyButton({ label, onClick, processing, disabled }: ApplyButtonProps) {
+/** Full-width "run this processing step" button with a busy state, progress and cancel. */
+export function ApplyButton({ label, onClick, processing, disabled, progress, onCancel }: ApplyButtonProps) {
+  const percent = progress ? Math.round(progress.percent) : null;
+
   return (
-    <Button className="w-full" onClick={onClick} disabled={disabled || processing}>
-      {processing && <CircleNotch className="animate-spin" />}
-      {processing ? 'Processing…' : label}
-    </Button>
+    <div className="space-y-1.5">
+      <div className="flex gap-2">
+        <Button className="flex-1" onClick={onClick} disabled={disabled || processing}>
+          {processing && <CircleNotch className="animate-spin" />}
+          {processing ? (percent !== null ? `Processing… ${percent}%` : 'Processing…') : label}
+        </Button>
+        {processing && onCancel && (
+          <Button variant="outline" onClick={onCancel}>
+            <X />
+            Cancel
+          </Button>
+        )}
+      </div>
+      {processing && progress && (
+        <>
+          <div
+            className="h-1 w-full bg-muted"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent ?? 0}
+          >
+            <div className="h-full bg-primary transition-[width] duration-200" style={{ width: `${percent}%` }} />
+          </div>
+          <StatusNote>{progress.stage}</StatusNote>
+        </>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,16 @@
+import { StatusNote } from '@/components/controls/StatusNote';
+import { ENGINE_LABELS, ProcessingEngine } from '@/utils/ImageProcessor';
+
+interface EngineStatusProps {
+  /** `null` while the engine is still loading. */
+  engine: ProcessingEngine | null;
+}
+
+/** Names the image engine a panel runs on, and says why when it fell back from OpenCV.js. */
+export function EngineStatus({ engine }: EngineStatusProps) {
+  if (!engine) return <StatusNote>Loading image engine…</StatusNote>;
+  if (engine === 'canvas') {
+    return <StatusNote>OpenCV.js unavailable · using {ENGINE_LABELS.canvas}, slower on large radii</StatusNote>;
+  }
+  return <StatusNote>Engine: {ENGINE_LABELS[engine]}</StatusNote>;
+}
@@ -1,5 +1,6 @@
 import { Label } from '@/components/ui/label'
 import { Slider } from '@/components/ui/slider'
+import { useSliderDrag } from '@/hooks/useSliderDrag'
 
 interface LabeledSliderProps {
   label: string
@@ -20,7 +21,11 @@ interface LabeledSliderProps {
   disabled?: boolean
 }
 
-/** Standard settings-panel row: label left, value right, slider below. */
+/**
+ * Standard settings-panel row: label left, value right, slider below.
+ * Grabbing the thumb reports a drag to `SliderDragContext`, so processing can
+ * switch to the low-resolution preview until the pointer is released.
+ */
 export function LabeledSlider({
   label,
   ariaLabel,
@@ -33,6 +38,8 @@ export function LabeledSlider({
   unit = '',
   disabled,
 }: LabeledSliderProps) {
+  const beginDrag = useSliderDrag()
+
   return (
     <div className="space-y-2">
       <div className="flex items-baseline justify-between">
@@ -46,6 +53,7 @@ export function LabeledSlider({
         value={[value]}
         onValueChange={([v]) => v !== undefined && onChange(v)}
         onValueCommit={onCommit ? ([v]) => v !== undefined && onCommit(v) : undefined}
+        onPointerDown={beginDrag && !disabled ? beginDrag : undefined}
         min={min}
         max={max}
         step={step}
@@ -0,0 +1,37 @@
+import { StatusNote } from '@/components/controls/StatusNote';
+import { useMemoryUsage } from '@/hooks/useMemoryBudget';
+import { cn } from '@/lib/utils';
+
+// MB 単位（1 GB 以上は GB）で表示する
+function formatMegabytes(bytes: number): string {
+  const megabytes = bytes / (1024 * 1024);
+  return megabytes >= 1024 ? `${(megabytes / 1024).toFixed(1)} GB` : `${Math.round(megabytes)} MB`;
+}
+
+/** 画像・結果・キャッシュが使っているメモリと、キャッシュを減らし始める上限 */
+export function MemoryReadout() {
+  const { totalBytes, limitBytes, pools } = useMemoryUsage();
+  const overLimit = totalBytes > limitBytes;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">Memory in use</span>
+        <span className={cn('tabular-nums', overLimit ? 'text-destructive' : 'text-foreground')}>
+          {formatMegabytes(totalBytes)} / {formatMegabytes(limitBytes)}
+        </span>
+      </div>
+      {pools
+        .filter((pool) => pool.bytes > 0)
+        .map((pool) => (
+          <div key={pool.name} className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{pool.name}</span>
+            <span className="tabular-nums">{formatMegabytes(pool.bytes)}</span>
+          </div>
+        ))}
+      {overLimit && (
+        <StatusNote error>Over the limit with every cache dropped. Try a smaller image.</StatusNote>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface SelectRowProps<T extends string> {
+  label: string
+  value: T
+  /** Option values mapped to their display labels, in menu order. */
+  options: Record<T, string>
+  onChange: (value: T) => void
+  disabled?: boolean
+}
+
+/** Settings-panel row for picking one of a fixed set of options: label left, select right. */
+export function SelectRow<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  disabled,
+}: SelectRowProps<T>) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <Label className="text-sm">{label}</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as T)} disabled={disabled}>
+        <SelectTrigger className="w-36" aria-label={label}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(options) as T[]).map((option) => (
+            <SelectItem key={option} value={option}>
+              {options[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
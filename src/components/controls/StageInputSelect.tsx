@@ -0,0 +1,40 @@
+import { SelectRow } from '@/components/controls/SelectRow';
+import { StatusNote } from '@/components/controls/StatusNote';
+import { PIPELINE_SOURCE_LABELS, PIPELINE_SOURCE_STEPS } from '@/lib/pipeline-labels';
+import { PipelineSource } from '@/types/PipelineTypes';
+
+interface StageInputSelectProps {
+  value: PipelineSource;
+  /** Inputs this stage may use; ones that would feed its own output back are left out. */
+  options: readonly PipelineSource[];
+  onChange: (source: PipelineSource) => void;
+  /** False when the chosen input has not been produced yet. */
+  available: boolean;
+  hasImage: boolean;
+  label?: string;
+  disabled?: boolean;
+}
+
+/** Picks which image a processing stage reads, with a hint when that image is still missing. */
+export function StageInputSelect({
+  value,
+  options,
+  onChange,
+  available,
+  hasImage,
+  label = 'Input',
+  disabled,
+}: StageInputSelectProps) {
+  const labels = Object.fromEntries(
+    options.map((source) => [source, PIPELINE_SOURCE_LABELS[source]])
+  ) as Record<PipelineSource, string>;
+
+  return (
+    <>
+      <SelectRow label={label} value={value} options={labels} onChange={onChange} disabled={disabled} />
+      {hasImage && !available && (
+        <StatusNote>Apply the {PIPELINE_SOURCE_STEPS[value]} step first.</StatusNote>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,180 @@
+import { CollapsibleSection } from '@/components/layout/CollapsibleSection';
+import { LabeledSlider } from '@/components/controls/LabeledSlider';
+import { ApplyButton } from '@/components/controls/ApplyButton';
+import { StatusNote } from '@/components/controls/StatusNote';
+import { EngineStatus } from '@/components/controls/EngineStatus';
+import { SelectRow } from '@/components/controls/SelectRow';
+import { StageInputSelect } from '@/components/controls/StageInputSelect';
+import { ColorRow } from '@/components/controls/ColorRow';
+import { ToggleChip } from '@/components/controls/ToggleChip';
+import { Label } from '@/components/ui/label';
+import {
+  CANNY_HIGH_THRESHOLD_RANGE,
+  CANNY_LOW_THRESHOLD_RANGE,
+  CannySettings,
+  CannyThresholdMode,
+  CannyThresholds,
+} from '@/types/CannyTypes';
+import { ProcessingEngine } from '@/utils/ImageProcessor';
+import { JobProgress } from '@/types/JobTypes';
+import { PIPELINE_SOURCES } from '@/utils/pipeline';
+
+const THRESHOLD_MODE_LABELS: Record<CannyThresholdMode, string> = {
+  manual: 'Manual',
+  otsu: 'Auto (Otsu)',
+};
+
+interface CannyPanelProps {
+  settings: CannySettings;
+  onSettingsChange: (settings: Partial<CannySettings>) => void;
+  onApply: () => void;
+  processing: boolean;
+  progress: JobProgress | null;
+  onCancel: () => void;
+  hasImage: boolean;
+  /** False when the chosen source layer has not been produced yet. */
+  sourceAvailable: boolean;
+  /** Thresholds used by the last run, shown for the auto mode. */
+  thresholds: CannyThresholds | null;
+  /** `null` while the image engine is still loading. */
+  engine: ProcessingEngine | null;
+}
+
+/** Canny edge detection on one of the image layers. */
+export function CannyPanel({
+  settings,
+  onSettingsChange,
+  onApply,
+  processing,
+  progress,
+  onCancel,
+  hasImage,
+  sourceAvailable,
+  thresholds,
+  engine,
+}: CannyPanelProps) {
+  const disabled = processing || !hasImage;
+
+  return (
+    <CollapsibleSection title="Canny Edges" defaultOpen={false}>
+      <ApplyButton
+        label="Detect edges"
+        onClick={onApply}
+        processing={processing}
+        progress={progress}
+        onCancel={onCancel}
+        disabled={!hasImage || !engine || !sourceAvailable}
+      />
+      <EngineStatus engine={engine} />
+
+      <StageInputSelect
+        label="Source"
+        value={settings.source}
+        options={PIPELINE_SOURCES}
+        onChange={(source) => onSettingsChange({ source })}
+        available={sourceAvailable}
+        hasImage={hasImage}
+        disabled={disabled}
+      />
+      <SelectRow
+        label="Thresholds"
+        value={settings.thresholdMode}
+        options={THRESHOLD_MODE_LABELS}
+        onChange={(thresholdMode) => onSettingsChange({ thresholdMode })}
+        disabled={disabled}
+      />
+      {settings.thresholdMode === 'manual' ? (
+        <>
+          <LabeledSlider
+            label="Low threshold"
+            value={settings.lowThreshold}
+            onChange={(lowThreshold) => onSettingsChange({ lowThreshold })}
+            min={CANNY_LOW_THRESHOLD_RANGE.min}
+            max={CANNY_LOW_THRESHOLD_RANGE.max}
+            disabled={disabled}
+          />
+          <LabeledSlider
+            label="High threshold"
+            value={settings.highThreshold}
+            onChange={(highThreshold) => onSettingsChange({ highThreshold })}
+            min={CANNY_HIGH_THRESHOLD_RANGE.min}
+            max={CANNY_HIGH_THRESHOLD_RANGE.max}
+            disabled={disabled}
+          />
+        </>
+      ) : (
+        thresholds && (
+          <StatusNote>
+            Last run: low {thresholds.low}, high {thresholds.high}
+          </StatusNote>
+        )
+      )}
+      <LabeledSlider
+        label="Pre-blur"
+        value={settings.blurRadius}
+        onChange={(blurRadius) => onSettingsChange({ blurRadius })}
+        min={0}
+        max={5}
+        unit="px"
+        disabled={disabled}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm">Gradient</Label>
+        <ToggleChip
+          label={settings.l2Gradient ? 'L2' : 'L1'}
+          pressed={settings.l2Gradient}
+          onPressedChange={(l2Gradient) => onSettingsChange({ l2Gradient })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-sm">Post-processing</Label>
+        <div className="flex flex-wrap gap-1.5">
+          <ToggleChip
+            label="Thin"
+            pressed={settings.thinning}
+            onPressedChange={(thinning) => onSettingsChange({ thinning })}
+            disabled={!hasImage}
+          />
+        </div>
+      </div>
+      <LabeledSlider
+        label="Remove edges shorter than"
+        value={settings.minEdgeLength}
+        onChange={(minEdgeLength) => onSettingsChange({ minEdgeLength })}
+        min={0}
+        max={100}
+        step={5}
+        unit="px"
+        disabled={!hasImage}
+      />
+      <LabeledSlider
+        label="Link gaps up to"
+        value={settings.linkDistance}
+        onChange={(linkDistance) => onSettingsChange({ linkDistance })}
+        min={0}
+        max={10}
+        unit="px"
+        disabled={!hasImage}
+      />
+
+      <ColorRow
+        label="Edge colour"
+        value={settings.color}
+        onChange={(color) => onSettingsChange({ color })}
+        disabled={!hasImage}
+      />
+      <LabeledSlider
+        label="Layer opacity"
+        value={Math.round(settings.opacity * 100)}
+        onChange={(value) => onSettingsChange({ opacity: value / 100 })}
+        min={0}
+        max={100}
+        step={10}
+        unit="%"
+        disabled={!hasImage}
+      />
+    </CollapsibleSection>
+  );
+}
@@ -1,28 +1,206 @@
+import { useState } from 'react';
+import { MinusIcon, PlusIcon } from '@phosphor-icons/react';
 import { CollapsibleSection } from '@/components/layout/CollapsibleSection';
 import { LabeledSlider } from '@/components/controls/LabeledSlider';
-import { ContourSettings } from '@/types/ImageTypes';
+import { SelectRow } from '@/components/controls/SelectRow';
+import { StageInputSelect } from '@/components/controls/StageInputSelect';
+import { ColorRow } from '@/components/controls/ColorRow';
+import { ToggleChip } from '@/components/controls/ToggleChip';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  BandPalette,
+  ChannelWeights,
+  ContourColorMode,
+  ContourDashStyle,
+  ContourLabelFormat,
+  ContourRamp,
+  ContourSettings,
+  ContourSource,
+  DEFAULT_CONTOUR_COLOR,
+  DEFAULT_CUSTOM_RAMP_STOPS,
+  DEFAULT_LABEL_SIZE,
+  DEFAULT_LABEL_SPACING,
+  DEFAULT_SOURCE_COLORS,
+  LevelPlacementMode,
+  LuminanceModel,
+  MAX_CONTOUR_LINE_WIDTH,
+  MIN_CONTOUR_LINE_WIDTH,
+} from '@/types/ImageTypes';
+import { PipelineSource } from '@/types/PipelineTypes';
+import { parseManualLevels } from '@/utils/levelPlacement';
+import { DEFAULT_CHANNEL_WEIGHTS } from '@/utils/luminance';
+
+const LUMINANCE_MODEL_LABELS: Record<LuminanceModel, string> = {
+  bt601: 'BT.601',
+  bt709: 'BT.709',
+  linear: 'Linear Y',
+  lstar: 'CIE L*',
+  hsv: 'HSV value',
+  custom: 'Channel mix',
+};
+
+const CHANNELS: { key: keyof ChannelWeights; label: string }[] = [
+  { key: 'r', label: 'Red weight' },
+  { key: 'g', label: 'Green weight' },
+  { key: 'b', label: 'Blue weight' },
+];
+
+const LEVEL_MODE_LABELS: Record<LevelPlacementMode, string> = {
+  uniform: 'Uniform',
+  quantile: 'Equal area',
+  otsu: 'Otsu',
+  kmeans: 'K-means',
+  manual: 'Manual',
+};
+
+const CONTOUR_COLOR_MODE_LABELS: Record<ContourColorMode, string> = {
+  auto: 'Auto gray',
+  single: 'Single colour',
+  ramp: 'Level ramp',
+  source: 'Per source',
+};
+
+const CONTOUR_RAMP_LABELS: Record<ContourRamp, string> = {
+  viridis: 'Viridis',
+  turbo: 'Turbo',
+  terrain: 'Terrain',
+  custom: 'Custom',
+};
+
+const DASH_STYLE_LABELS: Record<ContourDashStyle, string> = {
+  solid: 'Solid',
+  dashed: 'Dashed',
+  dotted: 'Dotted',
+  dashDot: 'Dash-dot',
+};
+
+const LABEL_FORMAT_LABELS: Record<ContourLabelFormat, string> = {
+  value: 'Value (0–255)',
+  lightness: 'L* (0–100)',
+  index: 'Level number',
+};
+
+const SOURCE_LABELS: Record<ContourSource, string> = {
+  contour: 'Original',
+  filteredContour: 'Filtered',
+  denoisedContour: 'Denoised',
+};
+
+const BAND_PALETTE_LABELS: Record<BandPalette, string> = {
+  gray: 'Gray',
+  viridis: 'Viridis',
+  turbo: 'Turbo',
+  terrain: 'Terrain',
+};
+
+const MIN_RAMP_STOPS = 2;
+const MAX_RAMP_STOPS = 8;
 
 interface ContourPanelProps {
   settings: ContourSettings;
   onSettingsChange: (settings: ContourSettings) => void;
   disabled?: boolean;
+  /** Image this stage reads, and the choices that keep the chain free of loops. */
+  input: PipelineSource;
+  inputOptions: readonly PipelineSource[];
+  onInputChange: (source: PipelineSource) => void;
+  /** False when the chosen input has not been produced yet. */
+  inputAvailable: boolean;
 }
 
 /** Contour detection settings. Changes re-analyze the image (debounced by App). */
-export function ContourPanel({ settings, onSettingsChange, disabled }: ContourPanelProps) {
+export function ContourPanel({
+  settings,
+  onSettingsChange,
+  disabled,
+  input,
+  inputOptions,
+  onInputChange,
+  inputAvailable,
+}: ContourPanelProps) {
   const set = (patch: Partial<ContourSettings>) =>
     onSettingsChange({ ...settings, ...patch });
+  const levelMode = settings.levelMode ?? 'uniform';
+  const luminanceModel = settings.luminanceModel ?? 'bt601';
+  const channelWeights = settings.channelWeights ?? DEFAULT_CHANNEL_WEIGHTS;
+  const colorMode = settings.contourColorMode ?? 'auto';
+  const ramp = settings.contourRamp ?? 'viridis';
+  const rampStops = settings.customRampStops ?? DEFAULT_CUSTOM_RAMP_STOPS;
+  const sourceColors = settings.sourceColors ?? DEFAULT_SOURCE_COLORS;
+  // Keep the raw text so separators can be typed; only the parsed list is stored.
+  const [manualText, setManualText] = useState(() => (settings.manualLevels ?? []).join(', '));
+
+  const setRampStop = (index: number, color: string) =>
+    set({ customRampStops: rampStops.map((stop, i) => (i === index ? color : stop)) });
 
   return (
     <CollapsibleSection title="Contour">
-      <LabeledSlider
-        label="Brightness levels"
-        value={settings.levels}
-        onChange={(levels) => set({ levels })}
-        min={1}
-        max={64}
+      <StageInputSelect
+        value={input}
+        options={inputOptions}
+        onChange={onInputChange}
+        available={inputAvailable}
+        hasImage={!disabled}
+        disabled={disabled}
+      />
+      <SelectRow
+        label="Luminance"
+        value={luminanceModel}
+        options={LUMINANCE_MODEL_LABELS}
+        onChange={(luminanceModel) => set({ luminanceModel })}
         disabled={disabled}
       />
+      {luminanceModel === 'custom' &&
+        CHANNELS.map(({ key, label }) => (
+          <LabeledSlider
+            key={key}
+            label={label}
+            value={channelWeights[key]}
+            onChange={(value) => set({ channelWeights: { ...channelWeights, [key]: value } })}
+            min={0}
+            max={100}
+            disabled={disabled}
+          />
+        ))}
+      <SelectRow
+        label="Placement"
+        value={levelMode}
+        options={LEVEL_MODE_LABELS}
+        onChange={(levelMode) => set({ levelMode })}
+        disabled={disabled}
+      />
+      {levelMode === 'manual' ? (
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="contour-manual-levels">
+            Thresholds
+          </Label>
+          <Input
+            id="contour-manual-levels"
+            value={manualText}
+            onChange={(e) => {
+              setManualText(e.target.value);
+              set({ manualLevels: parseManualLevels(e.target.value) });
+            }}
+            placeholder="e.g. 40, 90, 160"
+            disabled={disabled}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-muted-foreground">
+            {(settings.manualLevels ?? []).length} levels, 0–255
+          </p>
+        </div>
+      ) : (
+        <LabeledSlider
+          label="Brightness levels"
+          value={settings.levels}
+          onChange={(levels) => set({ levels })}
+          min={1}
+          max={64}
+          disabled={disabled}
+        />
+      )}
       <LabeledSlider
         label="Opacity"
         value={settings.transparency}
@@ -34,17 +212,154 @@ export function ContourPanel({ settings, onSettingsChange, disabled }: ContourPa
         disabled={disabled}
       />
       <LabeledSlider
-        label="Contrast"
-        value={settings.contourContrast ?? 0}
-        onChange={(contourContrast) => set({ contourContrast })}
+        label="Line width"
+        value={settings.lineWidth ?? 1}
+        onChange={(lineWidth) => set({ lineWidth })}
+        min={MIN_CONTOUR_LINE_WIDTH}
+        max={MAX_CONTOUR_LINE_WIDTH}
+        step={0.5}
+        unit="px"
+        disabled={disabled}
+      />
+      <SelectRow
+        label="Line style"
+        value={settings.dashStyle ?? 'solid'}
+        options={DASH_STYLE_LABELS}
+        onChange={(dashStyle) => set({ dashStyle })}
+        disabled={disabled}
+      />
+      <LabeledSlider
+        label="Index contour every"
+        value={settings.indexInterval ?? 0}
+        onChange={(indexInterval) => set({ indexInterval })}
         min={0}
-        max={100}
-        step={5}
-        unit="%"
+        max={10}
         disabled={disabled}
       />
+      <SelectRow
+        label="Line colour"
+        value={colorMode}
+        options={CONTOUR_COLOR_MODE_LABELS}
+        onChange={(contourColorMode) => set({ contourColorMode })}
+        disabled={disabled}
+      />
+      {colorMode === 'auto' && (
+        <LabeledSlider
+          label="Contrast"
+          value={settings.contourContrast ?? 0}
+          onChange={(contourContrast) => set({ contourContrast })}
+          min={0}
+          max={100}
+          step={5}
+          unit="%"
+          disabled={disabled}
+        />
+      )}
+      {colorMode === 'single' && (
+        <ColorRow
+          label="Colour"
+          value={settings.contourColor ?? DEFAULT_CONTOUR_COLOR}
+          onChange={(contourColor) => set({ contourColor })}
+          disabled={disabled}
+        />
+      )}
+      {colorMode === 'ramp' && (
+        <>
+          <SelectRow
+            label="Ramp"
+            value={ramp}
+            options={CONTOUR_RAMP_LABELS}
+            onChange={(contourRamp) => set({ contourRamp })}
+            disabled={disabled}
+          />
+          {ramp === 'custom' && (
+            <div className="space-y-2">
+              {rampStops.map((stop, i) => (
+                <ColorRow
+                  key={i}
+                  label={i === 0 ? 'Lowest' : i === rampStops.length - 1 ? 'Highest' : `Stop ${i + 1}`}
+                  value={stop}
+                  onChange={(color) => setRampStop(i, color)}
+                  disabled={disabled}
+                />
+              ))}
+              <div className="flex justify-end gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  aria-label="Remove colour stop"
+                  onClick={() => set({ customRampStops: rampStops.slice(0, -1) })}
+                  disabled={disabled || rampStops.length <= MIN_RAMP_STOPS}
+                >
+                  <MinusIcon />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  aria-label="Add colour stop"
+                  onClick={() =>
+                    set({ customRampStops: [...rampStops, rampStops[rampStops.length - 1]!] })
+                  }
+                  disabled={disabled || rampStops.length >= MAX_RAMP_STOPS}
+                >
+                  <PlusIcon />
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+      {colorMode === 'source' &&
+        (Object.keys(SOURCE_LABELS) as ContourSource[]).map((source) => (
+          <ColorRow
+            key={source}
+            label={SOURCE_LABELS[source]}
+            value={sourceColors[source]}
+            onChange={(color) => set({ sourceColors: { ...sourceColors, [source]: color } })}
+            disabled={disabled}
+          />
+        ))}
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm">Labels</Label>
+        <ToggleChip
+          label={settings.showLabels ? 'On' : 'Off'}
+          pressed={settings.showLabels ?? false}
+          onPressedChange={(showLabels) => set({ showLabels })}
+          disabled={disabled}
+        />
+      </div>
+      {settings.showLabels && (
+        <>
+          <SelectRow
+            label="Label text"
+            value={settings.labelFormat ?? 'value'}
+            options={LABEL_FORMAT_LABELS}
+            onChange={(labelFormat) => set({ labelFormat })}
+            disabled={disabled}
+          />
+          <LabeledSlider
+            label="Label spacing"
+            value={settings.labelSpacing ?? DEFAULT_LABEL_SPACING}
+            onChange={(labelSpacing) => set({ labelSpacing })}
+            min={50}
+            max={800}
+            step={10}
+            unit="px"
+            disabled={disabled}
+          />
+          <LabeledSlider
+            label="Label size"
+            value={settings.labelSize ?? DEFAULT_LABEL_SIZE}
+            onChange={(labelSize) => set({ labelSize })}
+            min={8}
+            max={48}
+            unit="px"
+            disabled={disabled}
+          />
+        </>
+      )}
       <LabeledSlider
-        label="Min line distance"
+        label="Simplify"
         value={settings.minContourDistance ?? 0}
         onChange={(minContourDistance) => set({ minContourDistance })}
         min={0}
@@ -52,6 +367,33 @@ export function ContourPanel({ settings, onSettingsChange, disabled }: ContourPa
         unit="px"
         disabled={disabled}
       />
+      <LabeledSlider
+        label="Hide lines shorter than"
+        value={settings.minContourLength ?? 0}
+        onChange={(minContourLength) => set({ minContourLength })}
+        min={0}
+        max={100}
+        step={5}
+        unit="px"
+        disabled={disabled}
+      />
+      <SelectRow
+        label="Band fill"
+        value={settings.bandPalette ?? 'gray'}
+        options={BAND_PALETTE_LABELS}
+        onChange={(bandPalette) => set({ bandPalette })}
+        disabled={disabled}
+      />
+      <LabeledSlider
+        label="Band opacity"
+        value={settings.bandOpacity ?? 100}
+        onChange={(bandOpacity) => set({ bandOpacity })}
+        min={0}
+        max={100}
+        step={5}
+        unit="%"
+        disabled={disabled}
+      />
     </CollapsibleSection>
   );
 }
@@ -1,7 +1,22 @@
 import { CollapsibleSection } from '@/components/layout/CollapsibleSection';
 import { ToggleChip } from '@/components/controls/ToggleChip';
+import { StatusNote } from '@/components/controls/StatusNote';
+import { SelectRow } from '@/components/controls/SelectRow';
+import { MemoryReadout } from '@/components/controls/MemoryReadout';
 import { Label } from '@/components/ui/label';
-import { DisplayLayers, DisplayOptions } from '@/types/UITypes';
+import { BLEND_LAYER_LABELS, BLEND_MODE_LABELS } from '@/lib/blend-labels';
+import {
+  BlendLayer,
+  BlendMode,
+  DisplayLayers,
+  DisplayOptions,
+  MEMORY_LIMIT_OPTIONS_MB,
+  PreviewSettings,
+} from '@/types/UITypes';
+
+const MEMORY_LIMIT_LABELS = Object.fromEntries(
+  MEMORY_LIMIT_OPTIONS_MB.map((mb) => [String(mb), mb >= 1024 ? `${mb / 1024} GB` : `${mb} MB`])
+) as Record<string, string>;
 
 interface LayerGroup {
   title: string;
@@ -23,8 +38,13 @@ const LAYER_GROUPS: LayerGroup[] = [
       { key: 'contour', label: 'Original' },
       { key: 'filteredContour', label: 'Filtered' },
       { key: 'denoisedContour', label: 'Denoised' },
+      { key: 'valueBands', label: 'Bands' },
     ],
   },
+  {
+    title: 'Edges',
+    chips: [{ key: 'canny', label: 'Canny' }],
+  },
   {
     title: 'Frequency',
     chips: [
@@ -32,6 +52,7 @@ const LAYER_GROUPS: LayerGroup[] = [
       { key: 'highFrequencyCombined', label: 'High' },
       { key: 'highFrequencyBright', label: 'Bright' },
       { key: 'highFrequencyDark', label: 'Dark' },
+      { key: 'frequencyRecombined', label: 'Recombined' },
     ],
   },
 ];
@@ -41,8 +62,14 @@ interface DisplayPanelProps {
   onOptionsChange: (options: DisplayOptions) => void;
   /** Contours can only be shown once the brightness analysis has run. */
   hasContour: boolean;
+  /** The edge layer needs a Canny run first. */
+  hasEdges: boolean;
+  /** Detail bands of the multi-band frequency split (0 when it has not run). */
+  bandCount: number;
   downloadPreview: boolean;
   onDownloadPreviewChange: (on: boolean) => void;
+  previewSettings: PreviewSettings;
+  onPreviewSettingsChange: (settings: PreviewSettings) => void;
 }
 
 /** Layer visibility and view-wide switches. */
@@ -50,8 +77,12 @@ export function DisplayPanel({
   options,
   onOptionsChange,
   hasContour,
+  hasEdges,
+  bandCount,
   downloadPreview,
   onDownloadPreviewChange,
+  previewSettings,
+  onPreviewSettingsChange,
 }: DisplayPanelProps) {
   const toggleLayer = (key: keyof DisplayLayers) => {
     onOptionsChange({
@@ -60,7 +91,19 @@ export function DisplayPanel({
     });
   };
 
-  const isContourGroup = (title: string) => title === 'Contours';
+  const toggleBand = (index: number) => {
+    const hiddenBands = options.hiddenBands.includes(index)
+      ? options.hiddenBands.filter((band) => band !== index)
+      : [...options.hiddenBands, index];
+    onOptionsChange({ ...options, hiddenBands });
+  };
+
+  const setBlendMode = (layer: BlendLayer, mode: BlendMode) => {
+    onOptionsChange({ ...options, blendModes: { ...options.blendModes, [layer]: mode } });
+  };
+
+  const isGroupUnavailable = (title: string) =>
+    (title === 'Contours' && !hasContour) || (title === 'Edges' && !hasEdges);
 
   return (
     <>
@@ -75,12 +118,40 @@ export function DisplayPanel({
                   label={label}
                   pressed={options.layers[key]}
                   onPressedChange={() => toggleLayer(key)}
-                  disabled={isContourGroup(group.title) && !hasContour}
+                  disabled={isGroupUnavailable(group.title)}
                 />
               ))}
             </div>
           </div>
         ))}
+        {bandCount > 0 && (
+          <div className="space-y-1.5">
+            <Label className="text-sm">Frequency bands</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {Array.from({ length: bandCount }, (_, index) => (
+                <ToggleChip
+                  key={index}
+                  label={`Band ${index + 1}`}
+                  pressed={!options.hiddenBands.includes(index)}
+                  onPressedChange={() => toggleBand(index)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </CollapsibleSection>
+
+      <CollapsibleSection title="Blend modes" defaultOpen={false}>
+        {(Object.keys(BLEND_LAYER_LABELS) as BlendLayer[]).map((layer) => (
+          <SelectRow
+            key={layer}
+            label={BLEND_LAYER_LABELS[layer]}
+            value={options.blendModes[layer]}
+            options={BLEND_MODE_LABELS}
+            onChange={(mode) => setBlendMode(layer, mode)}
+          />
+        ))}
+        <StatusNote>Computed per pixel with the Photoshop / Krita formulas.</StatusNote>
       </CollapsibleSection>
 
       <CollapsibleSection title="View">
@@ -97,6 +168,29 @@ export function DisplayPanel({
           />
         </div>
       </CollapsibleSection>
+
+      <CollapsibleSection title="Processing">
+        <div className="flex flex-wrap gap-1.5">
+          <ToggleChip
+            label="Fast preview"
+            pressed={previewSettings.proxyPreview}
+            onPressedChange={(proxyPreview) => onPreviewSettingsChange({ ...previewSettings, proxyPreview })}
+          />
+          <ToggleChip
+            label="Auto-apply"
+            pressed={previewSettings.autoApply}
+            onPressedChange={(autoApply) => onPreviewSettingsChange({ ...previewSettings, autoApply })}
+          />
+        </div>
+        <StatusNote>Sliders preview at reduced size while dragged; full resolution on release.</StatusNote>
+        <SelectRow
+          label="Memory limit"
+          value={String(previewSettings.memoryLimitMB)}
+          options={MEMORY_LIMIT_LABELS}
+          onChange={(value) => onPreviewSettingsChange({ ...previewSettings, memoryLimitMB: Number(value) })}
+        />
+        <MemoryReadout />
+      </CollapsibleSection>
     </>
   );
 }
@@ -2,6 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import { DownloadSimple, CircleNotch } from '@phosphor-icons/react';
 import { CollapsibleSection } from '@/components/layout/CollapsibleSection';
 import { LabeledSlider } from '@/components/controls/LabeledSlider';
+import { ToggleChip } from '@/components/controls/ToggleChip';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -15,20 +16,27 @@ import {
 import { SettingsStorage } from '@/hooks/useLocalStorage';
 import { ExportSettings } from '@/hooks/useImageExport';
 
-type ExportFormat = 'png' | 'jpeg' | 'webp';
+type ExportFormat = ExportSettings['format'];
 
-const FORMATS: ExportFormat[] = ['png', 'jpeg', 'webp'];
+const FORMATS: ExportFormat[] = ['png', 'jpeg', 'webp', 'svg'];
+
+/** Formats whose output size depends on the quality setting. */
+const isLossy = (format: ExportFormat) => format === 'jpeg' || format === 'webp';
 
 interface StoredExportSettings {
   format: ExportFormat;
   quality: number;
   customFilename: string;
+  svgIncludeBands: boolean;
+  svgIncludeImage: boolean;
 }
 
 const DEFAULT_EXPORT_SETTINGS: StoredExportSettings = {
   format: 'png',
   quality: 90,
   customFilename: '',
+  svgIncludeBands: false,
+  svgIncludeImage: false,
 };
 
 /** Preview re-encoding is expensive; wait for the settings to settle. */
@@ -59,10 +67,15 @@ export function ExportPanel({
   imageId,
   onPreviewUrlChange,
 }: ExportPanelProps) {
-  const initial = SettingsStorage.getExportSettings(DEFAULT_EXPORT_SETTINGS);
+  const initial = {
+    ...DEFAULT_EXPORT_SETTINGS,
+    ...SettingsStorage.getExportSettings(DEFAULT_EXPORT_SETTINGS),
+  };
   const [format, setFormat] = useState<ExportFormat>(initial.format);
   const [quality, setQuality] = useState(initial.quality);
   const [customFilename, setCustomFilename] = useState(initial.customFilename);
+  const [svgIncludeBands, setSvgIncludeBands] = useState(initial.svgIncludeBands);
+  const [svgIncludeImage, setSvgIncludeImage] = useState(initial.svgIncludeImage);
   const [previewSize, setPreviewSize] = useState<number | null>(null);
   const previewUrlRef = useRef<string | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -70,13 +83,20 @@ export function ExportPanel({
   onPreviewUrlChangeRef.current = onPreviewUrlChange;
 
   const persist = (patch: Partial<StoredExportSettings>) => {
-    SettingsStorage.saveExportSettings({ format, quality, customFilename, ...patch });
+    SettingsStorage.saveExportSettings({
+      format,
+      quality,
+      customFilename,
+      svgIncludeBands,
+      svgIncludeImage,
+      ...patch,
+    });
   };
 
-  // PNG is lossless, so there is nothing to preview or measure for it.
+  // PNG is lossless and SVG is vector, so there is nothing to preview or measure for them.
   // 画像が無いとき（最初の画面）も測らない。
   useEffect(() => {
-    if (format === 'png' || !imageId || !canvasRef?.current) {
+    if (!isLossy(format) || !imageId || !canvasRef?.current) {
       if (previewUrlRef.current) {
         URL.revokeObjectURL(previewUrlRef.current);
         previewUrlRef.current = null;
@@ -132,6 +152,8 @@ export function ExportPanel({
       quality,
       includeOriginalSize: true,
       filename: customFilename.trim() || undefined,
+      svgIncludeBands,
+      svgIncludeImage,
     });
   };
 
@@ -161,7 +183,33 @@ export function ExportPanel({
         </Select>
       </div>
 
-      {format !== 'png' && (
+      {format === 'svg' && (
+        <div className="space-y-1.5">
+          <Label className="text-sm">Include</Label>
+          <div className="flex flex-wrap gap-1.5">
+            <ToggleChip
+              label="Value bands"
+              pressed={svgIncludeBands}
+              onPressedChange={(on) => {
+                setSvgIncludeBands(on);
+                persist({ svgIncludeBands: on });
+              }}
+              disabled={isExporting}
+            />
+            <ToggleChip
+              label="Image underlay"
+              pressed={svgIncludeImage}
+              onPressedChange={(on) => {
+                setSvgIncludeImage(on);
+                persist({ svgIncludeImage: on });
+              }}
+              disabled={isExporting}
+            />
+          </div>
+        </div>
+      )}
+
+      {isLossy(format) && (
         <div className="space-y-1">
           <LabeledSlider
             label="Quality"
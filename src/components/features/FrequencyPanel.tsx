@@ -1,6 +1,10 @@
 import { CollapsibleSection } from '@/components/layout/CollapsibleSection';
 import { LabeledSlider } from '@/components/controls/LabeledSlider';
 import { ApplyButton } from '@/components/controls/ApplyButton';
+import { EngineStatus } from '@/components/controls/EngineStatus';
+import { StageInputSelect } from '@/components/controls/StageInputSelect';
+import { SelectRow } from '@/components/controls/SelectRow';
+import { StatusNote } from '@/components/controls/StatusNote';
 import { Label } from '@/components/ui/label';
 import {
   Select,
@@ -10,14 +14,44 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { FILTER_METHOD_LABELS } from '@/lib/filter-labels';
-import { FrequencySettings, FrequencyFilterMethod } from '@/types/FrequencyTypes';
+import {
+  FrequencySettings,
+  FrequencyFilterMethod,
+  FrequencyMode,
+  FrequencyChannels,
+  MAX_FREQUENCY_BANDS,
+  MIN_FREQUENCY_BANDS,
+} from '@/types/FrequencyTypes';
+import { JobProgress } from '@/types/JobTypes';
+import { PipelineSource } from '@/types/PipelineTypes';
+import { ProcessingEngine } from '@/utils/ImageProcessor';
+
+const MODE_LABELS: Record<FrequencyMode, string> = {
+  split: 'Low / high',
+  pyramid: 'Multi-band',
+};
+
+const CHANNEL_LABELS: Record<FrequencyChannels, string> = {
+  rgb: 'RGB',
+  luminance: 'Luminance (Y)',
+};
 
 interface FrequencyPanelProps {
   settings: FrequencySettings;
   onSettingsChange: (settings: FrequencySettings) => void;
   onApply: () => void;
   processing: boolean;
+  progress: JobProgress | null;
+  onCancel: () => void;
   hasImage: boolean;
+  /** Engine for the non-Gaussian low-pass filters; `null` while loading. */
+  engine: ProcessingEngine | null;
+  /** Image this stage reads, and the choices that keep the chain free of loops. */
+  input: PipelineSource;
+  inputOptions: readonly PipelineSource[];
+  onInputChange: (source: PipelineSource) => void;
+  /** False when the chosen input has not been produced yet. */
+  inputAvailable: boolean;
 }
 
 export function FrequencyPanel({
@@ -25,10 +59,19 @@ export function FrequencyPanel({
   onSettingsChange,
   onApply,
   processing,
+  progress,
+  onCancel,
   hasImage,
+  engine,
+  input,
+  inputOptions,
+  onInputChange,
+  inputAvailable,
 }: FrequencyPanelProps) {
   const disabled = processing || !hasImage;
   const set = (patch: Partial<FrequencySettings>) => onSettingsChange({ ...settings, ...patch });
+  const setBandGain = (index: number, gain: number) =>
+    set({ bandGains: settings.bandGains.map((value, i) => (i === index ? gain : value)) });
 
   return (
     <CollapsibleSection title="Frequency Separation" defaultOpen={false}>
@@ -36,8 +79,37 @@ export function FrequencyPanel({
         label="Apply separation"
         onClick={onApply}
         processing={processing}
-        disabled={!hasImage}
+        progress={progress}
+        onCancel={onCancel}
+        disabled={!hasImage || !inputAvailable}
+      />
+      <EngineStatus engine={engine} />
+      <StageInputSelect
+        value={input}
+        options={inputOptions}
+        onChange={onInputChange}
+        available={inputAvailable}
+        hasImage={hasImage}
+        disabled={disabled}
+      />
+
+      <SelectRow
+        label="Bands"
+        value={settings.mode}
+        options={MODE_LABELS}
+        onChange={(mode) => set({ mode })}
+        disabled={disabled}
+      />
+      <SelectRow
+        label="Channels"
+        value={settings.channels}
+        options={CHANNEL_LABELS}
+        onChange={(channels) => set({ channels })}
+        disabled={disabled}
       />
+      {settings.channels === 'luminance' && (
+        <StatusNote>Color stays in the low band; detail layers are neutral gray.</StatusNote>
+      )}
 
       <div className="flex items-center justify-between gap-2">
         <Label className="text-sm">Low-pass</Label>
@@ -91,24 +163,56 @@ export function FrequencyPanel({
         />
       )}
 
-      <LabeledSlider
-        label="Bright intensity"
-        value={settings.brightIntensity}
-        onChange={(brightIntensity) => set({ brightIntensity })}
-        min={1}
-        max={3}
-        unit="×"
-        disabled={disabled}
-      />
-      <LabeledSlider
-        label="Dark intensity"
-        value={settings.darkIntensity}
-        onChange={(darkIntensity) => set({ darkIntensity })}
-        min={1}
-        max={3}
-        unit="×"
-        disabled={disabled}
-      />
+      {settings.mode === 'pyramid' ? (
+        <>
+          <LabeledSlider
+            label="Band count"
+            value={settings.bandCount}
+            onChange={(bandCount) => set({ bandCount })}
+            min={MIN_FREQUENCY_BANDS}
+            max={MAX_FREQUENCY_BANDS}
+            disabled={disabled}
+          />
+          <StatusNote>
+            Each coarser band is filtered on a half-size copy with the same radius, doubling its reach. The last band
+            is the remaining low pass.
+          </StatusNote>
+          {Array.from({ length: settings.bandCount - 1 }, (_, index) => (
+            <LabeledSlider
+              key={index}
+              label={`Band ${index + 1}`}
+              value={settings.bandGains[index] ?? 1}
+              onChange={(gain) => setBandGain(index, gain)}
+              min={0}
+              max={3}
+              step={0.1}
+              unit="×"
+              disabled={disabled}
+            />
+          ))}
+        </>
+      ) : (
+        <>
+          <LabeledSlider
+            label="Bright intensity"
+            value={settings.brightIntensity}
+            onChange={(brightIntensity) => set({ brightIntensity })}
+            min={1}
+            max={3}
+            unit="×"
+            disabled={disabled}
+          />
+          <LabeledSlider
+            label="Dark intensity"
+            value={settings.darkIntensity}
+            onChange={(darkIntensity) => set({ darkIntensity })}
+            min={1}
+            max={3}
+            unit="×"
+            disabled={disabled}
+          />
+        </>
+      )}
     </CollapsibleSection>
   );
 }
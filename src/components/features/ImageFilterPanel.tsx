@@ -1,7 +1,8 @@
 import { CollapsibleSection } from '@/components/layout/CollapsibleSection';
 import { LabeledSlider } from '@/components/controls/LabeledSlider';
 import { ApplyButton } from '@/components/controls/ApplyButton';
-import { StatusNote } from '@/components/controls/StatusNote';
+import { EngineStatus } from '@/components/controls/EngineStatus';
+import { StageInputSelect } from '@/components/controls/StageInputSelect';
 import { Label } from '@/components/ui/label';
 import {
   Select,
@@ -12,16 +13,26 @@ import {
 } from '@/components/ui/select';
 import { ImageFilterSettings, ImageFilterMethod } from '@/types/ImageFilterTypes';
 import { FILTER_METHOD_LABELS } from '@/lib/filter-labels';
+import { JobProgress } from '@/types/JobTypes';
+import { PipelineSource } from '@/types/PipelineTypes';
+import { ProcessingEngine } from '@/utils/ImageProcessor';
 
 interface ImageFilterPanelProps {
   settings: ImageFilterSettings;
   onSettingsChange: (settings: Partial<ImageFilterSettings>) => void;
   onApply: () => void;
   processing: boolean;
+  progress: JobProgress | null;
+  onCancel: () => void;
   hasImage: boolean;
-  openCVLoaded: boolean;
-  openCVLoading: boolean;
-  openCVError: string | null;
+  /** Image engine the filter runs on; `null` while loading. */
+  engine: ProcessingEngine | null;
+  /** Image this stage reads, and the choices that keep the chain free of loops. */
+  input: PipelineSource;
+  inputOptions: readonly PipelineSource[];
+  onInputChange: (source: PipelineSource) => void;
+  /** False when the chosen input has not been produced yet. */
+  inputAvailable: boolean;
 }
 
 export function ImageFilterPanel({
@@ -29,24 +40,35 @@ export function ImageFilterPanel({
   onSettingsChange,
   onApply,
   processing,
+  progress,
+  onCancel,
   hasImage,
-  openCVLoaded,
-  openCVLoading,
-  openCVError,
+  engine,
+  input,
+  inputOptions,
+  onInputChange,
+  inputAvailable,
 }: ImageFilterPanelProps) {
   const disabled = processing || !hasImage;
 
   return (
     <CollapsibleSection title="Image Filter">
-      {!openCVLoading && openCVError && (
-        <StatusNote error>OpenCV.js failed to load. Reload the page to retry.</StatusNote>
-      )}
-
       <ApplyButton
         label="Apply filter"
         onClick={onApply}
         processing={processing}
-        disabled={!hasImage || !openCVLoaded}
+        progress={progress}
+        onCancel={onCancel}
+        disabled={!hasImage || !engine || !inputAvailable}
+      />
+      <EngineStatus engine={engine} />
+      <StageInputSelect
+        value={input}
+        options={inputOptions}
+        onChange={onInputChange}
+        available={inputAvailable}
+        hasImage={hasImage}
+        disabled={disabled}
       />
 
       <div className="flex items-center justify-between gap-2">
@@ -1,18 +1,29 @@
 import { CollapsibleSection } from '@/components/layout/CollapsibleSection';
 import { LabeledSlider } from '@/components/controls/LabeledSlider';
 import { ApplyButton } from '@/components/controls/ApplyButton';
-import { StatusNote } from '@/components/controls/StatusNote';
+import { EngineStatus } from '@/components/controls/EngineStatus';
+import { StageInputSelect } from '@/components/controls/StageInputSelect';
 import { NoiseReductionSettings } from '@/types/NoiseReductionTypes';
+import { JobProgress } from '@/types/JobTypes';
+import { PipelineSource } from '@/types/PipelineTypes';
+import { ProcessingEngine } from '@/utils/ImageProcessor';
 
 interface NoiseReductionPanelProps {
   settings: NoiseReductionSettings;
   onSettingsChange: (settings: Partial<NoiseReductionSettings>) => void;
   onApply: () => void;
   processing: boolean;
+  progress: JobProgress | null;
+  onCancel: () => void;
   hasImage: boolean;
-  openCVLoaded: boolean;
-  openCVLoading: boolean;
-  openCVError: string | null;
+  /** Image engine the filter runs on; `null` while loading. */
+  engine: ProcessingEngine | null;
+  /** Image this stage reads, and the choices that keep the chain free of loops. */
+  input: PipelineSource;
+  inputOptions: readonly PipelineSource[];
+  onInputChange: (source: PipelineSource) => void;
+  /** False when the chosen input has not been produced yet. */
+  inputAvailable: boolean;
 }
 
 export function NoiseReductionPanel({
@@ -20,24 +31,35 @@ export function NoiseReductionPanel({
   onSettingsChange,
   onApply,
   processing,
+  progress,
+  onCancel,
   hasImage,
-  openCVLoaded,
-  openCVLoading,
-  openCVError,
+  engine,
+  input,
+  inputOptions,
+  onInputChange,
+  inputAvailable,
 }: NoiseReductionPanelProps) {
   const disabled = processing || !hasImage;
 
   return (
     <CollapsibleSection title="Noise Reduction" defaultOpen={false}>
-      {!openCVLoading && openCVError && (
-        <StatusNote error>OpenCV.js failed to load. Reload the page to retry.</StatusNote>
-      )}
-
       <ApplyButton
         label="Apply noise reduction"
         onClick={onApply}
         processing={processing}
-        disabled={!hasImage || !openCVLoaded}
+        progress={progress}
+        onCancel={onCancel}
+        disabled={!hasImage || !engine || !inputAvailable}
+      />
+      <EngineStatus engine={engine} />
+      <StageInputSelect
+        value={input}
+        options={inputOptions}
+        onChange={onInputChange}
+        available={inputAvailable}
+        hasImage={hasImage}
+        disabled={disabled}
       />
 
       <LabeledSlider
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { BrightnessData, ContourSettings } from '../types/ImageTypes';
+import { cancelBrightnessAnalysis, requestBrightnessAnalysis } from '../utils/analysisWorkerClient';
 
 interface UseBrightnessAnalysisReturn {
   brightnessData: BrightnessData | null;
@@ -14,10 +15,6 @@ export const useBrightnessAnalysis = (): UseBrightnessAnalysisReturn => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const calculateBrightness = (r: number, g: number, b: number): number => {
-    return 0.299 * r + 0.587 * g + 0.114 * b;
-  };
-
   const analyzeBrightness = useCallback(async (
     imageData: ImageData,
     settings: ContourSettings
@@ -26,44 +23,22 @@ export const useBrightnessAnalysis = (): UseBrightnessAnalysisReturn => {
     setError(null);
 
     try {
-      // 直接元の画像データを使用（Gaussian Blurはnoise reductionに移行）
-      const { width, height, data } = imageData;
-      const brightnessMap: number[][] = [];
-
-      for (let y = 0; y < height; y++) {
-        brightnessMap[y] = [];
-        for (let x = 0; x < width; x++) {
-          const index = (y * width + x) * 4;
-          const r = data[index] || 0;
-          const g = data[index + 1] || 0;
-          const b = data[index + 2] || 0;
-          
-          brightnessMap[y]![x] = calculateBrightness(r, g, b);
-        }
-      }
-
-      // 輝度レベルを計算
-      const levels = Array.from(
-        { length: settings.levels },
-        (_, i) => (i + 1) * (255 / (settings.levels + 1))
-      );
-
-      setBrightnessData({
-        imageData,
-        brightnessMap,
-        levels,
-        width,
-        height
-      });
+      // 輝度マップ・レベル配置・等値線抽出は Worker で行う。
+      // 新しい依頼に追い越された結果（null）は捨て、最新の結果だけを反映する
+      const result = await requestBrightnessAnalysis('contour', imageData, settings);
+      if (!result) return;
+      setBrightnessData(result);
+      setIsProcessing(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Analysis failed');
       setBrightnessData(null);
-    } finally {
       setIsProcessing(false);
     }
   }, []);
 
   const clearAnalysis = useCallback(() => {
+    // 解析中の結果が後から届いて、消した等高線が戻らないようにする
+    cancelBrightnessAnalysis('contour');
     setBrightnessData(null);
     setError(null);
     setIsProcessing(false);
@@ -76,4 +51,4 @@ export const useBrightnessAnalysis = (): UseBrightnessAnalysisReturn => {
     analyzeBrightness,
     clearAnalysis
   };
-};
\ No newline at end of file
+};
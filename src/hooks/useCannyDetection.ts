@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  CannySettings,
+  CannyResult,
+  DEFAULT_CANNY_SETTINGS,
+  EdgeMask
+} from '../types/CannyTypes';
+import { SettingsStorage } from './useLocalStorage';
+import { useProcessingJob } from './useProcessingJob';
+import { useImageEngine } from './useImageEngine';
+import { detectEdges, postProcessEdgeMask } from '../utils/imageWorkerClient';
+
+export const useCannyDetection = () => {
+  const [settings, setSettings] = useState<CannySettings>(() => ({
+    // 保存済み設定に新しい項目が欠けていてもデフォルトで補う
+    ...DEFAULT_CANNY_SETTINGS,
+    ...SettingsStorage.getCannySettings<Partial<CannySettings>>({}),
+  }));
+  const [result, setResult] = useState<CannyResult>({
+    edges: null,
+    thresholds: null,
+    processing: false,
+    error: null,
+    processingTime: 0
+  });
+  // 検出は画像処理 Worker で行う。OpenCV.js が読み込めなければ純 TypeScript 版のエンジンで処理する
+  const engine = useImageEngine();
+  const { progress, run, cancel: cancelJob } = useProcessingJob();
+  // 後処理は検出とは別のジョブ。設定を変えたら前の後処理だけを打ち切る
+  const { run: runPostProcess, cancel: cancelPostProcess } = useProcessingJob();
+  const [processedEdges, setProcessedEdges] = useState<EdgeMask | null>(null);
+
+  const processImage = useCallback(async (imageData: ImageData | null = null) => {
+    if (!imageData) return;
+
+    if (!engine) {
+      setResult(prev => ({
+        ...prev,
+        error: 'Image engine is still loading',
+        processing: false
+      }));
+      return;
+    }
+
+    // 実行中・待ち行列中の前の検出は run が打ち切る
+    setResult(prev => ({
+      ...prev,
+      processing: true,
+      error: null
+    }));
+
+    try {
+      const startTime = performance.now();
+      const detection = await run((options) => detectEdges(settings, imageData, options));
+      if (!detection) return;
+
+      setResult({
+        edges: detection.edges,
+        thresholds: detection.thresholds,
+        processing: false,
+        error: null,
+        processingTime: performance.now() - startTime
+      });
+    } catch (error) {
+      setResult(prev => ({
+        ...prev,
+        processing: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      }));
+    }
+  }, [settings, engine, run]);
+
+  // 後処理は Canny を再実行せずに設定変更へ追従させる。
+  // 終わるまでは前の後処理の結果を表示し続ける
+  const { thinning, minEdgeLength, linkDistance } = settings;
+  useEffect(() => {
+    const edges = result.edges;
+    if (!edges || (!thinning && minEdgeLength <= 0 && linkDistance <= 0)) {
+      cancelPostProcess();
+      setProcessedEdges(edges);
+      return;
+    }
+    runPostProcess((options) => postProcessEdgeMask(edges, { thinning, minEdgeLength, linkDistance }, options)).then(
+      (processed) => {
+        if (processed) setProcessedEdges(processed);
+      },
+      (error) => {
+        setResult(prev => ({
+          ...prev,
+          error: error instanceof Error ? error.message : 'Edge post-processing failed'
+        }));
+      }
+    );
+  }, [result.edges, thinning, minEdgeLength, linkDistance, runPostProcess, cancelPostProcess]);
+
+  const updateSettings = useCallback((newSettings: Partial<CannySettings>) => {
+    setSettings(prev => {
+      const updated = { ...prev, ...newSettings };
+      SettingsStorage.saveCannySettings(updated);
+      return updated;
+    });
+  }, []);
+
+  const clearResult = useCallback(() => {
+    cancelJob();
+    cancelPostProcess();
+    setResult({
+      edges: null,
+      thresholds: null,
+      processing: false,
+      error: null,
+      processingTime: 0
+    });
+  }, [cancelJob, cancelPostProcess]);
+
+  const cancel = useCallback(() => {
+    cancelJob();
+    setResult(prev => ({ ...prev, processing: false }));
+  }, [cancelJob]);
+
+  return {
+    settings,
+    result,
+    processedEdges,
+    engine,
+    progress,
+    processImage,
+    cancel,
+    updateSettings,
+    clearResult
+  };
+};
@@ -1,7 +1,16 @@
-import { useCallback, useRef } from 'react';
-import { BrightnessData, ContourSettings } from '../types/ImageTypes';
-import { DisplayOptions } from '../types/UITypes';
-import { FrequencyData } from '../types/FrequencyTypes';
+import { useCallback, useEffect, useRef } from 'react';
+import { BrightnessData, ContourLevelPaths, ContourSettings, ContourSource } from '../types/ImageTypes';
+import { BlendMode, DisplayOptions } from '../types/UITypes';
+import { ZoomPanState } from './useZoomPan';
+import { FrequencyData, RgbPlane } from '../types/FrequencyTypes';
+import { EdgeMask } from '../types/CannyTypes';
+import { removeShortContourLines, simplifyContourLines } from '../utils/marchingSquares';
+import { bandColor, contourStrokeForLevel } from '../utils/contourStyle';
+import { ContourLabel, placeContourLabels } from '../utils/contourLabels';
+import { hexToRgb, RGB, rgbToCss } from '../utils/colorRamps';
+import { LuminanceFunction, luminanceFromSettings, luminanceKey } from '../utils/luminance';
+import { MemoryItem, imageDataItems, memoryBudget, rgbaBytes } from '../utils/memoryBudget';
+import { NEUTRAL_GRAY, blendInto } from '../utils/blendModes';
 
 // レイヤー描画に使う補助入力（処理結果画像と各種ブレンド率）
 export interface RenderLayerInputs {
@@ -9,11 +18,22 @@ export interface RenderLayerInputs {
   imageFilterOpacity?: number; // 0-100
   denoisedImageData?: ImageData | null;
   denoiseOpacity?: number; // 0-100
+  // フィルタ後・ノイズ除去後の画像の輝度データ（レベルは元画像に揃えたもの）
+  filteredBrightnessData?: BrightnessData | null;
+  denoisedBrightnessData?: BrightnessData | null;
   frequencyData?: FrequencyData | null;
+  cannyEdges?: EdgeMask | null;
+  cannyColor?: string; // '#rrggbb'
+  cannyOpacity?: number; // 0-100
 }
 
 interface UseCanvasRendererReturn {
-  canvasRef: React.RefObject<HTMLCanvasElement>;
+  canvasRef: React.RefObject<HTMLCanvasElement>; // 画像レイヤーを元画像の大きさで描くキャンバス
+  overlayRef: React.RefObject<HTMLCanvasElement>; // 等高線を表示の解像度で描く、表示領域いっぱいのキャンバス
+  // 等高線より上に重なる画像レイヤー（Canny・周波数）を元画像の大きさで描く、overlay の上のキャンバス
+  upperRef: React.RefObject<HTMLCanvasElement>;
+  // 画面に出ているもの（等高線込み）を元画像の大きさで持つキャンバス。ラスタ書き出しはここから行う
+  outputRef: React.RefObject<HTMLCanvasElement>;
   renderWithLayers: (
     originalImageData: ImageData,
     brightnessData: BrightnessData | null,
@@ -21,44 +41,141 @@ interface UseCanvasRendererReturn {
     contourSettings: ContourSettings,
     inputs?: RenderLayerInputs
   ) => void;
+  // 表示の拡大率・位置が変わったときに等高線だけを描き直す
+  setContourView: (view: ZoomPanState) => void;
   clearCanvas: () => void;
 }
 
-// Linear Light合成用に事前分解した明部・暗部成分
-interface LinearLightParts {
-  bright: HTMLCanvasElement;
-  dark: HTMLCanvasElement;
-}
-
 interface ContourCacheEntry {
   source: object; // BrightnessData または ImageData（参照比較のみ）
   settingsKey: string;
   canvas: HTMLCanvasElement;
 }
 
+// 等高線レイヤーは線の描画内容と、それを元画像の大きさに描いたキャンバス（書き出し用）を持つ
+interface ContourDrawingEntry extends ContourCacheEntry {
+  drawing: ContourDrawing;
+}
+
 // レンダリング中間結果のキャッシュ。
-// 重い処理（等高線検出・グレースケール変換・Linear Light分解）は入力が
+// 重い処理（等高線検出・グレースケール変換・周波数レイヤーの合成・合成モードでの重ね合わせ）は入力が
 // 変わったときだけ再計算し、レイヤー切替や透明度変更では drawImage 合成のみ行う。
+// 画像ごとのキャンバスは使った順に並べ、メモリ上限に達したら古いものから捨てる（次の描画で作り直す）。
+// 直前の描画で使ったキャンバスは捨てない（捨ててもすぐ作り直すことになる）。
 interface RenderCache {
-  source: WeakMap<ImageData, HTMLCanvasElement>;
-  grayscale: WeakMap<ImageData, HTMLCanvasElement>;
-  contour: ContourCacheEntry | null;
-  filteredContour: ContourCacheEntry | null;
-  denoisedContour: ContourCacheEntry | null;
-  linearLightParts: WeakMap<ImageData, LinearLightParts>;
-  grayscaleLinearLightParts: WeakMap<ImageData, LinearLightParts>;
+  original: ImageData | null; // キャッシュを作ったときの元画像。別の画像になったらすべて捨てる
+  source: Map<ImageData, HTMLCanvasElement>;
+  grayscale: Map<ImageData, HTMLCanvasElement>;
+  grayscaleKey: string; // grayscale 系キャッシュを作ったときの輝度モデル
+  contour: ContourDrawingEntry | null;
+  valueBands: ContourCacheEntry | null;
+  filteredContour: ContourDrawingEntry | null;
+  denoisedContour: ContourDrawingEntry | null;
+  canny: ContourCacheEntry | null;
+  frequencyComposite: ContourCacheEntry | null; // 低域 + 表示中の高域
+  frequencyPixels: ImageData | null; // frequencyComposite を合成する作業用の画素。同じ大きさなら使い回す
+  // 合成モードで重ねた後の描画先全体。下に描いたものと重ねたレイヤーが同じなら計算し直さない
+  filteredBlend: ContourCacheEntry | null;
+  denoisedBlend: ContourCacheEntry | null;
+  highFrequencyBlend: ContourCacheEntry | null; // Low Frequency がオフのときの高域
+  used: Set<HTMLCanvasElement>; // 直前の描画で使ったキャンバス
 }
 
-const createRenderCache = (): RenderCache => ({
-  source: new WeakMap(),
-  grayscale: new WeakMap(),
+const CANVAS_ENTRIES = [
+  'frequencyComposite',
+  'filteredBlend',
+  'denoisedBlend',
+  'highFrequencyBlend',
+  'contour',
+  'valueBands',
+  'filteredContour',
+  'denoisedContour',
+  'canny',
+] as const;
+
+const createRenderCache = (original: ImageData | null = null): RenderCache => ({
+  original,
+  source: new Map(),
+  grayscale: new Map(),
+  grayscaleKey: '',
   contour: null,
+  valueBands: null,
   filteredContour: null,
   denoisedContour: null,
-  linearLightParts: new WeakMap(),
-  grayscaleLinearLightParts: new WeakMap(),
+  canny: null,
+  frequencyComposite: null,
+  frequencyPixels: null,
+  filteredBlend: null,
+  denoisedBlend: null,
+  highFrequencyBlend: null,
+  used: new Set(),
+});
+
+type BlendEntry = 'filteredBlend' | 'denoisedBlend' | 'highFrequencyBlend';
+
+const canvasIds = new WeakMap<HTMLCanvasElement, number>();
+let nextCanvasId = 1;
+
+// キャンバスの同一性を表す番号（合成結果のキャッシュのキーに使う）
+const canvasIdentity = (canvas: HTMLCanvasElement): number => {
+  let id = canvasIds.get(canvas);
+  if (id === undefined) {
+    id = nextCanvasId++;
+    canvasIds.set(canvas, id);
+  }
+  return id;
+};
+
+// Map を使った順に並べる: 取り出したものを末尾（最も新しい側）に移す
+const getRecent = <V>(map: Map<ImageData, V>, key: ImageData): V | undefined => {
+  const value = map.get(key);
+  if (value !== undefined) {
+    map.delete(key);
+    map.set(key, value);
+  }
+  return value;
+};
+
+const canvasItem = (canvas: HTMLCanvasElement): MemoryItem => ({
+  key: canvas,
+  bytes: rgbaBytes(canvas.width, canvas.height),
 });
 
+// キャッシュが持っているバッファ。キーの ImageData も手放せなくなるので一緒に数える
+const renderCacheItems = (cache: RenderCache): MemoryItem[] => [
+  ...[cache.source, cache.grayscale].flatMap((map) =>
+    [...map].flatMap(([image, canvas]) => [...imageDataItems(image), canvasItem(canvas)])
+  ),
+  ...CANVAS_ENTRIES.flatMap((name) => {
+    const entry = cache[name];
+    return entry ? [canvasItem(entry.canvas)] : [];
+  }),
+  ...imageDataItems(cache.frequencyPixels),
+];
+
+// 作り直しが安い画像レイヤーのキャンバスから古い順に捨て、最後に周波数の合成・等高線のキャンバスを捨てる
+const evictFromRenderCache = (cache: RenderCache): boolean => {
+  for (const map of [cache.source, cache.grayscale]) {
+    for (const [image, canvas] of map) {
+      if (cache.used.has(canvas)) continue;
+      map.delete(image);
+      return true;
+    }
+  }
+  for (const name of CANVAS_ENTRIES) {
+    const entry = cache[name];
+    if (entry && !cache.used.has(entry.canvas)) {
+      cache[name] = null;
+      return true;
+    }
+  }
+  if (cache.frequencyPixels) {
+    cache.frequencyPixels = null;
+    return true;
+  }
+  return false;
+};
+
 // ImageData を drawImage 可能なキャンバスに変換
 const imageDataToCanvas = (imageData: ImageData): HTMLCanvasElement => {
   const canvas = document.createElement('canvas');
@@ -71,7 +188,7 @@ const imageDataToCanvas = (imageData: ImageData): HTMLCanvasElement => {
   return canvas;
 };
 
-const convertToGrayscale = (imageData: ImageData): ImageData => {
+const convertToGrayscale = (imageData: ImageData, luminance: LuminanceFunction): ImageData => {
   const { width, height, data } = imageData;
   const grayscaleData = new ImageData(width, height);
 
@@ -79,7 +196,7 @@ const convertToGrayscale = (imageData: ImageData): ImageData => {
     const r = data[i]!;
     const g = data[i + 1]!;
     const b = data[i + 2]!;
-    const brightness = 0.299 * r + 0.587 * g + 0.114 * b;
+    const brightness = luminance(r, g, b);
 
     grayscaleData.data[i] = brightness;
     grayscaleData.data[i + 1] = brightness;
@@ -90,210 +207,381 @@ const convertToGrayscale = (imageData: ImageData): ImageData => {
   return grayscaleData;
 };
 
-// filtered画像から輝度データを生成するヘルパー関数
-const createBrightnessDataFromFiltered = (filteredImageData: ImageData): BrightnessData => {
-  const { width, height, data } = filteredImageData;
-  const brightnessMap: number[][] = [];
-
-  for (let y = 0; y < height; y++) {
-    brightnessMap[y] = [];
-    for (let x = 0; x < width; x++) {
-      const pixelIndex = (y * width + x) * 4;
-      const r = data[pixelIndex] ?? 0;
-      const g = data[pixelIndex + 1] ?? 0;
-      const b = data[pixelIndex + 2] ?? 0;
-      const brightness = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-      brightnessMap[y]![x] = brightness;
+// 等値線ポリラインをパスとして積む
+const tracePolylines = (path: CanvasPath, paths: ContourLevelPaths): void => {
+  for (const { points, closed } of paths.polylines) {
+    if (points.length < 4) continue;
+    path.moveTo(points[0]!, points[1]!);
+    for (let i = 2; i < points.length; i += 2) {
+      path.lineTo(points[i]!, points[i + 1]!);
     }
+    if (closed) path.closePath();
   }
+};
+
+// 等高線 1 レイヤー分の描画内容。線はレベルごとの Path2D（解析画像の座標）にしておき、
+// 表示の拡大率・位置が変わったら変換だけを替えて表示の解像度でストロークし直す
+interface ContourDrawing {
+  scale: number; // 解析画像から元画像への拡大率
+  opacity: number;
+  strokes: { path: Path2D; color: string; width: number; dash: number[] }[]; // 幅・破線は元画像の画素単位
+  labels: ContourLabel[];
+  colors: Map<number, string>; // レベル番号 → 線色（ラベルの文字色）
+}
+
+// 解析済みの等値線を短線除去・単純化し、レベルごとの線色・線幅と合わせてまとめる。
+// 縮小プレビュー画像の解析結果は元画像の大きさ（outputWidth）へ拡大して描き、
+// 線幅・破線・ラベル・短線除去の長さは元画像の画素単位のままにする
+const buildContourDrawing = (
+  brightnessData: BrightnessData,
+  settings: ContourSettings,
+  source: ContourSource,
+  outputWidth: number
+): ContourDrawing => {
+  const scale = outputWidth / brightnessData.width;
+  const paths = simplifyContourLines(
+    removeShortContourLines(brightnessData.paths, (settings.minContourLength ?? 0) / scale),
+    (settings.minContourDistance ?? 0) / scale
+  );
+
+  const colors = new Map<number, string>();
+  const strokes = paths.map((levelPaths) => {
+    const stroke = contourStrokeForLevel(
+      levelPaths.level,
+      levelPaths.index,
+      paths.length,
+      settings,
+      source
+    );
+    const color = rgbToCss(stroke.color);
+    colors.set(levelPaths.index, color);
+    const path = new Path2D();
+    tracePolylines(path, levelPaths);
+    return { path, color, width: stroke.width, dash: stroke.dash };
+  });
 
   return {
-    imageData: filteredImageData,
-    brightnessMap,
-    levels: [], // 空の配列を設定（使用されない）
-    width,
-    height
+    scale,
+    opacity: settings.transparency / 100,
+    strokes,
+    labels: settings.showLabels ? placeContourLabels(paths, settings) : [],
+    colors,
   };
 };
 
-const detectContours = (
-  brightnessData: BrightnessData,
-  settings: ContourSettings
-): ImageData => {
-  const { width, height, brightnessMap } = brightnessData;
-  const contourData = new ImageData(width, height);
-  const levelStep = 255 / settings.levels;
-
-  // Base adjustment with brightness threshold and contrast enhancement
-  const brightnessThreshold = settings.brightnessThreshold ?? 65; // Fixed threshold for optimal visibility
-  const contrastSetting = settings.contourContrast ?? 0; // Default 0%
-  const contrastStrength = contrastSetting / 100; // 0.0 to 1.0
-
-  // Apply contour detection with simple adjacent brightness average
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const currentBrightness = brightnessMap[y]![x]!;
-      const currentLevel = Math.floor(currentBrightness / levelStep);
-
-      const neighbors = [
-        brightnessMap[y - 1]![x]!,
-        brightnessMap[y + 1]![x]!,
-        brightnessMap[y]![x - 1]!,
-        brightnessMap[y]![x + 1]!,
-      ];
+// 等高線を ctx にストロークする。view は元画像の座標から描画先の画素への変換
+const strokeContours = (ctx: CanvasRenderingContext2D, drawing: ContourDrawing, view: DOMMatrix): void => {
+  const { scale } = drawing;
+  ctx.save();
+  ctx.setTransform(view.scale(scale));
+  ctx.globalAlpha = drawing.opacity;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+  for (const { path, color, width, dash } of drawing.strokes) {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width / scale;
+    ctx.setLineDash(dash.map((length) => length / scale));
+    ctx.stroke(path);
+  }
+  ctx.restore();
 
-      let isContour = false;
-      let adjacentBrightness = currentBrightness;
+  if (drawing.labels.length > 0) {
+    drawContourLabels(ctx, drawing, view);
+  }
+};
 
-      for (const neighbor of neighbors) {
-        const neighborLevel = Math.floor(neighbor / levelStep);
-        if (Math.abs(currentLevel - neighborLevel) >= 1) {
-          isContour = true;
-          // Use average of current and different neighbor brightness
-          adjacentBrightness = (currentBrightness + neighbor) / 2;
-          break;
-        }
-      }
+// ラベルの下の線を切り抜いてから、線と同じ色で文字を描く（地形図の等高線数値と同じ見た目）。
+// ラベルの位置は解析画像の座標なので scale を掛け、文字の大きさは元画像の画素単位のまま使う
+const drawContourLabels = (ctx: CanvasRenderingContext2D, drawing: ContourDrawing, view: DOMMatrix): void => {
+  const { labels, colors, scale } = drawing;
+  const labelTransform = (x: number, y: number, angle: number): DOMMatrix =>
+    view.multiply(new DOMMatrix([Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), x * scale, y * scale]));
+
+  ctx.save();
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = 'destination-out';
+  for (const { x, y, angle, width, height } of labels) {
+    ctx.setTransform(labelTransform(x, y, angle));
+    ctx.fillRect(-width / 2 - height * 0.25, -height / 2, width + height * 0.5, height);
+  }
 
-      const index = (y * width + x) * 4;
-      if (isContour) {
-        // Adaptive base adjustment based on brightness threshold
-        const baseAdjustment = adjacentBrightness >= brightnessThreshold ? -25 : +75;
-        const baseContourGray = adjacentBrightness + baseAdjustment;
-
-        // Apply contrast enhancement based on adjustment type
-        let contourGray;
-        if (contrastStrength > 0) {
-          if (baseAdjustment < 0) { // -25 case: make darker
-            contourGray = baseContourGray * (1 - contrastStrength);
-          } else { // +75 case: make brighter
-            contourGray = baseContourGray + (255 - baseContourGray) * contrastStrength;
-          }
-        } else {
-          contourGray = baseContourGray;
-        }
+  ctx.globalAlpha = drawing.opacity;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  for (const { index, text, x, y, angle, height } of labels) {
+    ctx.setTransform(labelTransform(x, y, angle));
+    ctx.font = `${height}px sans-serif`;
+    ctx.fillStyle = colors.get(index) ?? '#000';
+    ctx.fillText(text, 0, 0);
+  }
+  ctx.restore();
+};
 
-        contourGray = Math.max(0, Math.min(255, contourGray));
+// 等高線を元画像の大きさのキャンバスに描く（ラスタ書き出し用）
+const renderContourCanvas = (drawing: ContourDrawing, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) strokeContours(ctx, drawing, new DOMMatrix());
+  return canvas;
+};
 
-        contourData.data[index] = contourGray;
-        contourData.data[index + 1] = contourGray;
-        contourData.data[index + 2] = contourGray;
-        contourData.data[index + 3] = Math.floor(255 * (settings.transparency / 100));
-      } else {
-        contourData.data[index] = 0;
-        contourData.data[index + 1] = 0;
-        contourData.data[index + 2] = 0;
-        contourData.data[index + 3] = 0;
-      }
-    }
+// エッジマスクの画素を指定色で塗り、それ以外を透明にしたキャンバスを作る
+const renderEdgeCanvas = (edges: EdgeMask, color: string): HTMLCanvasElement => {
+  const { width, height, data } = edges;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  const [r, g, b] = hexToRgb(color);
+  const imageData = ctx.createImageData(width, height);
+  const out = imageData.data;
+  for (let i = 0; i < data.length; i++) {
+    if (!data[i]) continue;
+    out[i * 4] = r;
+    out[i * 4 + 1] = g;
+    out[i * 4 + 2] = b;
+    out[i * 4 + 3] = 255;
   }
-
-  return contourData;
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
 };
 
-// Optimized lightweight contour thinning
-const thinContourLines = (contourData: ImageData, minDistance: number): ImageData => {
-  const { width, height } = contourData;
-  const thinned = new ImageData(width, height);
+// 値帯（隣り合うレベルの間の領域）を帯ごとの単色で塗ったキャンバスを作る。
+// 画素の帯番号は「その値以下のレベル数」で、等値線の内外判定（value >= level）と一致する
+const renderValueBandCanvas = (
+  brightnessData: BrightnessData,
+  settings: ContourSettings,
+  grayscale: LuminanceFunction | null
+): HTMLCanvasElement => {
+  const { width, height, brightnessMap } = brightnessData;
+  const levels = [...brightnessData.levels].sort((a, b) => a - b);
+  const colors: RGB[] = levels.map((_, i) => bandColor(i, levels, settings));
+  colors.push(bandColor(levels.length, levels, settings));
+  if (grayscale) {
+    for (const color of colors) {
+      const gray = grayscale(color[0], color[1], color[2]);
+      color[0] = color[1] = color[2] = gray;
+    }
+  }
 
-  if (minDistance <= 0) return contourData;
+  const bands = new ImageData(width, height);
+  const alpha = Math.round(255 * ((settings.bandOpacity ?? 100) / 100));
+  for (let i = 0; i < width * height; i++) {
+    const value = brightnessMap[i]!;
+    let lo = 0;
+    let hi = levels.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (levels[mid]! <= value) lo = mid + 1;
+      else hi = mid;
+    }
+    const color = colors[lo]!;
+    bands.data[i * 4] = color[0];
+    bands.data[i * 4 + 1] = color[1];
+    bands.data[i * 4 + 2] = color[2];
+    bands.data[i * 4 + 3] = alpha;
+  }
 
-  // Use larger grid for better performance at cost of some precision
-  const gridSize = Math.max(2, Math.ceil(minDistance * 1.2));
-  const occupied = new Set<string>();
+  return imageDataToCanvas(bands);
+};
 
-  // Single pass with optimized grid-based thinning
-  for (let y = 0; y < height; y += 1) {
-    for (let x = 0; x < width; x += 1) {
-      const index = (y * width + x) * 4;
+// 高域レイヤーのうち使う差（Bright は正の差だけ、Dark は負の差だけ）
+type DetailPart = 'positive' | 'negative' | 'both';
 
-      if (contourData.data[index + 3]! > 0) { // Has contour
-        const gridX = Math.floor(x / gridSize);
-        const gridY = Math.floor(y / gridSize);
-        const gridKey = `${gridX},${gridY}`;
+interface FrequencyBlendLayer {
+  overlay: ImageData; // 128 を中心にした表示用の画像
+  residual: RgbPlane | null; // overlay の元になった、強さを掛ける前の符号付きの差
+  gains: [negative: number, positive: number]; // 差の負・正の部分に掛ける強さ
+  part: DetailPart;
+  mode: BlendMode;
+}
 
-        // Simple grid check (no 9-neighborhood for better performance)
-        if (!occupied.has(gridKey)) {
-          occupied.add(gridKey);
+// 画像の 1 行ぶんのレイヤーの画素を返す。row は書き込みに使ってよい作業用の配列（RGBA で 1 行ぶん）
+type LayerRows = (y: number, row: Float32Array) => ArrayLike<number>;
 
-          thinned.data[index] = contourData.data[index]!;
-          thinned.data[index + 1] = contourData.data[index + 1]!;
-          thinned.data[index + 2] = contourData.data[index + 2]!;
-          thinned.data[index + 3] = contourData.data[index + 3]!;
-        }
+// 画像全体の画素から 1 行ずつ取り出す
+const imageRows = (pixels: Uint8ClampedArray, width: number): LayerRows => (y) =>
+  pixels.subarray(y * width * 4, (y + 1) * width * 4);
+
+// 高域レイヤーとして重ねる画素。符号付きの差があれば NEUTRAL_GRAY + 強さ × 差 / 2 を丸めずに使うので、
+// Linear Light で重ねると 低域 + 強さ × 差 がそのまま計算される
+const frequencyLayerRows = ({ overlay, residual, gains, part }: FrequencyBlendLayer): LayerRows => {
+  const { width, height, data } = overlay;
+  if (!residual || residual.length !== width * height * 3) return imageRows(data, width);
+  const [negative, positive] = gains;
+  return (y, row) => {
+    for (let x = 0, p = y * width * 3, o = y * width * 4; x < width; x++, p += 3, o += 4) {
+      for (let c = 0; c < 3; c++) {
+        const diff = residual[p + c]!;
+        const used = part === 'both' ? diff : part === 'positive' ? Math.max(0, diff) : Math.min(0, diff);
+        row[x * 4 + c] = NEUTRAL_GRAY + (used * (used >= 0 ? positive : negative)) / 2;
       }
+      row[x * 4 + 3] = data[o + 3]!;
     }
-  }
-
-  return thinned;
+    return row;
+  };
 };
 
-// Contour detection with optional thinning
-const detectContoursWithThinning = (
-  brightnessData: BrightnessData,
-  settings: ContourSettings
+// 低域に高域レイヤーを順に合成モードで重ねて out に書く。1 行ずつ浮動小数のまま重ね、最後に 1 回だけ 8bit に丸める。
+// Linear Light で強さ 1 の高域を 1 枚重ねたときは元画像と一致する
+// lowExact があれば 8bit に切り詰める前の低域から始める
+const composeFrequencyLayers = (
+  low: ImageData,
+  lowExact: RgbPlane | null,
+  layers: FrequencyBlendLayer[],
+  out: ImageData
 ): ImageData => {
-  const contourData = detectContours(brightnessData, settings);
-
-  if (settings.minContourDistance && settings.minContourDistance > 0) {
-    return thinContourLines(contourData, settings.minContourDistance);
+  const { width, height, data } = low;
+  const rows = layers.map(frequencyLayerRows);
+  const base = new Float32Array(width * 4);
+  const row = new Float32Array(width * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, p = y * width * 3, o = y * width * 4; x < width; x++, p += 3, o += 4) {
+      for (let c = 0; c < 3; c++) {
+        base[x * 4 + c] = lowExact ? lowExact[p + c]! : data[o + c]!;
+      }
+      base[x * 4 + 3] = data[o + 3]!;
+    }
+    layers.forEach((layer, index) => blendInto(base, rows[index]!(y, row), layer.mode));
+    // Uint8ClampedArray が丸めと 0..255 への切り詰めをする
+    out.data.set(base, y * width * 4);
   }
-
-  return contourData;
+  return out;
 };
 
-// Linear Light合成 base + 2*(overlay - 128) を Canvas合成で実現するため、
-// overlay を加算成分 bright = max(0, 2*(overlay - 128)) と
-// 減算成分 dark = max(0, 2*(128 - overlay)) に分解する（チャンネルごとに排他）。
-// 合成時は base + bright - dark となり、元のピクセルループと同じ結果になる。
-const createLinearLightParts = (overlay: ImageData): LinearLightParts => {
-  const { width, height, data } = overlay;
-  const bright = new ImageData(width, height);
-  const dark = new ImageData(width, height);
-
-  for (let i = 0; i < data.length; i += 4) {
-    for (let c = 0; c < 3; c++) {
-      const value = data[i + c]!;
-      bright.data[i + c] = Math.max(0, 2 * value - 256);
-      dark.data[i + c] = Math.max(0, 256 - 2 * value);
-    }
-    bright.data[i + 3] = 255;
-    dark.data[i + 3] = 255;
+// キャンバスの画素を width x height で読む（縮小プレビューの結果は描画先の大きさに引き伸ばす）
+const readCanvasPixels = (source: HTMLCanvasElement, width: number, height: number): Uint8ClampedArray => {
+  let canvas = source;
+  if (source.width !== width || source.height !== height) {
+    canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(source, 0, 0, width, height);
   }
-
-  return {
-    bright: imageDataToCanvas(bright),
-    dark: imageDataToCanvas(dark),
-  };
+  const ctx = canvas.getContext('2d');
+  return ctx ? ctx.getImageData(0, 0, width, height).data : new Uint8ClampedArray(width * height * 4);
 };
 
-// base + bright - dark を合成モードで計算する。
-// 加算は 'lighter'、減算は「白との difference で反転 → 加算 → 再反転」で実現。
-const applyLinearLight = (
+// 描画先にすでに描かれている画素に layer を 1 行ずつ合成モードで重ねて書き戻す
+const blendOntoCanvas = (
   ctx: CanvasRenderingContext2D,
-  parts: LinearLightParts,
-  width: number,
-  height: number
+  layer: LayerRows,
+  mode: BlendMode,
+  opacity: number
 ): void => {
-  ctx.globalCompositeOperation = 'lighter';
-  ctx.drawImage(parts.bright, 0, 0);
-
-  ctx.globalCompositeOperation = 'difference';
-  ctx.fillStyle = '#ffffff';
-  ctx.fillRect(0, 0, width, height);
-
-  ctx.globalCompositeOperation = 'lighter';
-  ctx.drawImage(parts.dark, 0, 0);
-
-  ctx.globalCompositeOperation = 'difference';
-  ctx.fillRect(0, 0, width, height);
-
-  ctx.globalCompositeOperation = 'source-over';
+  const { width, height } = ctx.canvas;
+  const base = ctx.getImageData(0, 0, width, height);
+  const row = new Float32Array(width * 4);
+  for (let y = 0; y < height; y++) {
+    blendInto(base.data.subarray(y * width * 4, (y + 1) * width * 4), layer(y, row), mode, opacity);
+  }
+  ctx.putImageData(base, 0, 0);
 };
 
+// 表示中の等高線レイヤーと、その座標の元になる元画像の大きさ
+interface ContourOverlay {
+  drawings: ContourDrawing[];
+  imageWidth: number;
+  imageHeight: number;
+}
+
 export const useCanvasRenderer = (): UseCanvasRendererReturn => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const upperRef = useRef<HTMLCanvasElement>(null);
+  const outputRef = useRef<HTMLCanvasElement | null>(null);
+  const scratchRef = useRef<HTMLCanvasElement | null>(null);
   const cacheRef = useRef<RenderCache>(createRenderCache());
+  const contourOverlayRef = useRef<ContourOverlay>({ drawings: [], imageWidth: 0, imageHeight: 0 });
+  const viewRef = useRef<ZoomPanState>({ zoom: 1, panX: 0, panY: 0 });
+
+  // 等高線を表示領域いっぱいのキャンバスに、表示の拡大率と devicePixelRatio に合わせた解像度で描く。
+  // 元画像の大きさのキャンバスを拡大表示すると線が画素の階段になるので、線は毎回ストロークし直す
+  const paintOverlay = useCallback(() => {
+    const overlay = overlayRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!overlay || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(overlay.clientWidth * ratio);
+    const height = Math.round(overlay.clientHeight * ratio);
+    if (overlay.width !== width || overlay.height !== height) {
+      // サイズ設定で canvas は透明にクリアされる
+      overlay.width = width;
+      overlay.height = height;
+    } else {
+      ctx.clearRect(0, 0, width, height);
+    }
+
+    const { drawings, imageWidth, imageHeight } = contourOverlayRef.current;
+    if (drawings.length === 0) return;
+
+    // 画像レイヤーのキャンバスと同じ配置（useZoomPan の screenToImage の逆）:
+    // 画面座標 = 中央 + pan + zoom × (画素 − 画像サイズ/2)
+    const { zoom, panX, panY } = viewRef.current;
+    const view = new DOMMatrix()
+      .scale(ratio)
+      .translate(overlay.clientWidth / 2 + panX, overlay.clientHeight / 2 + panY)
+      .scale(zoom)
+      .translate(-imageWidth / 2, -imageHeight / 2);
+
+    for (const drawing of drawings) {
+      if (drawing.labels.length === 0) {
+        strokeContours(ctx, drawing, view);
+        continue;
+      }
+      // ラベルの切り抜きが他のレイヤーの線まで消さないよう、別のキャンバスに描いてから重ねる
+      if (!scratchRef.current) scratchRef.current = document.createElement('canvas');
+      const scratch = scratchRef.current;
+      scratch.width = width;
+      scratch.height = height;
+      const scratchCtx = scratch.getContext('2d');
+      if (!scratchCtx) continue;
+      strokeContours(scratchCtx, drawing, view);
+      ctx.drawImage(scratch, 0, 0);
+    }
+  }, []);
+
+  const setContourView = useCallback((view: ZoomPanState) => {
+    viewRef.current = view;
+    paintOverlay();
+  }, [paintOverlay]);
+
+  // 表示領域の大きさが変わったら等高線を描き直す
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+    const resizeObserver = new ResizeObserver(() => paintOverlay());
+    resizeObserver.observe(overlay);
+    return () => {
+      resizeObserver.disconnect();
+    };
+  }, [paintOverlay]);
+
+  useEffect(() => {
+    const unregisterCanvas = memoryBudget.register({
+      name: 'Canvas',
+      items: () =>
+        [canvasRef.current, upperRef.current, outputRef.current, overlayRef.current, scratchRef.current].flatMap(
+          (canvas, i, all) => (canvas && all.indexOf(canvas) === i ? [canvasItem(canvas)] : [])
+        ),
+    });
+    const unregisterCache = memoryBudget.register({
+      name: 'Render cache',
+      items: () => renderCacheItems(cacheRef.current),
+      evictOne: () => evictFromRenderCache(cacheRef.current),
+      evictPriority: 1,
+    });
+    return () => {
+      unregisterCanvas();
+      unregisterCache();
+    };
+  }, []);
 
   const clearCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -303,7 +591,10 @@ export const useCanvasRenderer = (): UseCanvasRendererReturn => {
     if (!ctx) return;
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-  }, []);
+    upperRef.current?.getContext('2d')?.clearRect(0, 0, upperRef.current.width, upperRef.current.height);
+    contourOverlayRef.current = { drawings: [], imageWidth: 0, imageHeight: 0 };
+    paintOverlay();
+  }, [paintOverlay]);
 
   const renderWithLayers = useCallback((
     originalImageData: ImageData,
@@ -315,15 +606,23 @@ export const useCanvasRenderer = (): UseCanvasRendererReturn => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    // 描画先。等高線があれば、それより後のレイヤーは upper に描く
+    const canvasCtx = canvas.getContext('2d');
+    if (!canvasCtx) return;
+    let target = canvas;
+    let ctx = canvasCtx;
 
     const {
       filteredImageData = null,
       imageFilterOpacity = 100,
       denoisedImageData = null,
       denoiseOpacity = 100,
+      filteredBrightnessData = null,
+      denoisedBrightnessData = null,
       frequencyData = null,
+      cannyEdges = null,
+      cannyColor = '#00e5ff',
+      cannyOpacity = 100,
     } = inputs;
 
     const imageWidth = originalImageData.width;
@@ -333,64 +632,130 @@ export const useCanvasRenderer = (): UseCanvasRendererReturn => {
     canvas.width = imageWidth;
     canvas.height = imageHeight;
 
+    if (cacheRef.current.original !== originalImageData) {
+      cacheRef.current = createRenderCache(originalImageData);
+    }
     const cache = cacheRef.current;
-    const { layers, grayscaleMode } = displayOptions;
+    cache.used.clear();
+    const { layers, grayscaleMode, hiddenBands, blendModes } = displayOptions;
+
+    // グレースケール表示も等高線解析と同じ輝度モデルで作る。モデルが変わったら作り直す
+    const luminance = luminanceFromSettings(contourSettings);
+    const currentLuminanceKey = luminanceKey(contourSettings);
+    if (cache.grayscaleKey !== currentLuminanceKey) {
+      cache.grayscale = new Map();
+      cache.grayscaleKey = currentLuminanceKey;
+    }
 
     // ソース画像のキャンバス（グレースケール変換込み）をキャッシュから取得
     const getLayerCanvas = (imageData: ImageData): HTMLCanvasElement => {
       const map = grayscaleMode ? cache.grayscale : cache.source;
-      let layerCanvas = map.get(imageData);
+      let layerCanvas = getRecent(map, imageData);
       if (!layerCanvas) {
         layerCanvas = imageDataToCanvas(
-          grayscaleMode ? convertToGrayscale(imageData) : imageData
+          grayscaleMode ? convertToGrayscale(imageData, luminance) : imageData
         );
         map.set(imageData, layerCanvas);
       }
+      cache.used.add(layerCanvas);
       return layerCanvas;
     };
 
-    // 等高線キャンバスをキャッシュから取得（輝度データ・設定が変わったときだけ再計算）
+    // ここまでに描いたキャンバスと不透明度の並び。合成モードで重ねた結果をキャッシュするキーにする
+    const drawn: string[] = [];
+    // upper に写していない、下のキャンバスと等高線（upper に描き始めたときに積む）
+    let underUpper: HTMLCanvasElement[] = [];
+    const draw = (layerCanvas: HTMLCanvasElement, opacity = 1) => {
+      ctx.globalAlpha = opacity;
+      ctx.drawImage(layerCanvas, 0, 0, imageWidth, imageHeight);
+      ctx.globalAlpha = 1;
+      drawn.push(`${canvasIdentity(layerCanvas)}@${opacity}`);
+    };
+
+    // 描画先全体を読み書きする重ね合わせ（blend）の結果をキャッシュする。
+    // 下に描いたもの・source・extraKey が前回と同じなら、保存しておいた結果を描くだけにする
+    // upper に描いているときは、下のキャンバスと等高線（元画像の大きさ）を upper の下に写してから重ねる。
+    // 等高線を画像に描いていたときと同じように、等高線も重ねるレイヤーと合成される
+    const drawBlendStep = (entryName: BlendEntry, source: object, extraKey: unknown, blend: () => void) => {
+      const under = underUpper;
+      underUpper = [];
+      drawn.push(...under.slice(1).map((layer) => `under:${canvasIdentity(layer)}`));
+      const settingsKey = JSON.stringify([drawn, extraKey]);
+      let entry = cache[entryName];
+      if (entry && entry.source === source && entry.settingsKey === settingsKey) {
+        ctx.clearRect(0, 0, imageWidth, imageHeight);
+        ctx.drawImage(entry.canvas, 0, 0);
+      } else {
+        // destination-over なので上のものから順に、すでに描いたものの下へ描く
+        ctx.globalCompositeOperation = 'destination-over';
+        for (const layer of [...under].reverse()) ctx.drawImage(layer, 0, 0);
+        ctx.globalCompositeOperation = 'source-over';
+        blend();
+        const snapshot = document.createElement('canvas');
+        snapshot.width = imageWidth;
+        snapshot.height = imageHeight;
+        snapshot.getContext('2d')?.drawImage(target, 0, 0);
+        entry = { source, settingsKey, canvas: snapshot };
+        cache[entryName] = entry;
+      }
+      cache.used.add(entry.canvas);
+      // 描画先はこの結果そのものになった
+      drawn.length = 0;
+      drawn.push(String(canvasIdentity(entry.canvas)));
+    };
+
+    // 画像レイヤーを合成モードで重ねる。Normal は drawImage（source-over はそのまま正確）、それ以外は画素ごとに計算する
+    const drawBlended = (entryName: BlendEntry, layerCanvas: HTMLCanvasElement, mode: BlendMode, opacity: number) => {
+      if (mode === 'normal') {
+        draw(layerCanvas, opacity);
+      } else {
+        drawBlendStep(entryName, layerCanvas, [mode, opacity], () =>
+          blendOntoCanvas(
+            ctx,
+            imageRows(readCanvasPixels(layerCanvas, imageWidth, imageHeight), imageWidth),
+            mode,
+            opacity
+          )
+        );
+      }
+    };
+
+    // 値帯のキャンバスをキャッシュから取得（輝度データ・設定が変わったときだけ再計算）
     const getContourCanvas = (
-      entryName: 'contour' | 'filteredContour' | 'denoisedContour',
+      entryName: 'valueBands',
       source: object,
-      build: () => ImageData
+      build: () => HTMLCanvasElement,
+      extraKey?: unknown
     ): HTMLCanvasElement => {
-      const settingsKey = JSON.stringify(contourSettings);
+      // レベルは画像のヒストグラムからも決まるので設定と合わせてキーにする
+      const settingsKey = JSON.stringify([contourSettings, brightnessData?.levels, extraKey]);
       let entry = cache[entryName];
       if (!entry || entry.source !== source || entry.settingsKey !== settingsKey) {
-        entry = { source, settingsKey, canvas: imageDataToCanvas(build()) };
+        entry = { source, settingsKey, canvas: build() };
         cache[entryName] = entry;
       }
+      cache.used.add(entry.canvas);
       return entry.canvas;
     };
 
-    const getLinearLightParts = (overlay: ImageData): LinearLightParts => {
-      const map = grayscaleMode ? cache.grayscaleLinearLightParts : cache.linearLightParts;
-      let parts = map.get(overlay);
-      if (!parts) {
-        parts = createLinearLightParts(
-          grayscaleMode ? convertToGrayscale(overlay) : overlay
-        );
-        map.set(overlay, parts);
-      }
-      return parts;
-    };
-
     // 1. Original Layer
     if (layers.original) {
-      ctx.drawImage(getLayerCanvas(originalImageData), 0, 0);
+      draw(getLayerCanvas(originalImageData));
     }
 
     // 2. Filtered Layer
     if (layers.filtered) {
       if (filteredImageData) {
         // Originalと重ねる場合は opacity でブレンド、単独表示なら不透明
-        ctx.globalAlpha = layers.original ? imageFilterOpacity / 100 : 1;
-        ctx.drawImage(getLayerCanvas(filteredImageData), 0, 0);
-        ctx.globalAlpha = 1;
+        drawBlended(
+          'filteredBlend',
+          getLayerCanvas(filteredImageData),
+          blendModes.filtered,
+          layers.original ? imageFilterOpacity / 100 : 1
+        );
       } else if (!layers.original) {
         // フィルター画像がない場合は元画像を表示
-        ctx.drawImage(getLayerCanvas(originalImageData), 0, 0);
+        draw(getLayerCanvas(originalImageData));
       }
     }
 
@@ -398,71 +763,221 @@ export const useCanvasRenderer = (): UseCanvasRendererReturn => {
     if (layers.denoised && denoisedImageData) {
       // 下にベース画像がある場合は opacity でブレンド、単独表示なら不透明
       const hasBaseUnder = layers.original || (layers.filtered && filteredImageData);
-      ctx.globalAlpha = hasBaseUnder ? denoiseOpacity / 100 : 1;
-      ctx.drawImage(getLayerCanvas(denoisedImageData), 0, 0);
-      ctx.globalAlpha = 1;
+      drawBlended(
+        'denoisedBlend',
+        getLayerCanvas(denoisedImageData),
+        blendModes.denoised,
+        hasBaseUnder ? denoiseOpacity / 100 : 1
+      );
     }
 
-    // 3. Contour Layer (Original image contour)
-    if (layers.contour && brightnessData) {
-      const contourCanvas = getContourCanvas('contour', brightnessData, () =>
-        detectContoursWithThinning(brightnessData, contourSettings)
+    // 2.75. Value Bands Layer（レベル間を単色で塗ったポスタリゼーション）
+    if (layers.valueBands && brightnessData) {
+      const bandCanvas = getContourCanvas('valueBands', brightnessData, () =>
+        renderValueBandCanvas(brightnessData, contourSettings, grayscaleMode ? luminance : null),
+        grayscaleMode
       );
-      ctx.drawImage(contourCanvas, 0, 0);
+      draw(bandCanvas);
     }
 
-    // 4. Filtered Contour Layer (Filtered image contour)
-    if (layers.filteredContour && brightnessData && filteredImageData) {
-      const filteredContourCanvas = getContourCanvas('filteredContour', filteredImageData, () =>
-        detectContoursWithThinning(
-          createBrightnessDataFromFiltered(filteredImageData),
-          contourSettings
-        )
-      );
-      ctx.drawImage(filteredContourCanvas, 0, 0);
+    // 3-4.5. 等高線レイヤー（元画像・フィルタ後・ノイズ除去後）。画像レイヤーには描かず、
+    // 表示の解像度で描く overlay に重ねる。ここより後のレイヤーは overlay の上の upper に描くので、
+    // 重なり順は等高線を画像に描いていたときと変わらない
+    const contourLayers: ContourDrawingEntry[] = [];
+    const addContourLayer = (source: ContourSource, data: BrightnessData) => {
+      // レベルは画像のヒストグラムからも決まるので設定と合わせてキーにする
+      const settingsKey = JSON.stringify([contourSettings, brightnessData?.levels]);
+      let entry = cache[source];
+      if (!entry || entry.source !== data || entry.settingsKey !== settingsKey) {
+        const drawing = buildContourDrawing(data, contourSettings, source, imageWidth);
+        entry = { source: data, settingsKey, drawing, canvas: renderContourCanvas(drawing, imageWidth, imageHeight) };
+        cache[source] = entry;
+      }
+      cache.used.add(entry.canvas);
+      contourLayers.push(entry);
+    };
+    if (layers.contour && brightnessData) {
+      addContourLayer('contour', brightnessData);
+    }
+    if (layers.filteredContour && brightnessData && filteredBrightnessData) {
+      addContourLayer('filteredContour', filteredBrightnessData);
+    }
+    if (layers.denoisedContour && brightnessData && denoisedBrightnessData) {
+      addContourLayer('denoisedContour', denoisedBrightnessData);
     }
 
-    // 4.5. Denoised Contour Layer (ノイズ除去後画像の等高線)
-    if (layers.denoisedContour && brightnessData && denoisedImageData) {
-      const denoisedContourCanvas = getContourCanvas('denoisedContour', denoisedImageData, () =>
-        detectContoursWithThinning(
-          createBrightnessDataFromFiltered(denoisedImageData),
-          contourSettings
-        )
-      );
-      ctx.drawImage(denoisedContourCanvas, 0, 0);
+    // 等高線がなければ upper は使わない（大きさ 0 にしてメモリを手放す）
+    const upper = upperRef.current;
+    const upperCtx = contourLayers.length > 0 ? upper?.getContext('2d') : null;
+    if (upper) {
+      // サイズ設定で canvas は透明にクリアされる
+      upper.width = upperCtx ? imageWidth : 0;
+      upper.height = upperCtx ? imageHeight : 0;
+    }
+    if (upper && upperCtx) {
+      target = upper;
+      ctx = upperCtx;
+      underUpper = [canvas, ...contourLayers.map((layer) => layer.canvas)];
     }
 
-    // 5. Frequency Layers
-    if (frequencyData) {
-      // Low Frequency Layer (ベースとして使用)
-      if (layers.lowFrequency && frequencyData.lowFrequency) {
-        ctx.drawImage(getLayerCanvas(frequencyData.lowFrequency), 0, 0);
+    // 4.75. Canny Edge Layer
+    if (layers.canny && cannyEdges) {
+      let entry = cache.canny;
+      if (!entry || entry.source !== cannyEdges || entry.settingsKey !== cannyColor) {
+        entry = { source: cannyEdges, settingsKey: cannyColor, canvas: renderEdgeCanvas(cannyEdges, cannyColor) };
+        cache.canny = entry;
       }
+      cache.used.add(entry.canvas);
+      draw(entry.canvas, cannyOpacity / 100);
+    }
 
-      // High Frequency Layers
-      // Low Frequencyがオンの場合は Linear Light合成、オフの場合は通常合成でディテールのみ表示
-      const highFrequencyLayers: [boolean, ImageData | null][] = [
-        [layers.highFrequencyBright, frequencyData.highFrequencyBright],
-        [layers.highFrequencyDark, frequencyData.highFrequencyDark],
-        [layers.highFrequencyCombined, frequencyData.highFrequencyCombined],
+    // 5. Frequency Layers
+    if (frequencyData) {
+      // High Frequency Layers（表示用の画像と、その元になった強さを掛ける前の差・強さ）
+      const { brightIntensity, darkIntensity, bandGains } = frequencyData.mix;
+      const residual = frequencyData.residuals[0] ?? null;
+      const splitGains: [number, number] = [darkIntensity, brightIntensity];
+      const highFrequencyLayers: [boolean, Omit<FrequencyBlendLayer, 'overlay'> & { overlay: ImageData | null }][] = [
+        [
+          layers.highFrequencyBright,
+          {
+            overlay: frequencyData.highFrequencyBright,
+            residual,
+            gains: splitGains,
+            part: 'positive',
+            mode: blendModes.highFrequencyBright,
+          },
+        ],
+        [
+          layers.highFrequencyDark,
+          {
+            overlay: frequencyData.highFrequencyDark,
+            residual,
+            gains: splitGains,
+            part: 'negative',
+            mode: blendModes.highFrequencyDark,
+          },
+        ],
+        [
+          layers.highFrequencyCombined,
+          {
+            overlay: frequencyData.highFrequencyCombined,
+            residual,
+            gains: splitGains,
+            part: 'both',
+            mode: blendModes.highFrequencyCombined,
+          },
+        ],
       ];
+      frequencyData.bands.forEach((band, index) => {
+        const gain = bandGains[index] ?? 1;
+        highFrequencyLayers.push([
+          !hiddenBands.includes(index),
+          {
+            overlay: band,
+            residual: frequencyData.residuals[index] ?? null,
+            gains: [gain, gain],
+            part: 'both',
+            mode: blendModes.frequencyBands,
+          },
+        ]);
+      });
+      const visibleLayers = highFrequencyLayers.flatMap(([enabled, layer]) =>
+        enabled && layer.overlay ? [{ ...layer, overlay: layer.overlay }] : []
+      );
 
-      for (const [enabled, overlay] of highFrequencyLayers) {
-        if (!enabled || !overlay) continue;
-
-        if (layers.lowFrequency) {
-          applyLinearLight(ctx, getLinearLightParts(overlay), imageWidth, imageHeight);
+      if (layers.lowFrequency && frequencyData.lowFrequency) {
+        // Low Frequencyがオンの場合は低域に高域を重ねた結果をまとめて計算する（低域は不透明なので下のレイヤーに依らない）
+        const lowFrequency = frequencyData.lowFrequency;
+        if (visibleLayers.length === 0) {
+          draw(getLayerCanvas(lowFrequency));
         } else {
-          ctx.drawImage(getLayerCanvas(overlay), 0, 0);
+          const settingsKey = JSON.stringify([
+            visibleLayers.map(({ part, mode }) => [part, mode]),
+            hiddenBands,
+            grayscaleMode && currentLuminanceKey,
+          ]);
+          let entry = cache.frequencyComposite;
+          if (!entry || entry.source !== frequencyData || entry.settingsKey !== settingsKey) {
+            const { width, height } = lowFrequency;
+            if (cache.frequencyPixels?.width !== width || cache.frequencyPixels.height !== height) {
+              cache.frequencyPixels = new ImageData(width, height);
+            }
+            const composite = composeFrequencyLayers(
+              lowFrequency,
+              frequencyData.lowExact,
+              visibleLayers,
+              cache.frequencyPixels
+            );
+            entry = {
+              source: frequencyData,
+              settingsKey,
+              canvas: imageDataToCanvas(grayscaleMode ? convertToGrayscale(composite, luminance) : composite),
+            };
+            cache.frequencyComposite = entry;
+          }
+          cache.used.add(entry.canvas);
+          draw(entry.canvas);
+        }
+      } else {
+        // オフの場合は下に描かれているものに重ねる。何もなければ 128 を中心にしたディテールだけが見える
+        const blendKey = [
+          visibleLayers.map(({ part, mode }) => [part, mode]),
+          hiddenBands,
+          grayscaleMode && currentLuminanceKey,
+        ];
+        if (visibleLayers.length > 0) {
+          drawBlendStep('highFrequencyBlend', frequencyData, blendKey, () => {
+            for (const layer of visibleLayers) {
+              const { overlay, mode } = layer;
+              const exact = !grayscaleMode && overlay.width === imageWidth && overlay.height === imageHeight;
+              const rows = exact
+                ? frequencyLayerRows(layer)
+                : imageRows(readCanvasPixels(getLayerCanvas(overlay), imageWidth, imageHeight), imageWidth);
+              blendOntoCanvas(ctx, rows, mode, 1);
+            }
+          });
         }
       }
+
+      // Recombined Layer（帯域の強さを反映して足し戻した画像。すべて 1 倍なら元画像と一致する）
+      if (layers.frequencyRecombined && frequencyData.reconstruction) {
+        draw(getLayerCanvas(frequencyData.reconstruction));
+      }
     }
-  }, []);
+
+    // 書き出し用に、画面と同じ重なり順（画像レイヤー・等高線・upper）で重ねたものを元画像の大きさで作る
+    let output = canvas;
+    if (contourLayers.length > 0) {
+      output = outputRef.current && outputRef.current !== canvas ? outputRef.current : document.createElement('canvas');
+      output.width = imageWidth;
+      output.height = imageHeight;
+      const outputCtx = output.getContext('2d');
+      outputCtx?.drawImage(canvas, 0, 0);
+      for (const layer of contourLayers) {
+        outputCtx?.drawImage(layer.canvas, 0, 0);
+      }
+      if (target !== canvas) outputCtx?.drawImage(target, 0, 0);
+    }
+    outputRef.current = output;
+
+    contourOverlayRef.current = {
+      drawings: contourLayers.map((layer) => layer.drawing),
+      imageWidth,
+      imageHeight,
+    };
+    paintOverlay();
+
+    memoryBudget.changed();
+  }, [paintOverlay]);
 
   return {
     canvasRef,
+    overlayRef,
+    upperRef,
+    outputRef,
     renderWithLayers,
+    setContourView,
     clearCanvas,
   };
 };
@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { BrightnessData, ContourSettings } from '../types/ImageTypes';
+import { AnalysisChannel, requestBrightnessAnalysis } from '../utils/analysisWorkerClient';
+import { luminanceKey } from '../utils/luminance';
+
+type DerivedChannel = Exclude<AnalysisChannel, 'contour'>;
+
+// 1 チャンネル分: 画像・元画像の解析結果・輝度モデルが変わったら Worker で解析し直す
+const useDerivedChannel = (
+  channel: DerivedChannel,
+  imageData: ImageData | null,
+  brightnessData: BrightnessData | null,
+  settings: ContourSettings
+): BrightnessData | null => {
+  const [result, setResult] = useState<BrightnessData | null>(null);
+  // 線色などの変更では解析し直さないよう、依存には輝度モデルのキーだけを入れ、
+  // 設定そのものは ref から読む
+  const modelKey = luminanceKey(settings);
+  const settingsRef = useRef(settings);
+  useEffect(() => {
+    settingsRef.current = settings;
+  });
+
+  useEffect(() => {
+    if (!imageData || !brightnessData) {
+      setResult(null);
+      return;
+    }
+
+    let cancelled = false;
+    requestBrightnessAnalysis(channel, imageData, settingsRef.current, brightnessData.levels)
+      .then((data) => {
+        if (!cancelled && data) setResult(data);
+      })
+      .catch((error) => {
+        console.warn(`${channel} analysis failed:`, error);
+        if (!cancelled) setResult(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [channel, imageData, brightnessData, modelKey]);
+
+  // 入力が消えた・別の画像になった直後は古い結果を返さない
+  return result && imageData && result.imageData === imageData ? result : null;
+};
+
+/**
+ * フィルタ後・ノイズ除去後の画像の等高線用輝度データ。レベルは元画像の解析結果に揃える。
+ * null を渡したソースは解析しない（レイヤーが非表示のときなど）
+ */
+export const useDerivedBrightness = (
+  sources: { filtered: ImageData | null; denoised: ImageData | null },
+  brightnessData: BrightnessData | null,
+  settings: ContourSettings
+): { filtered: BrightnessData | null; denoised: BrightnessData | null } => ({
+  filtered: useDerivedChannel('filteredContour', sources.filtered, brightnessData, settings),
+  denoised: useDerivedChannel('denoisedContour', sources.denoised, brightnessData, settings),
+});
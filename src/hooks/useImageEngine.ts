@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { ProcessingEngine } from '../utils/ImageProcessor';
+import { loadImageProcessor } from '../utils/imageWorkerClient';
+
+/**
+ * 画像処理エンジンの読み込みを待ち、使っているエンジンを返す（読み込み中は null）。
+ * OpenCV.js が読み込めなくても純 TypeScript 版に切り替わるので、失敗で止まることはない
+ */
+export const useImageEngine = (): ProcessingEngine | null => {
+  const [engine, setEngine] = useState<ProcessingEngine | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageProcessor()
+      .then((loaded) => {
+        if (!cancelled) setEngine(loaded);
+      })
+      .catch((error) => {
+        // 読み込みは常にどちらかのエンジンで解決するので、ここに来るのは想定外のときだけ
+        console.warn('Image engine failed to load:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return engine;
+};
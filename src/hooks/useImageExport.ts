@@ -1,12 +1,24 @@
 import { useCallback } from 'react';
 import { DisplayOptions, DEFAULT_DISPLAY_OPTIONS } from '../types/UITypes';
-import { ContourSettings } from '../types/ImageTypes';
+import { BrightnessData, ContourSettings } from '../types/ImageTypes';
+import { buildContourSvg, SvgContourSource } from '../utils/svgExport';
 
 export interface ExportSettings {
-  format: 'png' | 'jpeg' | 'webp';
+  format: 'png' | 'jpeg' | 'webp' | 'svg';
   quality: number; // JPEG/WebP quality (1-100)
   includeOriginalSize: boolean;
   filename?: string;
+  svgIncludeBands?: boolean; // SVG: 値帯を塗りポリゴンとして含める
+  svgIncludeImage?: boolean; // SVG: 元画像を <image> で下敷きにする
+}
+
+// SVG 書き出しに使う画像・解析結果（ラスタ書き出しは canvas だけで足りる）
+export interface SvgExportSources {
+  originalImageData: ImageData;
+  brightnessData: BrightnessData | null;
+  // フィルタ後・ノイズ除去後の画像の輝度データ（表示に使っているものをそのまま渡す）
+  filteredBrightnessData?: BrightnessData | null;
+  denoisedBrightnessData?: BrightnessData | null;
 }
 
 export interface ExportMetadata {
@@ -19,6 +31,33 @@ export interface ExportMetadata {
   };
 }
 
+// Blob をファイルとしてダウンロードさせる
+const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // メモリクリーンアップ
+  URL.revokeObjectURL(url);
+};
+
+const imageDataToDataUrl = (imageData: ImageData): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas 2D context');
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
 export const useImageExport = () => {
 
   const generateFilename = useCallback((
@@ -58,23 +97,10 @@ export const useImageExport = () => {
             return;
           }
 
-          // ダウンロード用のリンクを作成
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = filename || generateFilename(
+          downloadBlob(blob, filename || generateFilename(
             metadata?.displayOptions || DEFAULT_DISPLAY_OPTIONS,
             format
-          );
-
-          // ダウンロード実行
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-
-          // メモリクリーンアップ
-          URL.revokeObjectURL(url);
-          
+          ));
           resolve();
         }, mimeType, qualityValue);
       } catch (error) {
@@ -96,15 +122,7 @@ export const useImageExport = () => {
       // メタデータファイルも保存したい場合（オプション）
       if (settings.filename && settings.filename.includes('with-metadata')) {
         const metadataBlob = new Blob([metadataJson], { type: 'application/json' });
-        const url = URL.createObjectURL(metadataBlob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = settings.filename.replace(/\.(png|jpeg|jpg)$/, '-metadata.json');
-        
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        downloadBlob(metadataBlob, settings.filename.replace(/\.(png|jpeg|jpg)$/, '-metadata.json'));
       }
     });
   }, [exportCanvasAsImage]);
@@ -123,8 +141,60 @@ export const useImageExport = () => {
     return exportWithMetadata(canvas, settings, metadata);
   }, [exportWithMetadata]);
 
+  // 等高線をベクターのまま SVG で書き出す。表示中の等高線レイヤーを
+  // それぞれ別グループにし、どれも表示していなければ元画像の等高線を使う
+  const exportContourSvg = useCallback(async (
+    sources: SvgExportSources,
+    settings: ExportSettings,
+    metadata: ExportMetadata
+  ): Promise<void> => {
+    const { originalImageData, brightnessData, filteredBrightnessData, denoisedBrightnessData } = sources;
+    if (!brightnessData) {
+      throw new Error('No contour data to export');
+    }
+
+    const layers = (metadata.displayOptions ?? DEFAULT_DISPLAY_OPTIONS).layers;
+    const contourSources: SvgContourSource[] = [];
+    if (layers.contour) {
+      contourSources.push({ id: 'contour', source: 'contour', brightnessData });
+    }
+    if (layers.filteredContour && filteredBrightnessData) {
+      contourSources.push({
+        id: 'filtered-contour',
+        source: 'filteredContour',
+        brightnessData: filteredBrightnessData,
+      });
+    }
+    if (layers.denoisedContour && denoisedBrightnessData) {
+      contourSources.push({
+        id: 'denoised-contour',
+        source: 'denoisedContour',
+        brightnessData: denoisedBrightnessData,
+      });
+    }
+    if (contourSources.length === 0) {
+      contourSources.push({ id: 'contour', source: 'contour', brightnessData });
+    }
+
+    const svg = buildContourSvg({
+      width: originalImageData.width,
+      height: originalImageData.height,
+      settings: metadata.contourSettings,
+      sources: contourSources,
+      bandSource: settings.svgIncludeBands ? brightnessData : null,
+      underlayUrl: settings.svgIncludeImage ? imageDataToDataUrl(originalImageData) : null,
+      metadata: JSON.stringify(metadata, null, 2),
+    });
+
+    downloadBlob(
+      new Blob([svg], { type: 'image/svg+xml' }),
+      settings.filename || generateFilename(metadata.displayOptions || DEFAULT_DISPLAY_OPTIONS, 'svg')
+    );
+  }, [generateFilename]);
+
   return {
     exportCurrentView,
+    exportContourSvg,
     exportCanvasAsImage,
     exportWithMetadata,
     generateFilename,
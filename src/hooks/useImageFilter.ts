@@ -1,31 +1,28 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback } from 'react';
 import {
   ImageFilterSettings,
   ImageFilterResult,
   DEFAULT_IMAGE_FILTER_SETTINGS
 } from '../types/ImageFilterTypes';
 import { SettingsStorage } from './useLocalStorage';
-import { openCVProcessor } from '../utils/OpenCVProcessor';
-import { bilateralFilterMat, guidedFilterMat } from '../utils/edgePreservingFilters';
-
-// OpenCV.js型定義のインポート（グローバル型を使用）
-declare global {
-  interface OpenCVMat {
-    delete(): void;
-    data: Uint8Array;
-    cols: number;
-    rows: number;
-    clone(): OpenCVMat;
-    channels(): number;
-    copyTo(dst: OpenCVMat): void;
-  }
-
-  interface OpenCVPoint {
-    x: number;
-    y: number;
-    delete(): void;
+import { useProcessingJob } from './useProcessingJob';
+import { useImageEngine } from './useImageEngine';
+import { FilterJob } from '../utils/imageJobs';
+import { filterImage } from '../utils/imageWorkerClient';
+
+// 設定から選択中のフィルタのジョブを組み立てる
+const toFilterJob = (settings: ImageFilterSettings): FilterJob => {
+  switch (settings.method) {
+    case 'median':
+      return { kind: 'median', radius: settings.medianParams.radius };
+    case 'gaussian':
+      return { kind: 'gaussian', radius: settings.gaussianParams.radius };
+    case 'bilateral':
+      return { kind: 'bilateral', ...settings.bilateralParams };
+    case 'guided':
+      return { kind: 'guided', ...settings.guidedParams };
   }
-}
+};
 
 export const useImageFilter = () => {
   // Load settings from localStorage on initialization.
@@ -48,92 +45,13 @@ export const useImageFilter = () => {
     error: null,
     processingTime: 0
   });
-  const [openCVLoaded, setOpenCVLoaded] = useState(false);
-  const [openCVLoading, setOpenCVLoading] = useState(true);
-  const [openCVError, setOpenCVError] = useState<string | null>(null);
-
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  // OpenCV.jsの読み込み完了を待つ（useCannyDetectionと同じパターン）
-  useEffect(() => {
-    const checkOpenCVStatus = async () => {
-      setOpenCVLoading(true);
-      setOpenCVError(null);
-      try {
-        await openCVProcessor.ensureLoaded();
-        setOpenCVLoaded(true);
-      } catch (err) {
-        console.warn('OpenCV.js loading failed:', err);
-        setOpenCVLoaded(false);
-        setOpenCVError(err instanceof Error ? err.message : 'OpenCV.js failed to load');
-      } finally {
-        setOpenCVLoading(false);
-      }
-    };
-
-    checkOpenCVStatus();
-  }, []);
-
-  // Convert radius to kernel size (always odd)
-  const radiusToKernelSize = useCallback((radius: number): number => {
-    const kernelSize = Math.ceil(radius * 2) * 2 + 1;
-    return Math.max(3, Math.min(201, kernelSize)); // Clamp to valid range (max 201 for radius 100)
-  }, []);
-
-  const applyMedianFilter = useCallback((src: OpenCVMat, radius: number): OpenCVMat => {
-    const dst = new window.cv.Mat();
-
-    try {
-      if (typeof window.cv.medianBlur !== 'function') {
-        throw new Error('medianBlur function not available');
-      }
-      const kernelSize = radiusToKernelSize(radius);
-      window.cv.medianBlur(src, dst, kernelSize);
-    } catch (error) {
-      dst.delete();
-      throw error;
-    }
+  // OpenCV.js が読み込めなければ純 TypeScript 版のエンジンで処理する
+  const engine = useImageEngine();
 
-    return dst;
-  }, [radiusToKernelSize]);
+  const { progress, run, cancel: cancelJob } = useProcessingJob();
 
-
-  const applyGaussianFilter = useCallback((src: OpenCVMat, radius: number): OpenCVMat => {
-    const dst = new window.cv.Mat();
-
-    try {
-      if (typeof window.cv.GaussianBlur !== 'function') {
-        throw new Error('GaussianBlur function not available');
-      }
-
-      // Convert radius to kernel size and calculate sigma (same as Frequency Separation)
-      const kernelSize = radiusToKernelSize(radius);
-      const sigma = radius / 3; // Same calculation as Frequency Separation
-      const validSigma = Math.max(0.1, Math.min(50.0, sigma));
-
-      console.log(`Gaussian filter params: radius=${radius}, kernel=${kernelSize}, sigma=${validSigma}`);
-
-      // 画像の形式をチェック
-      if (!src || src.cols <= 0 || src.rows <= 0) {
-        throw new Error('Invalid source image dimensions');
-      }
-
-      const ksize = new window.cv.Size(kernelSize, kernelSize);
-      window.cv.GaussianBlur(src, dst, ksize, validSigma, validSigma);
-
-      // 結果の検証
-      if (dst.rows <= 0 || dst.cols <= 0) {
-        throw new Error('Gaussian filter produced invalid output');
-      }
-    } catch (error) {
-      dst.delete();
-      throw error;
-    }
-
-    return dst;
-  }, [radiusToKernelSize]);
-
-  const processImage = useCallback(async (imageData: ImageData | null = null) => {
+  // previewScale を渡すと縮小プレビュー画像として処理する（半径を縮め、結果は縮小画像の大きさ）
+  const processImage = useCallback(async (imageData: ImageData | null = null, previewScale?: number) => {
     if (!imageData) {
       console.log('Image filter processImage called with no image data');
       return;
@@ -145,30 +63,11 @@ export const useImageFilter = () => {
       imageSize: `${imageData.width}x${imageData.height}`
     });
 
-    // OpenCV.jsの読み込み確認
-    if (!openCVLoaded) {
+    // 画像処理エンジンの読み込み確認
+    if (!engine) {
       setResult(prev => ({
         ...prev,
-        error: 'OpenCV.js is not loaded or not ready',
-        processing: false
-      }));
-      return;
-    }
-
-    // 基本的なOpenCV関数の可用性チェック
-    if (typeof window.cv.matFromImageData !== 'function') {
-      setResult(prev => ({
-        ...prev,
-        error: 'OpenCV matFromImageData function not available',
-        processing: false
-      }));
-      return;
-    }
-
-    if (typeof window.cv.imshow !== 'function') {
-      setResult(prev => ({
-        ...prev,
-        error: 'OpenCV imshow function not available',
+        error: 'Image engine is still loading',
         processing: false
       }));
       return;
@@ -194,12 +93,7 @@ export const useImageFilter = () => {
       return;
     }
 
-    // Cancel previous processing
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-    abortControllerRef.current = new AbortController();
-
+    // 実行中・待ち行列中の前のジョブは run が打ち切る（重いジョブが 2 本並ばないように）
     setResult(prev => ({
       ...prev,
       processing: true,
@@ -207,121 +101,28 @@ export const useImageFilter = () => {
     }));
 
     try {
-      // Short delay to ensure UI update
-      await new Promise(resolve => setTimeout(resolve, 50));
-
       const startTime = performance.now();
+      const filteredImageData = await run((options) =>
+        filterImage(toFilterJob(settings), imageData, { ...options, previewScale })
+      );
+      // キャンセル・打ち切り時の状態は cancel / 次の processImage 側で更新済み
+      if (!filteredImageData) return;
+      const processingTime = performance.now() - startTime;
 
-      // Create OpenCV Mat from ImageData
-      let src: OpenCVMat | null = null;
-      let processed: OpenCVMat | null = null;
-
-      try {
-        if (typeof window.cv.matFromImageData !== 'function') {
-          throw new Error('matFromImageData function not available');
-        }
-        
-        src = window.cv.matFromImageData(imageData);
-        
-        // Apply selected noise reduction method
-        switch (settings.method) {
-          case 'median':
-            try {
-              processed = applyMedianFilter(src, settings.medianParams.radius);
-            } catch (error) {
-              throw new Error(`Median filter failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-            break;
-          case 'gaussian':
-            try {
-              processed = applyGaussianFilter(
-                src,
-                settings.gaussianParams.radius
-              );
-            } catch (error) {
-              throw new Error(`Gaussian filter failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-            break;
-          case 'bilateral':
-            try {
-              processed = bilateralFilterMat(
-                window.cv,
-                src,
-                settings.bilateralParams.radius,
-                settings.bilateralParams.sigmaColor,
-                settings.bilateralParams.sigmaSpace
-              );
-            } catch (error) {
-              throw new Error(`Bilateral filter failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-            break;
-          case 'guided':
-            try {
-              processed = guidedFilterMat(
-                window.cv,
-                src,
-                settings.guidedParams.radius,
-                settings.guidedParams.strength
-              );
-            } catch (error) {
-              throw new Error(`Guided filter failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-            break;
-          default:
-            if (typeof src.clone === 'function') {
-              processed = src.clone();
-            } else {
-              throw new Error('Unable to clone source matrix');
-            }
-        }
-
-        // Convert back to ImageData
-        const canvas = document.createElement('canvas');
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        
-        if (typeof window.cv.imshow !== 'function') {
-          throw new Error('imshow function not available');
-        }
-        
-        window.cv.imshow(canvas, processed);
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          throw new Error('Unable to get canvas 2D context');
-        }
-        
-        const resultImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-        const processingTime = performance.now() - startTime;
-
-        if (!abortControllerRef.current?.signal.aborted) {
-          setResult({
-            filteredImageData: resultImageData,
-            processing: false,
-            error: null,
-            processingTime
-          });
-        }
-      } finally {
-        // メモリクリーンアップ - エラーが発生してもMatオブジェクトを削除
-        if (src && typeof src.delete === 'function') {
-          src.delete();
-        }
-        if (processed && typeof processed.delete === 'function') {
-          processed.delete();
-        }
-      }
+      setResult({
+        filteredImageData,
+        processing: false,
+        error: null,
+        processingTime
+      });
     } catch (error) {
-      if (!abortControllerRef.current?.signal.aborted) {
-        setResult(prev => ({
-          ...prev,
-          processing: false,
-          error: error instanceof Error ? error.message : 'Unknown error occurred'
-        }));
-      }
+      setResult(prev => ({
+        ...prev,
+        processing: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      }));
     }
-  }, [settings, applyMedianFilter, applyGaussianFilter, openCVLoaded]);
+  }, [settings, engine, run]);
 
   const updateSettings = useCallback((newSettings: Partial<ImageFilterSettings>) => {
     const updatedSettings = { ...settings, ...newSettings };
@@ -336,30 +137,27 @@ export const useImageFilter = () => {
   }, []);
 
   const clearResult = useCallback(() => {
+    cancelJob();
     setResult({
       filteredImageData: null,
       processing: false,
       error: null,
       processingTime: 0
     });
-  }, []);
+  }, [cancelJob]);
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-    };
-  }, []);
+  const cancel = useCallback(() => {
+    cancelJob();
+    setResult(prev => ({ ...prev, processing: false }));
+  }, [cancelJob]);
 
   return {
     settings,
     result,
-    openCVLoaded,
-    openCVLoading,
-    openCVError,
+    engine,
+    progress,
     processImage,
+    cancel,
     updateSettings,
     resetSettings,
     clearResult
@@ -0,0 +1,94 @@
+import { useEffect, useRef } from 'react';
+import { ProxyImage } from '../utils/proxyImage';
+
+// ドラッグ以外の変更（キー操作・選択の切り替え）は、この時間だけ落ち着いてからフル解像度で処理する
+export const SETTLE_DELAY_MS = 150;
+
+interface LiveProcessingOptions {
+  // 処理結果を左右する設定をまとめたキー。変わったら処理し直す
+  key: string;
+  // false の間は設定が変わっても処理しない（自動適用がオフ、処理自体が無効など）
+  enabled: boolean;
+  // 入力画像が変わったら（画像の読み込み・上流の段の結果）処理し直すか。入力が消えたら clear を呼ぶ
+  followInput: boolean;
+  image: ImageData | null;
+  // image 自体が上流の縮小プレビュー結果のときの縮小率
+  previewScale?: number;
+  // 縮小プレビュー画像。null ならドラッグ中もフル解像度で処理する
+  proxy: ProxyImage | null;
+  dragging: boolean;
+  run: (imageData: ImageData, previewScale?: number) => void;
+  clear?: () => void;
+  delay?: number;
+}
+
+/** 設定をキーにする。表示にしか効かない項目（ブレンド率など）は除いて、変えても処理し直さない */
+export const processingKey = <T extends object>(settings: T, ...displayOnly: (keyof T)[]): string =>
+  JSON.stringify(settings, (key, value) => (displayOnly.includes(key as keyof T) ? undefined : value));
+
+/**
+ * 設定や入力画像の変更に合わせて処理を走らせ直す。
+ * スライダーのドラッグ中は縮小画像で即座に処理し、離したらフル解像度で処理し直す
+ */
+export const useLiveProcessing = ({
+  key,
+  enabled,
+  followInput,
+  image,
+  previewScale,
+  proxy,
+  dragging,
+  run,
+  clear,
+  delay = SETTLE_DELAY_MS,
+}: LiveProcessingOptions): void => {
+  // キー・入力画像の変化だけを契機にするため、それ以外の入力は ref から読む
+  const latestRef = useRef({ enabled, followInput, image, previewScale, proxy, dragging, run, clear });
+  useEffect(() => {
+    latestRef.current = { enabled, followInput, image, previewScale, proxy, dragging, run, clear };
+  });
+
+  const lastKeyRef = useRef(key);
+  const lastImageRef = useRef(image);
+  // ドラッグ中に縮小画像で処理した元画像。離したときに同じ画像ならフル解像度で処理し直す
+  const pendingRef = useRef<ImageData | null>(null);
+
+  useEffect(() => {
+    if (lastKeyRef.current === key) return;
+    lastKeyRef.current = key;
+
+    const current = latestRef.current;
+    if (!current.enabled || !current.image) return;
+    if (current.dragging && current.proxy) {
+      pendingRef.current = current.image;
+      current.run(current.proxy.imageData, current.proxy.scale);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const { enabled, image, previewScale, run } = latestRef.current;
+      pendingRef.current = null;
+      if (enabled && image) run(image, previewScale);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [key, delay]);
+
+  // 入力画像の差し替えは 1 回きりの出来事なので、待たずにその画像の大きさのまま処理する
+  useEffect(() => {
+    if (lastImageRef.current === image) return;
+    lastImageRef.current = image;
+
+    const { followInput, previewScale, run, clear } = latestRef.current;
+    if (!followInput) return;
+    if (image) run(image, previewScale);
+    else clear?.();
+  }, [image]);
+
+  useEffect(() => {
+    if (dragging) return;
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    const { enabled, image, previewScale, run } = latestRef.current;
+    if (pending && enabled && pending === image) run(image, previewScale);
+  }, [dragging]);
+};
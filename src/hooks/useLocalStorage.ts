@@ -8,7 +8,10 @@ export class SettingsStorage {
     IMAGE_FILTER_SETTINGS: 'brightness-contour-image-filter-settings',
     NOISE_REDUCTION_SETTINGS: 'brightness-contour-noise-reduction-settings',
     FREQUENCY_SETTINGS: 'brightness-contour-frequency-settings',
+    CANNY_SETTINGS: 'brightness-contour-canny-settings',
     EXPORT_SETTINGS: 'brightness-contour-export-settings',
+    PREVIEW_SETTINGS: 'brightness-contour-preview-settings',
+    PIPELINE_SETTINGS: 'brightness-contour-pipeline-settings',
   } as const;
 
   static getContourSettings<T>(defaultValue: T): T {
@@ -28,6 +31,49 @@ export class SettingsStorage {
         if (typeof parsed.contourContrast === 'undefined') {
           parsed.contourContrast = 0;
         }
+        // Ensure luminance model exists (migration for existing users)
+        if (typeof parsed.luminanceModel === 'undefined') {
+          parsed.luminanceModel = 'bt601';
+        }
+        // Ensure level placement exists (migration for existing users)
+        if (typeof parsed.levelMode === 'undefined') {
+          parsed.levelMode = 'uniform';
+        }
+        if (!Array.isArray(parsed.manualLevels)) {
+          parsed.manualLevels = [];
+        }
+        // Ensure contour colour mode exists (migration for existing users)
+        if (typeof parsed.contourColorMode === 'undefined') {
+          parsed.contourColorMode = 'auto';
+        }
+        // Ensure line style settings exist
+        if (typeof parsed.lineWidth === 'undefined') {
+          parsed.lineWidth = 1;
+        }
+        if (typeof parsed.dashStyle === 'undefined') {
+          parsed.dashStyle = 'solid';
+        }
+        if (typeof parsed.indexInterval === 'undefined') {
+          parsed.indexInterval = 0;
+        }
+        // Ensure minContourLength exists
+        if (typeof parsed.minContourLength === 'undefined') {
+          parsed.minContourLength = 0;
+        }
+        // Ensure label settings exist
+        if (typeof parsed.showLabels === 'undefined') {
+          parsed.showLabels = false;
+        }
+        if (typeof parsed.labelFormat === 'undefined') {
+          parsed.labelFormat = 'value';
+        }
+        // Ensure value band settings exist (migration for existing users)
+        if (typeof parsed.bandPalette === 'undefined') {
+          parsed.bandPalette = 'gray';
+        }
+        if (typeof parsed.bandOpacity === 'undefined') {
+          parsed.bandOpacity = 100;
+        }
         return parsed;
       }
       return defaultValue;
@@ -113,6 +159,23 @@ export class SettingsStorage {
     }
   }
 
+  static getCannySettings<T>(defaultValue: T): T {
+    try {
+      const stored = localStorage.getItem(this.KEYS.CANNY_SETTINGS);
+      return stored ? JSON.parse(stored) : defaultValue;
+    } catch {
+      return defaultValue;
+    }
+  }
+
+  static saveCannySettings<T>(settings: T): void {
+    try {
+      localStorage.setItem(this.KEYS.CANNY_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Failed to save Canny settings:', error);
+    }
+  }
+
   static getExportSettings<T>(defaultValue: T): T {
     try {
       const stored = localStorage.getItem(this.KEYS.EXPORT_SETTINGS);
@@ -130,6 +193,40 @@ export class SettingsStorage {
     }
   }
 
+  static getPreviewSettings<T>(defaultValue: T): T {
+    try {
+      const stored = localStorage.getItem(this.KEYS.PREVIEW_SETTINGS);
+      return stored ? JSON.parse(stored) : defaultValue;
+    } catch {
+      return defaultValue;
+    }
+  }
+
+  static savePreviewSettings<T>(settings: T): void {
+    try {
+      localStorage.setItem(this.KEYS.PREVIEW_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Failed to save preview settings:', error);
+    }
+  }
+
+  static getPipelineSettings<T>(defaultValue: T): T {
+    try {
+      const stored = localStorage.getItem(this.KEYS.PIPELINE_SETTINGS);
+      return stored ? JSON.parse(stored) : defaultValue;
+    } catch {
+      return defaultValue;
+    }
+  }
+
+  static savePipelineSettings<T>(settings: T): void {
+    try {
+      localStorage.setItem(this.KEYS.PIPELINE_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Failed to save pipeline settings:', error);
+    }
+  }
+
   static clearAllSettings(): void {
     try {
       Object.values(this.KEYS).forEach(key => {
@@ -0,0 +1,21 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { MemoryItem, MemoryUsage, memoryBudget } from '../utils/memoryBudget';
+
+/**
+ * React の状態として持っているバッファ（読み込んだ画像・現在の処理結果）をメモリ使用量に数える。
+ * これらは表示中なので捨てられない。items が変わったら集計し直す
+ */
+export const useMemoryPool = (name: string, items: MemoryItem[]): void => {
+  const itemsRef = useRef(items);
+
+  useEffect(() => memoryBudget.register({ name, items: () => itemsRef.current }), [name]);
+
+  useEffect(() => {
+    itemsRef.current = items;
+    memoryBudget.changed();
+  }, [items]);
+};
+
+/** 現在のメモリ使用量と上限。変わったときだけ再描画する */
+export const useMemoryUsage = (): MemoryUsage =>
+  useSyncExternalStore(memoryBudget.subscribe, memoryBudget.getUsage);
@@ -0,0 +1,53 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { JobOptions, JobProgress } from '../types/JobTypes';
+
+/**
+ * 重い処理ジョブ 1 本分の実行状態（進捗・キャンセル）を管理する。
+ * 新しく run すると前のジョブは abort され、画像処理クライアントが待ち行列から外すか、タイル・段の合間で止める。
+ * フィルタ・ノイズ除去・周波数分離の各フックで共有する。
+ */
+export const useProcessingJob = () => {
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // 打ち切られた・キャンセルされたジョブは null で解決する。それ以外のエラーはそのまま投げる
+  const run = useCallback(async <T>(task: (options: JobOptions) => Promise<T>): Promise<T | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress(null);
+
+    try {
+      const value = await task({
+        signal: controller.signal,
+        onProgress: (next) => {
+          if (!controller.signal.aborted) setProgress(next);
+        },
+      });
+      return controller.signal.aborted ? null : value;
+    } catch (error) {
+      if (controller.signal.aborted) return null;
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  return { progress, run, cancel };
+};
@@ -0,0 +1,28 @@
+import { createContext, useCallback, useContext, useState } from 'react';
+
+// スライダーのつまみを掴んだときに呼ぶ関数。離すまでの間「ドラッグ中」になる
+export const SliderDragContext = createContext<(() => void) | null>(null);
+
+/**
+ * いずれかのスライダーをドラッグ中かどうか。beginDrag を SliderDragContext で配ると、
+ * LabeledSlider がつまみを掴んだときに呼び、ポインタを離す（またはキャンセルされる）と元に戻る。
+ * Radix の onValueCommit は値が変わらなかったときに呼ばれないので、ポインタのイベントで判定する
+ */
+export const useSliderDragState = () => {
+  const [dragging, setDragging] = useState(false);
+
+  const beginDrag = useCallback(() => {
+    setDragging(true);
+    const endDrag = () => {
+      setDragging(false);
+      window.removeEventListener('pointerup', endDrag);
+      window.removeEventListener('pointercancel', endDrag);
+    };
+    window.addEventListener('pointerup', endDrag);
+    window.addEventListener('pointercancel', endDrag);
+  }, []);
+
+  return { dragging, beginDrag };
+};
+
+export const useSliderDrag = () => useContext(SliderDragContext);
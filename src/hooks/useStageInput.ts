@@ -0,0 +1,9 @@
+import { useMemo } from 'react';
+import { StageInput, createStageInput } from '../utils/pipeline';
+
+/**
+ * 段の入力。縮小プレビュー画像は描画のたびではなく入力画像が変わったときだけ求め、
+ * ドラッグ中に処理し直す段（previews が true）の分だけ作る
+ */
+export const useStageInput = (image: ImageData | null, originalWidth: number, previews: boolean): StageInput =>
+  useMemo(() => createStageInput(image, originalWidth, previews), [image, originalWidth, previews]);
@@ -22,6 +22,13 @@ export interface UseZoomPanReturn {
   handleTouchMove: (e: TouchEvent, containerRect: DOMRect) => void;
   handleTouchEnd: (e: TouchEvent) => void;
   getTransform: () => string;
+  screenToImage: (clientX: number, clientY: number, containerRect: DOMRect) => ImagePoint | null;
+}
+
+/** Integer pixel coordinates in the source image. */
+export interface ImagePoint {
+  x: number;
+  y: number;
 }
 
 const ZOOM_MIN = 0.1;
@@ -254,6 +261,23 @@ export const useZoomPan = (
     return `translate(${panX}px, ${panY}px) scale(${zoom})`;
   }, [zoomPanState]);
 
+  // getTransform の逆変換。キャンバスはコンテナ中央に置かれ、中心を原点に
+  // translate(pan) scale(zoom) されるので、画面座標 = 中央 + pan + zoom × (画素 − 画像サイズ/2)
+  const screenToImage = useCallback((
+    clientX: number,
+    clientY: number,
+    containerRect: DOMRect
+  ): ImagePoint | null => {
+    if (!imageWidth || !imageHeight) return null;
+    const { zoom, panX, panY } = zoomPanState;
+    const localX = clientX - containerRect.left - containerRect.width / 2 - panX;
+    const localY = clientY - containerRect.top - containerRect.height / 2 - panY;
+    const x = Math.floor(localX / zoom + imageWidth / 2);
+    const y = Math.floor(localY / zoom + imageHeight / 2);
+    if (x < 0 || y < 0 || x >= imageWidth || y >= imageHeight) return null;
+    return { x, y };
+  }, [zoomPanState, imageWidth, imageHeight]);
+
   return {
     zoomPanState,
     zoomIn,
@@ -270,5 +294,6 @@ export const useZoomPan = (
     handleTouchMove,
     handleTouchEnd,
     getTransform,
+    screenToImage,
   };
 };
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { BlendLayer, BlendMode } from '@/types/UITypes';
+
+export const BLEND_MODE_LABELS: Record<BlendMode, string> = {
+  normal: 'Normal',
+  multiply: 'Multiply',
+  screen: 'Screen',
+  overlay: 'Overlay',
+  softLight: 'Soft light',
+  linearLight: 'Linear light',
+  grainExtract: 'Grain extract',
+  grainMerge: 'Grain merge',
+  difference: 'Difference',
+  luminosity: 'Luminosity',
+};
+
+/** Layers with a blend mode selector, in the order the renderer stacks them. */
+export const BLEND_LAYER_LABELS: Record<BlendLayer, string> = {
+  filtered: 'Filtered',
+  denoised: 'Denoised',
+  highFrequencyCombined: 'High',
+  highFrequencyBright: 'Bright',
+  highFrequencyDark: 'Dark',
+  frequencyBands: 'Bands',
+};
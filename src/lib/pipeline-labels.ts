@@ -0,0 +1,17 @@
+import { PipelineSource } from '@/types/PipelineTypes';
+
+/** Stage inputs, shared by every panel that picks one. */
+export const PIPELINE_SOURCE_LABELS: Record<PipelineSource, string> = {
+  original: 'Original',
+  denoised: 'Denoised',
+  filtered: 'Filtered',
+  lowFrequency: 'Low frequency',
+};
+
+/** The step that produces each input, named in the "apply … first" hint. */
+export const PIPELINE_SOURCE_STEPS: Record<PipelineSource, string> = {
+  original: 'image upload',
+  denoised: 'noise reduction',
+  filtered: 'image filter',
+  lowFrequency: 'frequency separation',
+};
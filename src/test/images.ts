@@ -0,0 +1,19 @@
+// テスト用の画像
+import { PixelImage } from '../utils/tiling';
+
+/** なめらかな模様にノイズを足した、色のある不透明な画像（毎回同じ画素になる） */
+export const testImage = (width: number, height: number): PixelImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 7;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        data[o + c] = 128 + 90 * Math.sin(x / (5 + c) + y / 7) + ((seed >> 24) - 64);
+      }
+      data[o + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
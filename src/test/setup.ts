@@ -0,0 +1,24 @@
+// Node には ImageData がないので、画素配列と大きさだけを持つものを用意する。
+// テスト対象は data / width / height しか読まない（canvas には描かない）
+class PixelImageData {
+  readonly data: Uint8ClampedArray;
+  readonly width: number;
+  readonly height: number;
+  readonly colorSpace = 'srgb';
+
+  constructor(dataOrWidth: Uint8ClampedArray | number, width: number, height?: number) {
+    if (typeof dataOrWidth === 'number') {
+      this.data = new Uint8ClampedArray(dataOrWidth * width * 4);
+      this.width = dataOrWidth;
+      this.height = width;
+    } else {
+      this.data = dataOrWidth;
+      this.width = width;
+      this.height = height ?? dataOrWidth.length / 4 / width;
+    }
+  }
+}
+
+if (typeof globalThis.ImageData === 'undefined') {
+  globalThis.ImageData = PixelImageData as unknown as typeof ImageData;
+}
@@ -0,0 +1,78 @@
+import { PipelineSource } from './PipelineTypes';
+
+// manual: 下位・上位閾値を手動で指定 / otsu: グレースケールの Otsu 閾値 t から (0.5t, 1.5t) を使う
+export type CannyThresholdMode = 'manual' | 'otsu';
+
+// エッジ検出をかける画像（処理チェーンの他の段と同じく、元画像か各段の出力）
+export type CannySource = PipelineSource;
+
+export interface CannySettings {
+  source: CannySource;
+  thresholdMode: CannyThresholdMode;
+  lowThreshold: number; // 50-150 下位閾値（manual のとき）
+  highThreshold: number; // 100-300 上位閾値（manual のとき）
+  blurRadius: number; // 0-5 前処理ガウシアンの半径（0 ならぼかさない）
+  l2Gradient: boolean; // 勾配の大きさに L2 ノルムを使う（既定は L1）
+  thinning: boolean; // 後処理: 幅 1 画素に細線化
+  minEdgeLength: number; // 後処理: これより短い (px) エッジを除去。0 なら無効 (10-100)
+  linkDistance: number; // 後処理: この距離 (px) 以内の途切れを連結。0 なら無効 (1-10)
+  color: string; // エッジの表示色 '#rrggbb'
+  opacity: number; // 0-1 合成時の不透明度
+}
+
+// エッジ検出ジョブに渡す設定。後処理・表示の項目は含めない（変えても検出し直さない）
+export type CannyDetectionSettings = Pick<
+  CannySettings,
+  'thresholdMode' | 'lowThreshold' | 'highThreshold' | 'blurRadius' | 'l2Gradient'
+>;
+
+export const cannyDetectionSettings = ({
+  thresholdMode,
+  lowThreshold,
+  highThreshold,
+  blurRadius,
+  l2Gradient,
+}: CannySettings): CannyDetectionSettings => ({ thresholdMode, lowThreshold, highThreshold, blurRadius, l2Gradient });
+
+export interface CannyThresholds {
+  low: number;
+  high: number;
+}
+
+// 二値のエッジマスク。data は width × height、エッジ画素が 1
+export interface EdgeMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// エッジ検出ジョブの結果
+export interface EdgeDetection {
+  edges: EdgeMask;
+  thresholds: CannyThresholds; // 実際に使った閾値（otsu なら算出値）
+}
+
+export interface CannyResult {
+  edges: EdgeMask | null;
+  thresholds: CannyThresholds | null; // 実際に使った閾値（otsu なら算出値）
+  processing: boolean;
+  error: string | null;
+  processingTime: number;
+}
+
+export const CANNY_LOW_THRESHOLD_RANGE = { min: 50, max: 150 } as const;
+export const CANNY_HIGH_THRESHOLD_RANGE = { min: 100, max: 300 } as const;
+
+export const DEFAULT_CANNY_SETTINGS: CannySettings = {
+  source: 'original',
+  thresholdMode: 'manual',
+  lowThreshold: 50,
+  highThreshold: 150,
+  blurRadius: 1,
+  l2Gradient: false,
+  thinning: false,
+  minEdgeLength: 0,
+  linkDistance: 0,
+  color: '#00e5ff',
+  opacity: 1.0,
+};
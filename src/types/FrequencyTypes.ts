@@ -1,10 +1,43 @@
 export type FrequencyFilterMethod = 'gaussian' | 'median' | 'bilateral' | 'guided';
 
+// split: 低域と高域の 2 つに分ける / pyramid: 半径を倍々にした低域の差（DoG）で複数の帯域に分ける
+export type FrequencyMode = 'split' | 'pyramid';
+
+// rgb: RGB の各チャンネルを分ける / luminance: YCrCb の Y だけを分け、色は低域に残す（高域はグレー）
+export type FrequencyChannels = 'rgb' | 'luminance';
+
+// pyramid の帯域数（細部の帯域 + 最後に残る低域）
+export const MIN_FREQUENCY_BANDS = 3;
+export const MAX_FREQUENCY_BANDS = 6;
+
+// A を持たない RGB の符号付きの値（画素 p のチャンネル c は [p * 3 + c]）。
+// フル解像度の差は 8bit の値どうしの差なので整数（Int16）、縮小プレビューの差は面積平均なので Float32
+export type RgbPlane = Int16Array | Float32Array;
+
+// 低域フィルタの結果と、強さを掛ける前の符号付きの差。強さを変えたときはこれを混ぜ直すだけにする
+export interface FrequencyDecomposition {
+  mode: FrequencyMode;
+  lowFrequency: ImageData; // pyramid では最も粗い低域
+  lowExact: RgbPlane | null; // 8bit に切り詰める前の低域（luminance のとき）。null なら lowFrequency が正確
+  residuals: RgbPlane[]; // 元画像 - 低域（split は 1 つ、pyramid は細かい順の帯域）
+}
+
+// 高域の ImageData は 128 を中心にした表示用。低域との合成には 8bit に丸めていない符号付きの差に、
+// 合成するときに強さを掛けて使う（強さ × 差 の配列は持たない）
 export interface FrequencyData {
   lowFrequency: ImageData | null;
+  lowExact: RgbPlane | null; // FrequencyDecomposition と同じ。低域 + 差を計算するときはこちらを使う
   highFrequencyBright: ImageData | null;
   highFrequencyDark: ImageData | null;
   highFrequencyCombined: ImageData | null;
+  // pyramid のときの細部の帯域（細かい順、128 + 強さ × 差 / 2）。low は最後に残る低域
+  bands: ImageData[];
+  // 混ぜた元の差（split は 1 つ、pyramid は bands と同じ順）と、それに掛ける強さ
+  residuals: RgbPlane[];
+  mix: FrequencyMixSettings;
+
+  // pyramid のときの、低域 + Σ 強さ × 帯域。強さがすべて 1 なら元画像と一致する
+  reconstruction: ImageData | null;
 }
 
 export interface FrequencySettings {
@@ -16,8 +49,21 @@ export interface FrequencySettings {
   bilateralSigmaColor: number;
   // guided 用（正則化 eps にマッピングされる平滑化強度）
   guidedStrength: number;
+  mode: FrequencyMode;
+  channels: FrequencyChannels;
+  // pyramid 用。帯域 k の低域の半径は blurRadius × 2^k
+  bandCount: number;
+  bandGains: number[]; // 細部の帯域ごとの強さ（細かい順、MAX_FREQUENCY_BANDS - 1 個）
 }
 
+// 低域と差には効かず、混ぜ直すだけで反映できる設定
+export const FREQUENCY_MIX_KEYS = ['brightIntensity', 'darkIntensity', 'bandGains'] as const;
+
+export type FrequencyMixSettings = Pick<FrequencySettings, (typeof FREQUENCY_MIX_KEYS)[number]>;
+
+// 低域の計算を左右する設定（フィルタの種類・半径・σ・強度と、分け方）
+export type FrequencySplitSettings = Omit<FrequencySettings, keyof FrequencyMixSettings>;
+
 export const DEFAULT_FREQUENCY_SETTINGS: FrequencySettings = {
   filterMethod: 'gaussian',
   blurRadius: 5,
@@ -25,4 +71,32 @@ export const DEFAULT_FREQUENCY_SETTINGS: FrequencySettings = {
   darkIntensity: 1.0,
   bilateralSigmaColor: 50,
   guidedStrength: 30,
-};
\ No newline at end of file
+  mode: 'split',
+  channels: 'rgb',
+  bandCount: 4,
+  bandGains: Array(MAX_FREQUENCY_BANDS - 1).fill(1),
+};
+
+/** 低域の計算に使う設定だけを取り出す（結果キャッシュのキーに混ぜる設定が入らないように） */
+export const frequencySplitSettings = (settings: FrequencySettings): FrequencySplitSettings => {
+  const split: Partial<FrequencySettings> = { ...settings };
+  for (const key of FREQUENCY_MIX_KEYS) {
+    delete split[key];
+  }
+  return split as FrequencySplitSettings;
+};
+
+/** FrequencyData が持っている画像すべて */
+export const frequencyImages = (data: FrequencyData): ImageData[] =>
+  [
+    data.lowFrequency,
+    data.highFrequencyBright,
+    data.highFrequencyDark,
+    data.highFrequencyCombined,
+    ...data.bands,
+    data.reconstruction,
+  ].filter((image): image is ImageData => image !== null);
+
+/** FrequencyData が持っている符号付きの配列すべて（切り詰める前の低域と差。フル解像度では分解と同じ配列） */
+export const frequencyDetails = (data: FrequencyData): RgbPlane[] =>
+  [data.lowExact, ...data.residuals].filter((buffer): buffer is RgbPlane => buffer !== null);
@@ -1,17 +1,90 @@
 export interface BrightnessData {
   imageData: ImageData;
-  brightnessMap: number[][];
+  brightnessMap: Float32Array; // width × height の輝度 (0-255)。行優先で y * width + x
   levels: number[];
   width: number;
   height: number;
+  paths: ContourLevelPaths[]; // levels の等値線（単純化・短線除去の前）
 }
 
+// 等値線 1 本分のジオメトリ。points は x0, y0, x1, y1, ... の画素座標（サブピクセル）
+export interface ContourPolyline {
+  points: Float32Array;
+  closed: boolean;
+}
+
+// 1 レベル分の等値線。index は BrightnessData.levels 内の位置
+export interface ContourLevelPaths {
+  level: number;
+  index: number;
+  polylines: ContourPolyline[];
+}
+
+// 等高線レベルの配置方式
+// uniform: 等間隔 / quantile: 各帯の面積が等しい分位点 / otsu: 多値 Otsu 法
+// kmeans: 輝度の k-means / manual: ユーザー入力の閾値リスト
+export type LevelPlacementMode = 'uniform' | 'quantile' | 'otsu' | 'kmeans' | 'manual';
+
+// 組み込みのカラーランプ
+export type ColorRampName = 'viridis' | 'turbo' | 'terrain';
+
+// 値帯レイヤーの塗り: 帯の代表グレー、またはカラーランプ
+export type BandPalette = 'gray' | ColorRampName;
+
+// 輝度モデル
+// bt601 / bt709: ガンマ補正済み RGB の重み付き和（luma）
+// linear: 線形化した相対輝度 Y / lstar: CIE L*（知覚明度）
+// hsv: HSV の V (max(R,G,B)) / custom: channelWeights によるチャンネルミキサー
+export type LuminanceModel = 'bt601' | 'bt709' | 'linear' | 'lstar' | 'hsv' | 'custom';
+
+export interface ChannelWeights {
+  r: number; // 0-100（合計で正規化される）
+  g: number;
+  b: number;
+}
+
+// 等高線の線色
+// auto: 下地の明暗から決めるグレー（従来の挙動） / single: 単色
+// ramp: レベルごとにカラーランプから / source: 等高線ソース（元・フィルタ・ノイズ除去）ごとの色
+export type ContourColorMode = 'auto' | 'single' | 'ramp' | 'source';
+
+// 等高線用のランプ。custom は customRampStops を等間隔に並べたもの
+export type ContourRamp = ColorRampName | 'custom';
+
+// 等高線の線種
+export type ContourDashStyle = 'solid' | 'dashed' | 'dotted' | 'dashDot';
+
+// 等高線ラベルの表記: レベル番号 / 輝度値 (0-255) / CIE L* (0-100)
+export type ContourLabelFormat = 'index' | 'value' | 'lightness';
+
+// 等高線を描く元になる画像の種類（DisplayLayers のキーと対応）
+export type ContourSource = 'contour' | 'filteredContour' | 'denoisedContour';
+
 export interface ContourSettings {
   levels: number;
+  luminanceModel?: LuminanceModel;
+  channelWeights?: ChannelWeights; // luminanceModel = 'custom' のときの重み
+  levelMode?: LevelPlacementMode;
+  manualLevels?: number[]; // levelMode = 'manual' のときの閾値 (0-255)
   transparency: number;
-  minContourDistance?: number;
+  minContourDistance?: number; // 線の単純化許容量 (px)
+  minContourLength?: number; // これより短い (px) 線を描かない。0 なら無効
   brightnessThreshold?: number; // 明暗切り替えの閾値 (0-255)
   contourContrast?: number; // 等高線のコントラスト調整 (0-100)
+  contourColorMode?: ContourColorMode;
+  contourColor?: string; // single のときの色 '#rrggbb'
+  contourRamp?: ContourRamp;
+  customRampStops?: string[]; // custom ランプの色（低レベル → 高レベル）
+  sourceColors?: Record<ContourSource, string>; // source のときの色
+  lineWidth?: number; // 線の太さ (1-5px)
+  dashStyle?: ContourDashStyle;
+  indexInterval?: number; // N レベルごとに計曲線（太く濃い実線）にする。0 なら無効
+  showLabels?: boolean; // 線に沿ってレベルのラベルを描く
+  labelFormat?: ContourLabelFormat;
+  labelSpacing?: number; // 同じ線上のラベル間隔 (px)
+  labelSize?: number; // ラベルの文字サイズ (px)
+  bandPalette?: BandPalette; // 値帯レイヤーの塗り色
+  bandOpacity?: number; // 値帯レイヤーの不透明度 (0-100)
 }
 
 export interface ImageUploadResult {
@@ -26,5 +99,16 @@ export const MAX_IMAGE_SIZE = 8000;
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 export const DEFAULT_CONTOUR_LEVELS = 4;
+export const DEFAULT_CONTOUR_COLOR = '#ff3b30';
+export const DEFAULT_CUSTOM_RAMP_STOPS = ['#1d4ed8', '#f5f5f5', '#dc2626'];
+export const DEFAULT_SOURCE_COLORS: Record<ContourSource, string> = {
+  contour: '#ef4444',
+  filteredContour: '#3b82f6',
+  denoisedContour: '#22c55e',
+};
+export const MIN_CONTOUR_LINE_WIDTH = 1;
+export const MAX_CONTOUR_LINE_WIDTH = 5;
+export const DEFAULT_LABEL_SPACING = 200;
+export const DEFAULT_LABEL_SIZE = 12;
 export const MIN_CONTOUR_LEVELS = 1;
 export const MAX_CONTOUR_LEVELS = 64;
\ No newline at end of file
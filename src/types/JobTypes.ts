@@ -0,0 +1,25 @@
+// 重い画像処理ジョブ（フィルタ・ノイズ除去・周波数分離）の共通モデル
+
+export interface JobProgress {
+  stage: string; // 実行中の段階（例: 'Guided filter · G'）。待ち行列中は 'Queued'
+  percent: number; // 0-100 ジョブ全体に対する進捗
+}
+
+export type JobProgressCallback = (progress: JobProgress) => void;
+
+export interface JobOptions {
+  // abort されたジョブは待ち行列から外すか、実行中ならタイル・段の合間で止める
+  signal?: AbortSignal;
+  onProgress?: JobProgressCallback;
+  // 縮小プレビュー画像に対するジョブのとき、その縮小率（0-1）。
+  // 半径などの画素単位のパラメータをこの率で縮める
+  previewScale?: number;
+}
+
+export const QUEUED_PROGRESS: JobProgress = { stage: 'Queued', percent: 0 };
+
+// キャンセル・後続の依頼による打ち切りで reject するときのエラー
+export const createAbortError = (): DOMException => new DOMException('Job cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
@@ -0,0 +1,17 @@
+// 処理チェーン: 各段がどの画像を入力にするか。
+// 上流の段の結果が変わると、それを入力にしている下流の段を処理し直す（結果が消えたら下流の結果も消す）
+
+// 段の入力にできる画像。元画像と、ノイズ除去・フィルタ・周波数分離（低域）の出力
+export type PipelineSource = 'original' | 'denoised' | 'filtered' | 'lowFrequency';
+
+// 入力を選べる段（Canny は CannySettings.source で選ぶ）
+export type PipelineStage = 'denoise' | 'filter' | 'frequency' | 'contour';
+
+export type PipelineSettings = Record<PipelineStage, PipelineSource>;
+
+export const DEFAULT_PIPELINE_SETTINGS: PipelineSettings = {
+  denoise: 'original',
+  filter: 'original',
+  frequency: 'original',
+  contour: 'original',
+};
@@ -3,17 +3,44 @@ export interface DisplayLayers {
   filtered: boolean;
   denoised: boolean;
   contour: boolean;
+  valueBands: boolean;
   filteredContour: boolean;
   denoisedContour: boolean;
+  canny: boolean;
   lowFrequency: boolean;
   highFrequencyBright: boolean;
   highFrequencyDark: boolean;
   highFrequencyCombined: boolean;
+  frequencyRecombined: boolean; // 多帯域分解の帯域を足し戻した画像
 }
 
+// レイヤーの合成モード（Photoshop / Krita と同じ式で画素ごとに計算する）
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'softLight'
+  | 'linearLight'
+  | 'grainExtract'
+  | 'grainMerge'
+  | 'difference'
+  | 'luminosity';
+
+// 合成モードを選べるレイヤー。frequencyBands は多帯域分解の帯域すべてに使う
+export type BlendLayer =
+  | 'filtered'
+  | 'denoised'
+  | 'highFrequencyCombined'
+  | 'highFrequencyBright'
+  | 'highFrequencyDark'
+  | 'frequencyBands';
+
 export interface DisplayOptions {
   layers: DisplayLayers;
   grayscaleMode: boolean;
+  hiddenBands: number[]; // 多帯域分解で非表示にした帯域の番号（0 が最も細かい）
+  blendModes: Record<BlendLayer, BlendMode>;
 }
 
 export const DEFAULT_DISPLAY_OPTIONS: DisplayOptions = {
@@ -22,12 +49,42 @@ export const DEFAULT_DISPLAY_OPTIONS: DisplayOptions = {
     filtered: false,
     denoised: false,
     contour: true,
+    valueBands: false,
     filteredContour: false,
     denoisedContour: false,
+    canny: false,
     lowFrequency: true,
     highFrequencyBright: true,
     highFrequencyDark: true,
     highFrequencyCombined: false,
+    frequencyRecombined: false,
   },
   grayscaleMode: false,
+  hiddenBands: [],
+  blendModes: {
+    filtered: 'normal',
+    denoised: 'normal',
+    // 高域は 128 を中心にした画像なので Linear Light で低域に重ねると元画像に戻る
+    highFrequencyCombined: 'linearLight',
+    highFrequencyBright: 'linearLight',
+    highFrequencyDark: 'linearLight',
+    frequencyBands: 'linearLight',
+  },
+};
+
+// 選べるメモリ上限 (MB)。画像・処理結果・キャッシュの合計がこれを超えたらキャッシュから捨てる
+export const MEMORY_LIMIT_OPTIONS_MB = [512, 1024, 2048, 4096] as const;
+export const DEFAULT_MEMORY_LIMIT_MB = 1024;
+
+// 設定を変えたときの処理の走らせ方と、処理に使うメモリの上限
+export interface PreviewSettings {
+  proxyPreview: boolean; // スライダーのドラッグ中は縮小画像で処理し、離したらフル解像度で処理し直す
+  autoApply: boolean; // フィルタ・周波数分離・ノイズ除去を Apply を押さずに設定変更のたびに処理し直す
+  memoryLimitMB: number;
+}
+
+export const DEFAULT_PREVIEW_SETTINGS: PreviewSettings = {
+  proxyPreview: true,
+  autoApply: false,
+  memoryLimitMB: DEFAULT_MEMORY_LIMIT_MB,
 };
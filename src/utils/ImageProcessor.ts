@@ -0,0 +1,70 @@
+// 画像処理エンジンの抽象化。フィルタ・ノイズ除去・周波数分離の低域・Canny エッジ検出はこのインターフェース越しに呼ぶ。
+// 通常は OpenCV.js 版を使い、OpenCV.js が読み込めない環境では純 TypeScript 版（Canvas）に自動で切り替える。
+// 入出力は RGBA の画素配列で、DOM に依存しないので Worker とメインスレッドの両方で動く。
+
+import { CannyDetectionSettings, CannyThresholds, EdgeDetection } from '../types/CannyTypes';
+import { NoiseReductionSettings } from '../types/NoiseReductionTypes';
+import { otsuLevels } from './levelPlacement';
+import { PixelImage } from './tiling';
+
+export type ProcessingEngine = 'opencv' | 'canvas';
+
+export const ENGINE_LABELS: Record<ProcessingEngine, string> = {
+  opencv: 'OpenCV.js',
+  canvas: 'Canvas (built-in)',
+};
+
+// 処理 1 回分の進捗。fraction はその処理全体に対する 0..1、step は段階の補足（チャンネル名など）
+export type StepProgress = (fraction: number, step?: string) => void;
+
+export interface ImageProcessor {
+  readonly engine: ProcessingEngine;
+  median(image: PixelImage, radius: number, onProgress?: StepProgress): Uint8ClampedArray;
+  gaussian(image: PixelImage, radius: number, onProgress?: StepProgress): Uint8ClampedArray;
+  bilateral(
+    image: PixelImage,
+    radius: number,
+    sigmaColor: number,
+    sigmaSpace: number,
+    onProgress?: StepProgress
+  ): Uint8ClampedArray;
+  guided(image: PixelImage, radius: number, strength: number, onProgress?: StepProgress): Uint8ClampedArray;
+  ycrcbDenoise(image: PixelImage, settings: NoiseReductionSettings, onProgress?: StepProgress): Uint8ClampedArray;
+  canny(image: PixelImage, settings: CannyDetectionSettings, onProgress?: StepProgress): EdgeDetection;
+}
+
+// Convert radius to kernel size (always odd)
+export const radiusToKernelSize = (radius: number): number => {
+  const kernelSize = Math.ceil(radius * 2) * 2 + 1;
+  return Math.max(3, Math.min(201, kernelSize)); // Clamp to valid range (max 201 for radius 100)
+};
+
+// ガウシアンフィルタの σ（Frequency Separation と同じく半径の 1/3）
+export const gaussianSigma = (radius: number): number => Math.max(0.1, Math.min(50.0, radius / 3));
+
+// ノイズ除去のバイラテラルのパラメータ。Y/Cr/Cb の各チャンネルで σ（色）だけを変える
+export const denoiseBilateralParams = (settings: NoiseReductionSettings) => ({
+  diameter: settings.radius * 2 + 1,
+  sigmaSpace: Math.max(1, settings.radius * 2),
+  luminanceSigma: (settings.luminanceStrength / 100) * 60,
+  colorSigma: (settings.colorStrength / 100) * 100,
+});
+
+// Canny の前処理ガウシアン。要件の σ = 1.4 を半径 1 に対応させて比例で増やす
+export const cannyBlurParams = (radius: number) => ({ kernelSize: radius * 2 + 1, sigma: radius * 1.4 });
+
+// グレースケール画素列の Otsu 閾値 t から、要件どおり (0.5t, 1.5t) を Canny の閾値にする
+export const otsuCannyThresholds = (gray: ArrayLike<number>): CannyThresholds => {
+  const histogram = new Float64Array(256);
+  for (let i = 0; i < gray.length; i++) {
+    histogram[gray[i]!]! += 1;
+  }
+  const threshold = otsuLevels(histogram, 1)[0] ?? 128;
+  return {
+    low: Math.round(threshold * 0.5),
+    high: Math.round(threshold * 1.5),
+  };
+};
+
+export const CHANNEL_NAMES = ['R', 'G', 'B'] as const;
+export const YCRCB_NAMES = ['Y', 'Cr', 'Cb'] as const;
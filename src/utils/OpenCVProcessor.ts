@@ -32,8 +32,10 @@ interface OpenCV {
   MatVector: new () => OpenCVMatVector;
   Size: new (width: number, height: number) => OpenCVSize;
   Point: new (x: number, y: number) => OpenCVPoint;
+  CV_8UC4: number;
   CV_32FC1: number;
   BORDER_DEFAULT: number;
+  COLOR_RGBA2GRAY: number;
   COLOR_RGBA2RGB: number;
   COLOR_RGB2RGBA: number;
   COLOR_RGB2YCrCb: number;
@@ -41,6 +43,14 @@ interface OpenCV {
   cvtColor(src: OpenCVMat, dst: OpenCVMat, code: number): void;
   split(src: OpenCVMat, dst: OpenCVMatVector): void;
   merge(src: OpenCVMatVector, dst: OpenCVMat): void;
+  Canny(
+    image: OpenCVMat,
+    edges: OpenCVMat,
+    threshold1: number,
+    threshold2: number,
+    apertureSize?: number,
+    L2gradient?: boolean
+  ): void;
   bilateralFilter(src: OpenCVMat, dst: OpenCVMat, d: number, sigmaColor: number, sigmaSpace: number): void;
   GaussianBlur(src: OpenCVMat, dst: OpenCVMat, ksize: OpenCVSize, sigmaX: number, sigmaY: number): void;
   boxFilter(
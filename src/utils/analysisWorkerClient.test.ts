@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { testImage } from '../test/images';
+import { ContourSettings } from '../types/ImageTypes';
+import { cancelBrightnessAnalysis, requestBrightnessAnalysis } from './analysisWorkerClient';
+
+const settings: ContourSettings = { levels: 3, transparency: 100 };
+const { width, height, data } = testImage(16, 12);
+const image = new ImageData(data, width, height);
+
+// Node には Worker がないので、メインスレッドで解析する経路を通る
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+describe('requestBrightnessAnalysis', () => {
+  it('resolves the running request and only the latest pending one', async () => {
+    const first = requestBrightnessAnalysis('contour', image, settings);
+    const superseded = requestBrightnessAnalysis('contour', image, settings);
+    const latest = requestBrightnessAnalysis('contour', image, settings);
+    expect(await first).not.toBeNull();
+    expect(await superseded).toBeNull();
+    expect((await latest)?.levels).toHaveLength(3);
+  });
+
+  it('cancelling drops both the running and the pending request', async () => {
+    const running = requestBrightnessAnalysis('contour', image, settings);
+    const pending = requestBrightnessAnalysis('contour', image, settings);
+    cancelBrightnessAnalysis('contour');
+    expect(await running).toBeNull();
+    expect(await pending).toBeNull();
+
+    // 打ち切ったあとの依頼は普通に解析される
+    expect(await requestBrightnessAnalysis('contour', image, settings)).not.toBeNull();
+  });
+
+  it('leaves the other channels alone', async () => {
+    const filtered = requestBrightnessAnalysis('filteredContour', image, settings);
+    cancelBrightnessAnalysis('contour');
+    expect(await filtered).not.toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+// 解析 Worker のクライアント。画素をコピーして Worker に転送し、結果を BrightnessData にして返す。
+// 同じチャンネル（元画像・フィルタ後・ノイズ除去後）への依頼は、実行中のものが終わるまで
+// 最新の 1 件だけを待たせ、それより古い依頼は null で打ち切る（スライダー操作で溜まらないように）。
+// 結果を消したときは、待っている依頼も実行中の依頼も null で打ち切る。
+
+import { BrightnessData, ContourSettings } from '../types/ImageTypes';
+import { BrightnessAnalysis, analyzeLuminance } from './brightnessMap';
+
+export interface AnalysisRequest {
+  id: number;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+  settings: ContourSettings;
+  fixedLevels?: number[];
+}
+
+export type AnalysisResponse =
+  | { id: number; analysis: BrightnessAnalysis }
+  | { id: number; error: string };
+
+export type AnalysisChannel = 'contour' | 'filteredContour' | 'denoisedContour';
+
+interface PendingJob {
+  imageData: ImageData;
+  settings: ContourSettings;
+  fixedLevels?: number[];
+  resolve: (data: BrightnessData | null) => void;
+  reject: (error: Error) => void;
+  cancelled?: boolean; // 実行中に打ち切られた。結果もエラーも捨てて null で解決する
+}
+
+interface ChannelState {
+  running: PendingJob | null;
+  pending: PendingJob | null;
+}
+
+let worker: Worker | null | undefined;
+let nextId = 1;
+const callbacks = new Map<number, (response: AnalysisResponse) => void>();
+const channels = new Map<AnalysisChannel, ChannelState>();
+
+// Worker は最初の依頼で作る。作れない環境（古いブラウザなど）では null にしてメインスレッドで解析する
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+      const callback = callbacks.get(event.data.id);
+      callbacks.delete(event.data.id);
+      callback?.(event.data);
+    };
+    worker.onerror = (event) => {
+      // Worker 自体が落ちたら待っている依頼をすべて失敗させ、以降はメインスレッドで処理する
+      console.warn('Analysis worker failed, falling back to main thread:', event.message);
+      worker?.terminate();
+      worker = null;
+      for (const [id, callback] of callbacks) {
+        callback({ id, error: 'Analysis worker failed' });
+      }
+      callbacks.clear();
+    };
+  } catch (error) {
+    console.warn('Analysis worker unavailable, analysing on main thread:', error);
+    worker = null;
+  }
+  return worker;
+};
+
+const runAnalysis = (
+  imageData: ImageData,
+  settings: ContourSettings,
+  fixedLevels?: number[]
+): Promise<BrightnessAnalysis> => {
+  const target = getWorker();
+  if (!target) {
+    return Promise.resolve(analyzeLuminance(imageData, settings, fixedLevels));
+  }
+
+  const id = nextId++;
+  // 表示にも使う元の ImageData は手放せないので、コピーを転送する
+  const pixels = imageData.data.slice();
+  const request: AnalysisRequest = {
+    id,
+    width: imageData.width,
+    height: imageData.height,
+    pixels,
+    settings,
+    fixedLevels,
+  };
+
+  return new Promise((resolve, reject) => {
+    callbacks.set(id, (response) => {
+      if ('error' in response) reject(new Error(response.error));
+      else resolve(response.analysis);
+    });
+    target.postMessage(request, [pixels.buffer]);
+  });
+};
+
+const startJob = (channel: ChannelState, job: PendingJob): void => {
+  channel.running = job;
+  runAnalysis(job.imageData, job.settings, job.fixedLevels)
+    .then(
+      ({ brightnessMap, levels, paths }) => job.resolve(job.cancelled ? null : {
+        imageData: job.imageData,
+        brightnessMap,
+        levels,
+        paths,
+        width: job.imageData.width,
+        height: job.imageData.height,
+      }),
+      (error: Error) => (job.cancelled ? job.resolve(null) : job.reject(error))
+    )
+    .finally(() => {
+      channel.running = null;
+      const next = channel.pending;
+      channel.pending = null;
+      if (next) startJob(channel, next);
+    });
+};
+
+/**
+ * 画像の輝度解析を依頼する。同じチャンネルの新しい依頼に追い越された場合は null で解決する
+ */
+export const requestBrightnessAnalysis = (
+  channelName: AnalysisChannel,
+  imageData: ImageData,
+  settings: ContourSettings,
+  fixedLevels?: number[]
+): Promise<BrightnessData | null> => {
+  let channel = channels.get(channelName);
+  if (!channel) {
+    channel = { running: null, pending: null };
+    channels.set(channelName, channel);
+  }
+
+  return new Promise((resolve, reject) => {
+    const job: PendingJob = { imageData, settings, fixedLevels, resolve, reject };
+    if (!channel.running) {
+      startJob(channel, job);
+      return;
+    }
+    channel.pending?.resolve(null);
+    channel.pending = job;
+  });
+};
+
+/**
+ * チャンネルの待っている依頼と実行中の依頼を null で打ち切る。Worker での計算は止めず、結果を捨てる
+ */
+export const cancelBrightnessAnalysis = (channelName: AnalysisChannel): void => {
+  const channel = channels.get(channelName);
+  if (!channel) return;
+  channel.pending?.resolve(null);
+  channel.pending = null;
+  if (channel.running) channel.running.cancelled = true;
+};
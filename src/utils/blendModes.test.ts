@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { BlendMode } from '../types/UITypes';
+import { NEUTRAL_GRAY, blendInto } from './blendModes';
+
+// 不透明な 1 画素 base に 1 画素 layer を重ねた結果の RGB
+const blendPixel = (
+  base: [number, number, number],
+  layer: [number, number, number],
+  mode: BlendMode,
+  opacity = 1
+): number[] => {
+  const pixel = Float32Array.from([...base, 255]);
+  blendInto(pixel, [...layer, 255], mode, opacity);
+  return Array.from(pixel.slice(0, 3));
+};
+
+const gray = (value: number): [number, number, number] => [value, value, value];
+
+// W3C Compositing and Blending Level 1 の式（0..1）。重ねる値が 0 か 255 なら blendUnit の伸ばし方に依らない
+const W3C: Partial<Record<BlendMode, (cb: number, cs: number) => number>> = {
+  multiply: (cb, cs) => cb * cs,
+  screen: (cb, cs) => cb + cs - cb * cs,
+  overlay: (cb, cs) => (cb <= 0.5 ? 2 * cb * cs : 1 - 2 * (1 - cb) * (1 - cs)),
+  softLight: (cb, cs) => {
+    if (cs <= 0.5) return cb - (1 - 2 * cs) * cb * (1 - cb);
+    const d = cb <= 0.25 ? ((16 * cb - 12) * cb + 4) * cb : Math.sqrt(cb);
+    return cb + (2 * cs - 1) * (d - cb);
+  },
+  difference: (cb, cs) => Math.abs(cb - cs),
+};
+
+const BASES = [0, 17, 64, 100, 127, 128, 180, 230, 255];
+
+describe('blendInto', () => {
+  it.each(Object.entries(W3C))('matches the W3C %s formula', (mode, formula) => {
+    for (const base of BASES) {
+      for (const layer of [0, 255]) {
+        const [result] = blendPixel(gray(base), gray(layer), mode as BlendMode);
+        expect(result).toBeCloseTo(255 * formula(base / 255, layer / 255), 3);
+      }
+    }
+  });
+
+  it.each<BlendMode>(['overlay', 'softLight', 'linearLight', 'grainExtract', 'grainMerge'])(
+    'leaves the base unchanged under a %s layer of neutral gray',
+    (mode) => {
+      for (const base of BASES) {
+        expect(blendPixel([base, 255 - base, 200], gray(NEUTRAL_GRAY), mode)).toEqual([
+          expect.closeTo(base, 6),
+          expect.closeTo(255 - base, 6),
+          expect.closeTo(200, 6),
+        ]);
+      }
+    }
+  );
+
+  it('adds twice the offset from neutral gray in linear light without clamping', () => {
+    const base = Float32Array.from([250, 10, 100.25, 255]);
+    blendInto(base, [NEUTRAL_GRAY + 10, NEUTRAL_GRAY - 10, NEUTRAL_GRAY + 0.5, 255], 'linearLight');
+    expect(Array.from(base.slice(0, 3))).toEqual([270, -10, 101.25]);
+  });
+
+  it('mixes with the base by opacity', () => {
+    expect(blendPixel(gray(100), gray(200), 'normal', 0.25)).toEqual([125, 125, 125]);
+    expect(blendPixel(gray(100), gray(200), 'multiply', 0)).toEqual([100, 100, 100]);
+  });
+
+  it('places the layer as is where the base is transparent', () => {
+    const base = Float32Array.from([10, 20, 30, 0]);
+    blendInto(base, [200, 100, 50, 255], 'multiply');
+    expect(Array.from(base)).toEqual([200, 100, 50, 255]);
+  });
+
+  it('keeps the hue of the base and takes the luminosity of the layer', () => {
+    const lum = ([r, g, b]: number[]) => 0.3 * r! + 0.59 * g! + 0.11 * b!;
+    const result = blendPixel([200, 80, 40], gray(90), 'luminosity');
+    expect(lum(result)).toBeCloseTo(90, 4);
+    // 色の差はそのまま（SetLum は 3 チャンネルを同じだけずらす）
+    expect(result[0]! - result[1]!).toBeCloseTo(120, 4);
+    expect(result[1]! - result[2]!).toBeCloseTo(40, 4);
+  });
+});
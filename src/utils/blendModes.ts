@@ -0,0 +1,105 @@
+// レイヤーの合成モード。Canvas の globalCompositeOperation は使わず、Photoshop / Krita（W3C Compositing）の
+// 式で画素ごとに計算する。値は 0-255 のスケールのまま扱い、重ねる側の中立は NEUTRAL_GRAY（8bit の 128）にする。
+// Linear Light と Grain 系は加算なので 0-255 に切り詰めずに計算し、浮動小数の高域を重ねても誤差が出ない。
+
+import { BlendMode } from '../types/UITypes';
+
+/** 高域レイヤーの中心（差 0）の値。表示用の高域画像もこの値を中心に作る */
+export const NEUTRAL_GRAY = 128;
+
+const clamp255 = (value: number): number => Math.max(0, Math.min(255, value));
+
+// 重ねる側の値を 0..1 にする。NEUTRAL_GRAY がちょうど 0.5 になるよう中立の上下で別々に伸ばす
+// （Overlay / Soft Light で差 0 の高域を重ねても下の値が変わらないように）
+const blendUnit = (value: number): number => {
+  const blend = clamp255(value);
+  return blend <= NEUTRAL_GRAY
+    ? blend / (2 * NEUTRAL_GRAY)
+    : 0.5 + (blend - NEUTRAL_GRAY) / (2 * (255 - NEUTRAL_GRAY));
+};
+
+// 分離可能なモード（チャンネルごとに a = 下の値、b = 重ねる値）
+const SEPARABLE: Record<Exclude<BlendMode, 'luminosity'>, (a: number, b: number) => number> = {
+  normal: (_a, b) => b,
+  multiply: (a, b) => (clamp255(a) * clamp255(b)) / 255,
+  screen: (a, b) => 255 - ((255 - clamp255(a)) * (255 - clamp255(b))) / 255,
+  // Overlay は下の値で Hard Light を切り替える
+  overlay: (a, b) => {
+    const base = clamp255(a) / 255;
+    const blend = blendUnit(b);
+    return 255 * (base <= 0.5 ? 2 * base * blend : 1 - 2 * (1 - base) * (1 - blend));
+  },
+  softLight: (a, b) => {
+    const base = clamp255(a) / 255;
+    const blend = blendUnit(b);
+    if (blend <= 0.5) {
+      return 255 * (base - (1 - 2 * blend) * base * (1 - base));
+    }
+    const d = base <= 0.25 ? ((16 * base - 12) * base + 4) * base : Math.sqrt(base);
+    return 255 * (base + (2 * blend - 1) * (d - base));
+  },
+  linearLight: (a, b) => a + 2 * (b - NEUTRAL_GRAY),
+  grainExtract: (a, b) => a - b + NEUTRAL_GRAY,
+  grainMerge: (a, b) => a + b - NEUTRAL_GRAY,
+  difference: (a, b) => Math.abs(clamp255(a) - clamp255(b)),
+};
+
+const lum = (r: number, g: number, b: number): number => 0.3 * r + 0.59 * g + 0.11 * b;
+
+// Luminosity: 下の色相・彩度に重ねる画像の輝度を当てる（W3C の SetLum / ClipColor）
+const setLuminosity = (color: [number, number, number], target: number): [number, number, number] => {
+  const shift = target - lum(...color);
+  const shifted = color.map((value) => value + shift) as [number, number, number];
+  const l = lum(...shifted);
+  const min = Math.min(...shifted);
+  const max = Math.max(...shifted);
+  if (min < 0) {
+    return shifted.map((value) => l + ((value - l) * l) / (l - min)) as [number, number, number];
+  }
+  if (max > 255) {
+    return shifted.map((value) => l + ((value - l) * (255 - l)) / (max - l)) as [number, number, number];
+  }
+  return shifted;
+};
+
+/**
+ * base（RGBA）に layer（RGBA、0-255 の範囲外の値も可）を mode で重ねて base を書き換える。
+ * opacity は layer の A と掛け合わせる。下が透明なところは layer をそのまま置く（通常の source-over）
+ */
+export const blendInto = (
+  base: Uint8ClampedArray | Float32Array,
+  layer: ArrayLike<number>,
+  mode: BlendMode,
+  opacity = 1
+): void => {
+  const separable = mode === 'luminosity' ? null : SEPARABLE[mode];
+  const blended: [number, number, number] = [0, 0, 0];
+
+  for (let i = 0; i < base.length; i += 4) {
+    const alpha = (layer[i + 3]! / 255) * opacity;
+    if (alpha <= 0) continue;
+    const baseAlpha = base[i + 3]! / 255;
+
+    if (separable) {
+      for (let c = 0; c < 3; c++) {
+        blended[c] = separable(base[i + c]!, layer[i + c]!);
+      }
+    } else {
+      const luminosity = setLuminosity(
+        [clamp255(base[i]!), clamp255(base[i + 1]!), clamp255(base[i + 2]!)],
+        lum(clamp255(layer[i]!), clamp255(layer[i + 1]!), clamp255(layer[i + 2]!))
+      );
+      blended[0] = luminosity[0];
+      blended[1] = luminosity[1];
+      blended[2] = luminosity[2];
+    }
+
+    // 下の不透明度の分だけ合成結果、残りは layer そのもの。それを layer の不透明度で下に重ねる
+    const outAlpha = alpha + baseAlpha * (1 - alpha);
+    for (let c = 0; c < 3; c++) {
+      const source = (1 - baseAlpha) * layer[i + c]! + baseAlpha * blended[c]!;
+      base[i + c] = (alpha * source + baseAlpha * (1 - alpha) * base[i + c]!) / outAlpha;
+    }
+    base[i + 3] = outAlpha * 255;
+  }
+};
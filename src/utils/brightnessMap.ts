@@ -0,0 +1,37 @@
+// 輝度解析の本体: 輝度マップ・等高線レベル・等値線をまとめて求める。
+// 解析 Worker とメインスレッドのフォールバックの両方から呼ぶので DOM に依存しない。
+
+import { ContourLevelPaths, ContourSettings } from '../types/ImageTypes';
+import { computeContourLevels } from './levelPlacement';
+import { computeLuminanceMap, luminanceFromSettings } from './luminance';
+import { extractContourLines } from './marchingSquares';
+
+export interface BrightnessAnalysis {
+  brightnessMap: Float32Array;
+  levels: number[];
+  paths: ContourLevelPaths[];
+}
+
+/**
+ * 画素列から輝度解析を行う。fixedLevels を渡すとレベル配置を省いてそのレベルを使う
+ * （フィルタ後・ノイズ除去後の等高線を元画像のレベルに揃えるため）
+ */
+export const analyzeLuminance = (
+  image: Pick<ImageData, 'width' | 'height' | 'data'>,
+  settings: ContourSettings,
+  fixedLevels?: number[]
+): BrightnessAnalysis => {
+  const { width, height } = image;
+  const brightnessMap = computeLuminanceMap(image, luminanceFromSettings(settings));
+  const levels = fixedLevels ?? computeContourLevels(brightnessMap, settings);
+  const paths = extractContourLines({ width, height, brightnessMap }, levels);
+  return { brightnessMap, levels, paths };
+};
+
+/** 解析結果の ArrayBuffer を列挙する（postMessage の transfer 用） */
+export const analysisTransferables = (analysis: BrightnessAnalysis): ArrayBuffer[] => [
+  analysis.brightnessMap.buffer as ArrayBuffer,
+  ...analysis.paths.flatMap((levelPaths) =>
+    levelPaths.polylines.map(({ points }) => points.buffer as ArrayBuffer)
+  ),
+];
@@ -0,0 +1,474 @@
+// 純 TypeScript 版の画像処理エンジン（要件定義の「高速モード（Canvas API）」）。
+// OpenCV.js（約 10MB の WASM）が読み込めない環境で自動的に使う。DOM に依存しないので Worker でも動く。
+// パラメータの解釈（カーネルサイズ・σ・色空間の係数）と画像端の扱いは OpenCV 版に揃えている。
+// ただしガウシアンは周波数分離の低域と共通の実装で端を複製するので、端の数画素は OpenCV 版と一致しない。
+// 固定小数点の丸めの違いで、内側の画素も ±1〜2 ずれることがある。
+
+import { CannyDetectionSettings, EdgeDetection } from '../types/CannyTypes';
+import { guidedFilterPixels } from './edgePreservingFilters';
+import {
+  CHANNEL_NAMES,
+  ImageProcessor,
+  StepProgress,
+  YCRCB_NAMES,
+  cannyBlurParams,
+  denoiseBilateralParams,
+  gaussianSigma,
+  otsuCannyThresholds,
+  radiusToKernelSize,
+} from './ImageProcessor';
+import { PixelImage } from './tiling';
+
+// 行ごとの処理で進捗を報告する間隔
+const REPORT_ROWS = 16;
+
+const clampIndex = (index: number, size: number): number => (index < 0 ? 0 : index >= size ? size - 1 : index);
+
+// OpenCV の BORDER_DEFAULT（BORDER_REFLECT_101: gfedcb|abcdefgh|gfedcba）
+const reflect101 = (index: number, size: number): number => {
+  if (size === 1) return 0;
+  const period = 2 * (size - 1);
+  const wrapped = ((index % period) + period) % period;
+  return wrapped < size ? wrapped : period - wrapped;
+};
+
+export const createGaussianKernel = (size: number, sigma: number): Float64Array => {
+  const kernel = new Float64Array(size);
+  const twoSigmaSquared = 2 * sigma * sigma;
+  const center = Math.floor(size / 2);
+  let sum = 0;
+
+  for (let i = 0; i < size; i++) {
+    const distance = i - center;
+    kernel[i] = Math.exp(-(distance * distance) / twoSigmaSquared);
+    sum += kernel[i]!;
+  }
+  for (let i = 0; i < size; i++) {
+    kernel[i] = kernel[i]! / sum;
+  }
+  return kernel;
+};
+
+/** RGBA の 4 チャンネルに分離型のガウシアン畳み込みをかける（端は複製） */
+export const gaussianBlurPixels = (
+  image: PixelImage,
+  kernel: Float64Array,
+  onProgress?: StepProgress
+): Uint8ClampedArray => {
+  const kernelSize = kernel.length;
+  const kernelRadius = Math.floor(kernelSize / 2);
+  const { width, height, data: source } = image;
+  const temp = new Uint8ClampedArray(source.length);
+  const result = new Uint8ClampedArray(source.length);
+
+  // 水平・垂直の各パスを半分ずつとし、16 行ごとに進捗を報告する
+  const pass = (input: Uint8ClampedArray, output: Uint8ClampedArray, horizontal: boolean) => {
+    for (let y = 0; y < height; y++) {
+      if (y % REPORT_ROWS === 0) {
+        onProgress?.((horizontal ? 0 : 0.5) + (y / height) * 0.5, horizontal ? 'horizontal' : 'vertical');
+      }
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+
+        for (let i = 0; i < kernelSize; i++) {
+          const sampleX = horizontal ? clampIndex(x + i - kernelRadius, width) : x;
+          const sampleY = horizontal ? y : clampIndex(y + i - kernelRadius, height);
+          const sourceIndex = (sampleY * width + sampleX) * 4;
+          const weight = kernel[i]!;
+
+          r += input[sourceIndex]! * weight;
+          g += input[sourceIndex + 1]! * weight;
+          b += input[sourceIndex + 2]! * weight;
+          a += input[sourceIndex + 3]! * weight;
+        }
+
+        const targetIndex = (y * width + x) * 4;
+        output[targetIndex] = r;
+        output[targetIndex + 1] = g;
+        output[targetIndex + 2] = b;
+        output[targetIndex + 3] = a;
+      }
+    }
+  };
+
+  pass(source, temp, true);
+  pass(temp, result, false);
+  return result;
+};
+
+// チャンネルごとのヒストグラムを窓の移動に合わせて更新するメディアン（Huang のアルゴリズム）。
+// 中央値とそれ未満の画素数を持ち回るので、1 画素あたりの手間は窓の一辺に比例する
+const medianPixels = (image: PixelImage, radius: number, onProgress?: StepProgress): Uint8ClampedArray => {
+  const kernelSize = radiusToKernelSize(radius);
+  const r = (kernelSize - 1) / 2;
+  const { width, height, data } = image;
+  const out = new Uint8ClampedArray(data.length);
+  const histogram = new Uint32Array(256);
+  // 窓内で (k² + 1) / 2 番目に小さい値が中央値
+  const rank = (kernelSize * kernelSize + 1) >> 1;
+
+  // OpenCV の medianBlur と同じくアルファも含めた 4 チャンネルすべてにかける
+  for (let c = 0; c < 4; c++) {
+    for (let y = 0; y < height; y++) {
+      if (y % REPORT_ROWS === 0) onProgress?.((c + y / height) / 4, CHANNEL_NAMES[c] ?? 'A');
+
+      histogram.fill(0);
+      for (let dy = -r; dy <= r; dy++) {
+        const row = clampIndex(y + dy, height) * width;
+        for (let dx = -r; dx <= r; dx++) {
+          histogram[data[(row + clampIndex(dx, width)) * 4 + c]!]!++;
+        }
+      }
+
+      let median = 0;
+      let below = 0; // median 未満の画素数
+      while (below + histogram[median]! < rank) below += histogram[median++]!;
+      out[y * width * 4 + c] = median;
+
+      for (let x = 1; x < width; x++) {
+        const leaving = clampIndex(x - r - 1, width);
+        const entering = clampIndex(x + r, width);
+        for (let dy = -r; dy <= r; dy++) {
+          const row = clampIndex(y + dy, height) * width;
+          const removed = data[(row + leaving) * 4 + c]!;
+          const added = data[(row + entering) * 4 + c]!;
+          histogram[removed]!--;
+          if (removed < median) below--;
+          histogram[added]!++;
+          if (added < median) below++;
+        }
+        while (below >= rank) below -= histogram[--median]!;
+        while (below + histogram[median]! < rank) below += histogram[median++]!;
+        out[(y * width + x) * 4 + c] = median;
+      }
+    }
+  }
+  return out;
+};
+
+// 複数の 8bit チャンネル（planes）をまとめて平滑化するバイラテラルフィルタ。
+// OpenCV と同じく、窓は半径 radius の円、色の距離は全チャンネルの差の絶対値の和、端は反射
+const bilateralPlanes = (
+  planes: Uint8ClampedArray[],
+  width: number,
+  height: number,
+  radius: number,
+  sigmaColor: number,
+  sigmaSpace: number,
+  onProgress?: (fraction: number) => void
+): Uint8ClampedArray[] => {
+  // OpenCV と同じく σ が 0 以下なら 1 として扱う
+  const colorCoefficient = -0.5 / Math.pow(sigmaColor > 0 ? sigmaColor : 1, 2);
+  const spaceCoefficient = -0.5 / Math.pow(sigmaSpace > 0 ? sigmaSpace : 1, 2);
+
+  const offsetsX: number[] = [];
+  const offsetsY: number[] = [];
+  const spaceWeights: number[] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const distanceSquared = dx * dx + dy * dy;
+      if (distanceSquared > radius * radius) continue;
+      offsetsX.push(dx);
+      offsetsY.push(dy);
+      spaceWeights.push(Math.exp(distanceSquared * spaceCoefficient));
+    }
+  }
+
+  const channelCount = planes.length;
+  const colorWeights = new Float64Array(256 * channelCount);
+  for (let i = 0; i < colorWeights.length; i++) {
+    colorWeights[i] = Math.exp(i * i * colorCoefficient);
+  }
+
+  const out = planes.map(() => new Uint8ClampedArray(width * height));
+  const sums = new Float64Array(channelCount);
+  for (let y = 0; y < height; y++) {
+    if (y % REPORT_ROWS === 0) onProgress?.(y / height);
+    for (let x = 0; x < width; x++) {
+      const center = y * width + x;
+      let weightSum = 0;
+      sums.fill(0);
+      for (let k = 0; k < spaceWeights.length; k++) {
+        const index = reflect101(y + offsetsY[k]!, height) * width + reflect101(x + offsetsX[k]!, width);
+        let distance = 0;
+        for (let c = 0; c < channelCount; c++) {
+          distance += Math.abs(planes[c]![index]! - planes[c]![center]!);
+        }
+        const weight = spaceWeights[k]! * colorWeights[distance]!;
+        weightSum += weight;
+        for (let c = 0; c < channelCount; c++) {
+          sums[c] = sums[c]! + planes[c]![index]! * weight;
+        }
+      }
+      for (let c = 0; c < channelCount; c++) {
+        out[c]![center] = Math.round(sums[c]! / weightSum);
+      }
+    }
+  }
+  return out;
+};
+
+// 分離型の box 平均（正規化あり、端は OpenCV の BORDER_DEFAULT と同じ反射）。行・列ごとの累積和で求める
+const boxMean = (width: number, height: number) => (input: Float32Array, ksize: number): Float32Array => {
+  const r = (ksize - 1) / 2;
+  const temp = new Float32Array(width * height);
+  const out = new Float32Array(width * height);
+  const prefix = new Float64Array(Math.max(width, height) + ksize);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let j = 0; j < width + ksize - 1; j++) {
+      prefix[j + 1] = prefix[j]! + input[row + reflect101(j - r, width)]!;
+    }
+    for (let x = 0; x < width; x++) {
+      temp[row + x] = (prefix[x + ksize]! - prefix[x]!) / ksize;
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    for (let j = 0; j < height + ksize - 1; j++) {
+      prefix[j + 1] = prefix[j]! + temp[reflect101(j - r, height) * width + x]!;
+    }
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = (prefix[y + ksize]! - prefix[y]!) / ksize;
+    }
+  }
+  return out;
+};
+
+const splitPlanes = (data: Uint8ClampedArray, count: number): Uint8ClampedArray[] => {
+  const size = data.length / 4;
+  const planes = Array.from({ length: count }, () => new Uint8ClampedArray(size));
+  for (let i = 0; i < size; i++) {
+    for (let c = 0; c < count; c++) planes[c]![i] = data[i * 4 + c]!;
+  }
+  return planes;
+};
+
+// OpenCV の 8bit RGB ⇔ YCrCb 変換と同じ係数
+const rgbToYCrCb = (data: Uint8ClampedArray): Uint8ClampedArray[] => {
+  const size = data.length / 4;
+  const y = new Uint8ClampedArray(size);
+  const cr = new Uint8ClampedArray(size);
+  const cb = new Uint8ClampedArray(size);
+  for (let i = 0; i < size; i++) {
+    const r = data[i * 4]!;
+    const g = data[i * 4 + 1]!;
+    const b = data[i * 4 + 2]!;
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    y[i] = Math.round(luma);
+    cr[i] = Math.round((r - luma) * 0.713 + 128);
+    cb[i] = Math.round((b - luma) * 0.564 + 128);
+  }
+  return [y, cr, cb];
+};
+
+const denoiseYCrCb: ImageProcessor['ycrcbDenoise'] = (image, settings, onProgress) => {
+  const { width, height, data } = image;
+  const { diameter, sigmaSpace, luminanceSigma, colorSigma } = denoiseBilateralParams(settings);
+  const radius = (diameter - 1) / 2;
+
+  // 強度0のチャンネルはフィルタをスキップしてそのまま使う。Y/Cr/Cb/Detail を 4 段階として報告する
+  const planes = rgbToYCrCb(data).map((plane, step) => {
+    const sigmaColor = step === 0 ? luminanceSigma : colorSigma;
+    onProgress?.(step / 4, YCRCB_NAMES[step]);
+    if (sigmaColor <= 0) return plane;
+    return bilateralPlanes([plane], width, height, radius, sigmaColor, sigmaSpace, (fraction) =>
+      onProgress?.((step + fraction) / 4, YCRCB_NAMES[step])
+    )[0]!;
+  });
+  const [y, cr, cb] = planes as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+
+  const out = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < y.length; i++) {
+    const dr = cr[i]! - 128;
+    const db = cb[i]! - 128;
+    out[i * 4] = Math.round(y[i]! + 1.403 * dr);
+    out[i * 4 + 1] = Math.round(y[i]! - 0.714 * dr - 0.344 * db);
+    out[i * 4 + 2] = Math.round(y[i]! + 1.773 * db);
+    out[i * 4 + 3] = 255;
+  }
+
+  // Detail: 元画像の高周波成分（original - blur(original)）をブレンドバックして
+  // 筆致などの微細テクスチャを復元する
+  const detailAmount = settings.detail / 100;
+  if (detailAmount > 0) {
+    const blur = gaussianBlurPixels(image, createGaussianKernel(5, 1.5), (fraction) =>
+      onProgress?.(0.75 + fraction / 4, 'Detail')
+    );
+    for (let i = 0; i < out.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        out[i + c] = out[i + c]! + (data[i + c]! - blur[i + c]!) * detailAmount;
+      }
+      out[i + 3] = data[i + 3]!;
+    }
+  }
+  return out;
+};
+
+// tan(22.5°) と tan(67.5°)。勾配の向きを横・縦・斜め 2 方向の 4 つに分ける（OpenCV の Canny と同じ）
+const TAN_22_5 = Math.tan(Math.PI / 8);
+const TAN_67_5 = Math.tan((3 * Math.PI) / 8);
+
+// 1 チャンネルに分離型のガウシアン（端は OpenCV と同じ BORDER_REFLECT_101）
+const gaussianBlurPlane = (plane: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const { kernelSize, sigma } = cannyBlurParams(radius);
+  const kernel = createGaussianKernel(kernelSize, sigma);
+  const temp = new Float32Array(plane.length);
+  const out = new Uint8ClampedArray(plane.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let i = 0; i < kernelSize; i++) sum += plane[y * width + reflect101(x + i - radius, width)]! * kernel[i]!;
+      temp[y * width + x] = sum;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let i = 0; i < kernelSize; i++) sum += temp[reflect101(y + i - radius, height) * width + x]! * kernel[i]!;
+      out[y * width + x] = sum;
+    }
+  }
+  return out;
+};
+
+// OpenCV の Canny と同じ手順: グレースケール → 前処理のガウシアン → 3x3 Sobel →
+// 勾配方向の非極大抑制 → 上位閾値を超える画素から下位閾値を超える画素を 8 近傍でたどるヒステリシス
+const cannyEdges = (
+  image: PixelImage,
+  settings: CannyDetectionSettings,
+  onProgress?: StepProgress
+): EdgeDetection => {
+  const { width, height, data } = image;
+  const size = width * height;
+
+  onProgress?.(0, 'Grayscale');
+  let gray = new Uint8ClampedArray(size);
+  for (let i = 0; i < size; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4]! + 0.587 * data[i * 4 + 1]! + 0.114 * data[i * 4 + 2]!);
+  }
+  if (settings.blurRadius > 0) {
+    onProgress?.(0.1, 'Blur');
+    gray = gaussianBlurPlane(gray, width, height, settings.blurRadius);
+  }
+
+  const thresholds = settings.thresholdMode === 'otsu'
+    ? otsuCannyThresholds(gray)
+    : { low: settings.lowThreshold, high: settings.highThreshold };
+
+  // Sobel の勾配と大きさ（L1 か L2）
+  const dx = new Float32Array(size);
+  const dy = new Float32Array(size);
+  const magnitude = new Float32Array(size);
+  for (let y = 0; y < height; y++) {
+    if (y % REPORT_ROWS === 0) onProgress?.(0.3 + (y / height) * 0.3, 'Gradient');
+    const up = reflect101(y - 1, height) * width;
+    const row = y * width;
+    const down = reflect101(y + 1, height) * width;
+    for (let x = 0; x < width; x++) {
+      const left = reflect101(x - 1, width);
+      const right = reflect101(x + 1, width);
+      const gx =
+        gray[up + right]! + 2 * gray[row + right]! + gray[down + right]! -
+        gray[up + left]! - 2 * gray[row + left]! - gray[down + left]!;
+      const gy =
+        gray[down + left]! + 2 * gray[down + x]! + gray[down + right]! -
+        gray[up + left]! - 2 * gray[up + x]! - gray[up + right]!;
+      dx[row + x] = gx;
+      dy[row + x] = gy;
+      magnitude[row + x] = settings.l2Gradient ? Math.sqrt(gx * gx + gy * gy) : Math.abs(gx) + Math.abs(gy);
+    }
+  }
+
+  // 非極大抑制。画像の外は大きさ 0 とみなす。2: 確定したエッジ、1: 候補、0: エッジでない
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : magnitude[y * width + x]!);
+  const state = new Uint8Array(size);
+  const stack: number[] = [];
+  for (let y = 0; y < height; y++) {
+    if (y % REPORT_ROWS === 0) onProgress?.(0.6 + (y / height) * 0.3, 'Edges');
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const m = magnitude[i]!;
+      if (m <= thresholds.low) continue;
+      const ax = Math.abs(dx[i]!);
+      const ay = Math.abs(dy[i]!);
+      let isMaximum: boolean;
+      if (ay <= ax * TAN_22_5) {
+        isMaximum = m > at(x - 1, y) && m >= at(x + 1, y);
+      } else if (ay >= ax * TAN_67_5) {
+        isMaximum = m > at(x, y - 1) && m >= at(x, y + 1);
+      } else {
+        const s = dx[i]! * dy[i]! < 0 ? -1 : 1;
+        isMaximum = m > at(x - s, y - 1) && m > at(x + s, y + 1);
+      }
+      if (!isMaximum) continue;
+      if (m > thresholds.high) {
+        state[i] = 2;
+        stack.push(i);
+      } else {
+        state[i] = 1;
+      }
+    }
+  }
+
+  // ヒステリシス: 確定したエッジにつながる候補をエッジにする
+  onProgress?.(0.9, 'Hysteresis');
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+      for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+        const n = ny * width + nx;
+        if (state[n] !== 1) continue;
+        state[n] = 2;
+        stack.push(n);
+      }
+    }
+  }
+
+  const mask = new Uint8Array(size);
+  for (let i = 0; i < size; i++) mask[i] = state[i] === 2 ? 1 : 0;
+  return { edges: { width, height, data: mask }, thresholds };
+};
+
+/** OpenCV.js を使わずに処理するエンジン */
+export const canvasImageProcessor: ImageProcessor = {
+  engine: 'canvas',
+
+  median: medianPixels,
+
+  gaussian: (image, radius, onProgress) =>
+    gaussianBlurPixels(image, createGaussianKernel(radiusToKernelSize(radius), gaussianSigma(radius)), onProgress),
+
+  // OpenCV 版と同じく RGB だけを平滑化し、アルファは不透明にする
+  bilateral: (image, radius, sigmaColor, sigmaSpace, onProgress) => {
+    const { width, height } = image;
+    const [r, g, b] = bilateralPlanes(
+      splitPlanes(image.data, 3),
+      width,
+      height,
+      Math.max(1, Math.round(radius)),
+      Math.max(1, Math.min(300, sigmaColor)),
+      Math.max(1, Math.min(300, sigmaSpace)),
+      onProgress
+    ) as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+    const out = new Uint8ClampedArray(image.data.length);
+    for (let i = 0; i < r.length; i++) {
+      out[i * 4] = r[i]!;
+      out[i * 4 + 1] = g[i]!;
+      out[i * 4 + 2] = b[i]!;
+      out[i * 4 + 3] = 255;
+    }
+    return out;
+  },
+
+  guided: (image, radius, strength, onProgress) =>
+    guidedFilterPixels(image, radius, strength, boxMean(image.width, image.height), (channel, fraction) =>
+      onProgress?.((channel + fraction) / 3, CHANNEL_NAMES[channel])
+    ),
+
+  ycrcbDenoise: denoiseYCrCb,
+
+  canny: cannyEdges,
+};
@@ -0,0 +1,83 @@
+// 連続カラーランプ（matplotlib 系）。0..1 の位置から sRGB 色を線形補間で取り出す。
+
+import { ColorRampName } from '../types/ImageTypes';
+
+export type RGB = [number, number, number];
+
+export interface ColorStop {
+  offset: number; // 0-1
+  color: string; // '#rrggbb'
+}
+
+export const COLOR_RAMPS: Record<ColorRampName, ColorStop[]> = {
+  viridis: [
+    { offset: 0, color: '#440154' },
+    { offset: 0.125, color: '#472d7b' },
+    { offset: 0.25, color: '#3b528b' },
+    { offset: 0.375, color: '#2c728e' },
+    { offset: 0.5, color: '#21918c' },
+    { offset: 0.625, color: '#28ae80' },
+    { offset: 0.75, color: '#5ec962' },
+    { offset: 0.875, color: '#addc30' },
+    { offset: 1, color: '#fde725' },
+  ],
+  turbo: [
+    { offset: 0, color: '#30123b' },
+    { offset: 0.1, color: '#4458cb' },
+    { offset: 0.2, color: '#3e9bfe' },
+    { offset: 0.3, color: '#18d6cb' },
+    { offset: 0.4, color: '#46f884' },
+    { offset: 0.5, color: '#a2fc3c' },
+    { offset: 0.6, color: '#e1dd37' },
+    { offset: 0.7, color: '#fea431' },
+    { offset: 0.8, color: '#f05b12' },
+    { offset: 0.9, color: '#c42503' },
+    { offset: 1, color: '#7a0403' },
+  ],
+  terrain: [
+    { offset: 0, color: '#333399' },
+    { offset: 0.15, color: '#0099ff' },
+    { offset: 0.25, color: '#00cc66' },
+    { offset: 0.5, color: '#ffff99' },
+    { offset: 0.75, color: '#805c54' },
+    { offset: 1, color: '#ffffff' },
+  ],
+};
+
+export const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToCss = ([r, g, b]: RGB): string =>
+  `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+
+/** stops を offset 順に見て t (0..1) の色を補間する */
+export const sampleColorStops = (stops: ColorStop[], t: number): RGB => {
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+  if (sorted.length === 0) return [0, 0, 0];
+
+  const clamped = Math.max(0, Math.min(1, t));
+  const first = sorted[0]!;
+  if (clamped <= first.offset) return hexToRgb(first.color);
+
+  for (let i = 1; i < sorted.length; i++) {
+    const upper = sorted[i]!;
+    if (clamped <= upper.offset) {
+      const lower = sorted[i - 1]!;
+      const span = upper.offset - lower.offset;
+      const f = span > 0 ? (clamped - lower.offset) / span : 0;
+      const a = hexToRgb(lower.color);
+      const b = hexToRgb(upper.color);
+      return [
+        a[0] + (b[0] - a[0]) * f,
+        a[1] + (b[1] - a[1]) * f,
+        a[2] + (b[2] - a[2]) * f,
+      ];
+    }
+  }
+  return hexToRgb(sorted[sorted.length - 1]!.color);
+};
+
+export const sampleColorRamp = (name: ColorRampName, t: number): RGB =>
+  sampleColorStops(COLOR_RAMPS[name], t);
@@ -0,0 +1,113 @@
+// 等高線ラベルの配置。地形図の等高線数値のように、線に沿って一定間隔で置き、
+// 線の向きに合わせて回転させる。Canvas 描画と SVG 書き出しで同じ配置を使う。
+
+import {
+  ContourLevelPaths,
+  ContourSettings,
+  DEFAULT_LABEL_SIZE,
+  DEFAULT_LABEL_SPACING,
+} from '../types/ImageTypes';
+import { levelToLightness } from './luminance';
+
+export interface ContourLabel {
+  index: number; // ContourLevelPaths.index
+  text: string;
+  x: number;
+  y: number;
+  angle: number; // ラジアン。文字が逆さにならないよう -π/2..π/2 に収める
+  width: number; // 文字列の概算幅 (px)
+  height: number; // 文字の高さ (px)
+}
+
+// 文字幅は実測せず、数字 1 文字 ≈ 0.6em として見積もる。
+// SVG 側では描画前に文字幅を測れないため、Canvas と同じ見積もりで揃える
+const CHAR_WIDTH_EM = 0.6;
+
+/** 設定の表記でレベルのラベル文字列を作る */
+export const formatContourLabel = (
+  level: number,
+  index: number,
+  settings: ContourSettings
+): string => {
+  switch (settings.labelFormat ?? 'value') {
+    case 'index':
+      return String(index + 1);
+    case 'lightness':
+      return String(Math.round(levelToLightness(level, settings)));
+    case 'value':
+    default:
+      return String(Math.round(level));
+  }
+};
+
+// ポリライン上の累積距離 distance の位置を返す
+const pointAt = (
+  points: Float32Array,
+  cumulative: Float64Array,
+  distance: number
+): [number, number] => {
+  let i = 1;
+  while (i < cumulative.length - 1 && cumulative[i]! < distance) i++;
+  const span = cumulative[i]! - cumulative[i - 1]!;
+  const t = span > 0 ? (distance - cumulative[i - 1]!) / span : 0;
+  const x0 = points[(i - 1) * 2]!;
+  const y0 = points[(i - 1) * 2 + 1]!;
+  return [x0 + (points[i * 2]! - x0) * t, y0 + (points[i * 2 + 1]! - y0) * t];
+};
+
+/**
+ * 各レベルの線上にラベル位置を求める。
+ * ラベル幅より短い線には置かず、1 本の線には spacing px ごとに（最初は半間隔の位置に）置く。
+ * 向きはラベル幅ぶん前後の 2 点を結ぶ方向にして、細かな屈曲で文字が暴れないようにする
+ */
+export const placeContourLabels = (
+  paths: ContourLevelPaths[],
+  settings: ContourSettings
+): ContourLabel[] => {
+  const spacing = Math.max(1, settings.labelSpacing ?? DEFAULT_LABEL_SPACING);
+  const height = settings.labelSize ?? DEFAULT_LABEL_SIZE;
+  const labels: ContourLabel[] = [];
+
+  for (const levelPaths of paths) {
+    const text = formatContourLabel(levelPaths.level, levelPaths.index, settings);
+    const width = text.length * height * CHAR_WIDTH_EM;
+    // 文字の両側に少し余白を取った長さが線に収まる必要がある
+    const span = width + height;
+
+    for (const { points, closed } of levelPaths.polylines) {
+      const count = points.length / 2;
+      if (count < 2) continue;
+
+      // 閉曲線は始点に戻る辺も含めて長さを測る
+      const vertexCount = closed ? count + 1 : count;
+      const ring = closed ? new Float32Array(vertexCount * 2) : points;
+      if (closed) {
+        ring.set(points);
+        ring[count * 2] = points[0]!;
+        ring[count * 2 + 1] = points[1]!;
+      }
+      const cumulative = new Float64Array(vertexCount);
+      for (let i = 1; i < vertexCount; i++) {
+        cumulative[i] = cumulative[i - 1]! + Math.hypot(
+          ring[i * 2]! - ring[(i - 1) * 2]!,
+          ring[i * 2 + 1]! - ring[(i - 1) * 2 + 1]!
+        );
+      }
+      const length = cumulative[vertexCount - 1]!;
+      if (length < span) continue;
+
+      for (let d = Math.min(spacing / 2, length / 2); d <= length - span / 2; d += spacing) {
+        if (d < span / 2) continue;
+        const [x, y] = pointAt(ring, cumulative, d);
+        const [ax, ay] = pointAt(ring, cumulative, d - span / 2);
+        const [bx, by] = pointAt(ring, cumulative, d + span / 2);
+        let angle = Math.atan2(by - ay, bx - ax);
+        if (angle > Math.PI / 2) angle -= Math.PI;
+        else if (angle < -Math.PI / 2) angle += Math.PI;
+        labels.push({ index: levelPaths.index, text, x, y, angle, width, height });
+      }
+    }
+  }
+
+  return labels;
+};
@@ -0,0 +1,136 @@
+// 等高線・値帯の配色ルール。Canvas 描画と SVG 書き出しで同じ色になるよう共有する。
+
+import {
+  ContourDashStyle,
+  ContourSettings,
+  ContourSource,
+  DEFAULT_CONTOUR_COLOR,
+  DEFAULT_CUSTOM_RAMP_STOPS,
+  DEFAULT_SOURCE_COLORS,
+} from '../types/ImageTypes';
+import { hexToRgb, RGB, sampleColorRamp, sampleColorStops } from './colorRamps';
+
+// 等値線の線色（グレー）をレベル値から決める。
+// 閾値より明るい線は少し暗く、暗い線は明るく振って下地から浮かせ、
+// contrast で白黒方向へさらに押し出す
+const contourGrayForLevel = (level: number, settings: ContourSettings): number => {
+  const brightnessThreshold = settings.brightnessThreshold ?? 65;
+  const contrastStrength = (settings.contourContrast ?? 0) / 100;
+
+  const baseAdjustment = level >= brightnessThreshold ? -25 : +75;
+  const baseContourGray = level + baseAdjustment;
+
+  let contourGray = baseContourGray;
+  if (contrastStrength > 0) {
+    contourGray = baseAdjustment < 0
+      ? baseContourGray * (1 - contrastStrength)
+      : baseContourGray + (255 - baseContourGray) * contrastStrength;
+  }
+
+  return Math.max(0, Math.min(255, contourGray));
+};
+
+/**
+ * 等値線の線色。index は昇順に並んだレベル内の位置、levelCount はレベル数。
+ * source は色分けモード 'source' のときだけ使う
+ */
+export const contourColorForLevel = (
+  level: number,
+  index: number,
+  levelCount: number,
+  settings: ContourSettings,
+  source: ContourSource
+): RGB => {
+  switch (settings.contourColorMode ?? 'auto') {
+    case 'single':
+      return hexToRgb(settings.contourColor ?? DEFAULT_CONTOUR_COLOR);
+    case 'source':
+      return hexToRgb((settings.sourceColors ?? DEFAULT_SOURCE_COLORS)[source]);
+    case 'ramp': {
+      const t = levelCount > 1 ? index / (levelCount - 1) : 0.5;
+      const ramp = settings.contourRamp ?? 'viridis';
+      if (ramp !== 'custom') return sampleColorRamp(ramp, t);
+      const stops = settings.customRampStops ?? DEFAULT_CUSTOM_RAMP_STOPS;
+      return sampleColorStops(
+        stops.map((color, i) => ({ offset: stops.length > 1 ? i / (stops.length - 1) : 0, color })),
+        t
+      );
+    }
+    case 'auto':
+    default: {
+      const gray = contourGrayForLevel(level, settings);
+      return [gray, gray, gray];
+    }
+  }
+};
+
+// 線種ごとの破線パターン（線幅 1 あたりの長さ）。
+// dotted は長さ 0 の線分に丸い線端を付けて点にする
+const DASH_PATTERNS: Record<ContourDashStyle, number[]> = {
+  solid: [],
+  dashed: [4, 3],
+  dotted: [0, 2],
+  dashDot: [6, 2.5, 0, 2.5],
+};
+
+// 計曲線は主曲線の 2 倍の太さで、色を暗くして描く
+const INDEX_WIDTH_SCALE = 2;
+const INDEX_DARKEN = 0.55;
+
+export interface ContourStroke {
+  color: RGB;
+  width: number; // px
+  dash: number[]; // px。空なら実線
+}
+
+/** index（昇順レベル内の位置）が計曲線かどうか。最下位レベルから数えて N 本目ごと */
+export const isIndexContour = (index: number, settings: ContourSettings): boolean => {
+  const interval = settings.indexInterval ?? 0;
+  return interval > 0 && (index + 1) % interval === 0;
+};
+
+/** 等値線 1 レベル分の描画スタイル（色・太さ・破線）。Canvas と SVG で共有する */
+export const contourStrokeForLevel = (
+  level: number,
+  index: number,
+  levelCount: number,
+  settings: ContourSettings,
+  source: ContourSource
+): ContourStroke => {
+  const color = contourColorForLevel(level, index, levelCount, settings, source);
+  const width = settings.lineWidth ?? 1;
+
+  // 計曲線は破線設定に関係なく実線で描く
+  if (isIndexContour(index, settings)) {
+    return {
+      color: color.map((c) => Math.round(c * INDEX_DARKEN)) as RGB,
+      width: width * INDEX_WIDTH_SCALE,
+      dash: [],
+    };
+  }
+
+  return {
+    color,
+    width,
+    dash: DASH_PATTERNS[settings.dashStyle ?? 'solid'].map((length) => length * width),
+  };
+};
+
+// 値帯 band（0 = 最下位レベル未満、levels.length = 最上位レベル以上）の代表グレー。
+// 帯の上下端レベルの中点を使い、両端の帯は 0 / 255 までを範囲とみなす
+export const bandGray = (band: number, levels: number[]): number => {
+  const sorted = [...levels].sort((a, b) => a - b);
+  const lower = band === 0 ? 0 : sorted[band - 1] ?? 255;
+  const upper = band >= sorted.length ? 255 : sorted[band] ?? 255;
+  return Math.round((lower + upper) / 2);
+};
+
+// 値帯の塗り色。gray は帯の代表グレー、ランプは帯番号を 0..1 に割り付けて取る
+export const bandColor = (band: number, levels: number[], settings: ContourSettings): RGB => {
+  const palette = settings.bandPalette ?? 'gray';
+  if (palette === 'gray') {
+    const gray = bandGray(band, levels);
+    return [gray, gray, gray];
+  }
+  return sampleColorRamp(palette, levels.length > 0 ? band / levels.length : 0);
+};
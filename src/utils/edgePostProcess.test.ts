@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { EdgeMask } from '../types/CannyTypes';
+import { linkEdgeGaps, postProcessEdges, removeShortEdges, thinEdges } from './edgePostProcess';
+
+// '#' をエッジ画素とするマスク。行はすべて同じ長さにする
+const mask = (...rows: string[]): EdgeMask => ({
+  width: rows[0]!.length,
+  height: rows.length,
+  data: Uint8Array.from(rows.join(''), (char) => (char === '#' ? 1 : 0)),
+});
+
+const rows = ({ width, data }: EdgeMask): string[] =>
+  Array.from({ length: data.length / width }, (_, y) =>
+    Array.from(data.subarray(y * width, (y + 1) * width), (value) => (value ? '#' : '.')).join('')
+  );
+
+describe('thinEdges', () => {
+  it('thins a 3 px wide bar to a 1 px line', () => {
+    const bar = mask(
+      '......................',
+      '.####################.',
+      '.####################.',
+      '.####################.',
+      '......................'
+    );
+    const thinned = thinEdges(bar);
+    // 端の数画素を除き、どの列にもエッジ画素がちょうど 1 つ残る
+    for (let x = 3; x < bar.width - 3; x++) {
+      let count = 0;
+      for (let y = 0; y < bar.height; y++) count += thinned.data[y * bar.width + x]!;
+      expect(count).toBe(1);
+    }
+    // 入力のマスクは書き換えない
+    expect(bar.data.filter(Boolean)).toHaveLength(60);
+  });
+});
+
+describe('linkEdgeGaps', () => {
+  // 端点どうしの距離が 4 px の途切れ
+  const gapped = mask(
+    '...............',
+    '.#####...#####.',
+    '...............'
+  );
+
+  it('links endpoints of different edges within the distance', () => {
+    expect(rows(linkEdgeGaps(gapped, 4))[1]).toBe('.#############.');
+  });
+
+  it('leaves a gap wider than the distance', () => {
+    expect(rows(linkEdgeGaps(gapped, 3))).toEqual(rows(gapped));
+  });
+
+  it('does not close an open edge onto itself', () => {
+    const hook = mask(
+      '#####',
+      '#...#',
+      '#....',
+      '.....'
+    );
+    expect(rows(linkEdgeGaps(hook, 5))).toEqual(rows(hook));
+  });
+});
+
+describe('removeShortEdges', () => {
+  it('drops components with fewer pixels than the minimum length', () => {
+    const edges = mask(
+      '#####....',
+      '.......##',
+      '#........'
+    );
+    expect(rows(removeShortEdges(edges, 3))).toEqual([
+      '#####....',
+      '.........',
+      '.........',
+    ]);
+  });
+});
+
+describe('postProcessEdges', () => {
+  it('links before removing short edges, so a broken line survives', () => {
+    const broken = mask('###..###');
+    const processed = postProcessEdges(broken, { thinning: false, linkDistance: 3, minEdgeLength: 5 });
+    expect(rows(processed)).toEqual(['########']);
+    // 連結しなければ 3 px ずつの成分として消える
+    expect(rows(removeShortEdges(broken, 5))).toEqual(['........']);
+  });
+
+  it('returns the mask untouched when every step is off', () => {
+    const edges = mask('#.#');
+    expect(postProcessEdges(edges, { thinning: false, linkDistance: 0, minEdgeLength: 0 })).toBe(edges);
+  });
+});
@@ -0,0 +1,207 @@
+// 二値エッジマスクの後処理: 細線化・エッジ連結・短いエッジ除去。
+// マスクは width × height の Uint8Array で、エッジ画素が 1（EdgeMask と同じ形式）。
+
+import { EdgeMask } from '../types/CannyTypes';
+
+export interface EdgePostProcessOptions {
+  thinning: boolean;
+  linkDistance: number; // この距離 (px) 以内の端点同士を直線でつなぐ。0 なら無効
+  minEdgeLength: number; // 画素数がこれ未満の連結成分を消す。0 なら無効
+}
+
+// 8 近傍のオフセット。P2 (上) から時計回り（Zhang–Suen の表記順）
+const NEIGHBORS: ReadonlyArray<readonly [number, number]> = [
+  [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1],
+];
+
+/**
+ * Zhang–Suen 法による細線化。線の端点と連結性を保ったまま、幅 1 画素の骨格にする
+ */
+export const thinEdges = (mask: EdgeMask): EdgeMask => {
+  const { width, height } = mask;
+  const data = new Uint8Array(mask.data);
+  const at = (x: number, y: number): number =>
+    x < 0 || y < 0 || x >= width || y >= height ? 0 : data[y * width + x]!;
+  const toDelete: number[] = [];
+  const p = new Uint8Array(8);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let step = 0; step < 2; step++) {
+      toDelete.length = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (!data[y * width + x]) continue;
+
+          for (let k = 0; k < 8; k++) p[k] = at(x + NEIGHBORS[k]![0], y + NEIGHBORS[k]![1]);
+          // B: 近傍のエッジ数、A: P2→P3→…→P9→P2 の 0→1 遷移数
+          let b = 0;
+          let a = 0;
+          for (let k = 0; k < 8; k++) {
+            b += p[k]!;
+            if (!p[k] && p[(k + 1) % 8]) a++;
+          }
+          if (b < 2 || b > 6 || a !== 1) continue;
+
+          const p2 = p[0]!;
+          const p4 = p[2]!;
+          const p6 = p[4]!;
+          const p8 = p[6]!;
+          const removable = step === 0
+            ? p2 * p4 * p6 === 0 && p4 * p6 * p8 === 0
+            : p2 * p4 * p8 === 0 && p2 * p6 * p8 === 0;
+          if (removable) toDelete.push(y * width + x);
+        }
+      }
+      for (const index of toDelete) data[index] = 0;
+      if (toDelete.length > 0) changed = true;
+    }
+  }
+
+  return { width, height, data };
+};
+
+// 8 連結成分のラベル付け。labels は 0 = 背景、1.. = 成分番号。sizes[label] は画素数
+const labelComponents = (mask: EdgeMask): { labels: Int32Array; sizes: number[] } => {
+  const { width, height, data } = mask;
+  const labels = new Int32Array(width * height);
+  const sizes: number[] = [0];
+  const stack: number[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (!data[start] || labels[start]) continue;
+    const label = sizes.length;
+    let size = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      size++;
+      const x = index % width;
+      const y = (index - x) / width;
+      for (const [dx, dy] of NEIGHBORS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const next = ny * width + nx;
+        if (data[next] && !labels[next]) {
+          labels[next] = label;
+          stack.push(next);
+        }
+      }
+    }
+    sizes.push(size);
+  }
+
+  return { labels, sizes };
+};
+
+/** 画素数が minLength 未満の連結成分を取り除く */
+export const removeShortEdges = (mask: EdgeMask, minLength: number): EdgeMask => {
+  if (minLength <= 0) return mask;
+  const { labels, sizes } = labelComponents(mask);
+  const data = new Uint8Array(mask.data.length);
+  for (let i = 0; i < data.length; i++) {
+    if (labels[i] && sizes[labels[i]!]! >= minLength) data[i] = 1;
+  }
+  return { width: mask.width, height: mask.height, data };
+};
+
+// Bresenham で (x0, y0)-(x1, y1) を塗る
+const drawLine = (
+  data: Uint8Array,
+  width: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): void => {
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  let x = x0;
+  let y = y0;
+  for (;;) {
+    data[y * width + x] = 1;
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x += sx; }
+    if (e2 <= dx) { err += dx; y += sy; }
+  }
+};
+
+/**
+ * 途切れたエッジをつなぐ。端点（近傍のエッジがちょうど 1 つの画素）ごとに、
+ * maxDistance 以内にある別の成分の端点のうち最も近いものと直線で結ぶ。
+ * 同じ成分の端点同士は結ばない（開いた線を勝手に閉じないため）
+ */
+export const linkEdgeGaps = (mask: EdgeMask, maxDistance: number): EdgeMask => {
+  if (maxDistance <= 0) return mask;
+  const { width, height } = mask;
+  const data = new Uint8Array(mask.data);
+  const { labels } = labelComponents(mask);
+
+  const endpoints: number[] = [];
+  const isEndpoint = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (!data[index]) continue;
+      let neighbors = 0;
+      for (const [dx, dy] of NEIGHBORS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && ny >= 0 && nx < width && ny < height && data[ny * width + nx]) neighbors++;
+      }
+      if (neighbors === 1) {
+        endpoints.push(index);
+        isEndpoint[index] = 1;
+      }
+    }
+  }
+
+  const radius = Math.ceil(maxDistance);
+  const used = new Uint8Array(width * height);
+  for (const index of endpoints) {
+    if (used[index]) continue;
+    const x = index % width;
+    const y = (index - x) / width;
+
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let ny = Math.max(0, y - radius); ny <= Math.min(height - 1, y + radius); ny++) {
+      for (let nx = Math.max(0, x - radius); nx <= Math.min(width - 1, x + radius); nx++) {
+        const other = ny * width + nx;
+        if (!isEndpoint[other] || used[other] || labels[other] === labels[index]) continue;
+        const distance = Math.hypot(nx - x, ny - y);
+        if (distance <= maxDistance && distance < bestDistance) {
+          best = other;
+          bestDistance = distance;
+        }
+      }
+    }
+    if (best < 0) continue;
+
+    const bx = best % width;
+    drawLine(data, width, x, y, bx, (best - bx) / width);
+    used[index] = 1;
+    used[best] = 1;
+  }
+
+  return { width, height, data };
+};
+
+/**
+ * 後処理をまとめて適用する。連結してから短いエッジを除くので、
+ * 途切れていただけの線が短いと誤判定されて消えることはない
+ */
+export const postProcessEdges = (mask: EdgeMask, options: EdgePostProcessOptions): EdgeMask => {
+  let result = options.thinning ? thinEdges(mask) : mask;
+  result = linkEdgeGaps(result, options.linkDistance);
+  // 連結線は斜めの段差で太ることがあるので、細線化を有効にしていれば整え直す
+  if (options.thinning && options.linkDistance > 0) result = thinEdges(result);
+  return removeShortEdges(result, options.minEdgeLength);
+};
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { testImage } from '../test/images';
+import {
+  DEFAULT_FREQUENCY_SETTINGS,
+  FrequencyDecomposition,
+  FrequencyMixSettings,
+  frequencySplitSettings,
+} from '../types/FrequencyTypes';
+import { NEUTRAL_GRAY, blendInto } from './blendModes';
+import { canvasImageProcessor } from './canvasImageProcessor';
+import { createFrequencyMixer, downscaleDecomposition, mixFrequencies } from './frequencyMix';
+import { runImageJob } from './imageJobs';
+import { PROXY_MAX_SIZE } from './proxyImage';
+import { downscaleArea } from './resample';
+import { PixelImage } from './tiling';
+
+const image = testImage(40, 32);
+
+const decompose = async (
+  source: PixelImage,
+  mode: 'split' | 'pyramid',
+  channels: 'rgb' | 'luminance'
+): Promise<FrequencyDecomposition> => {
+  const settings = frequencySplitSettings({ ...DEFAULT_FREQUENCY_SETTINGS, mode, channels, blurRadius: 3 });
+  const result = await runImageJob(
+    canvasImageProcessor,
+    { kind: mode === 'pyramid' ? 'frequencyPyramid' : 'frequencySplit', settings },
+    source
+  );
+  if (result.kind !== 'frequency') throw new Error(`unexpected ${result.kind} result`);
+  const { lowFrequency, lowExact, residuals } = result.layers;
+  return { mode, lowFrequency: new ImageData(lowFrequency, source.width, source.height), lowExact, residuals };
+};
+
+const UNIT_MIX: FrequencyMixSettings = {
+  brightIntensity: 1,
+  darkIntensity: 1,
+  bandGains: DEFAULT_FREQUENCY_SETTINGS.bandGains,
+};
+
+// 切り詰める前の低域（あれば）を RGBA の浮動小数にする
+const lowPixels = ({ lowFrequency, lowExact }: FrequencyDecomposition): Float32Array => {
+  const pixels = Float32Array.from(lowFrequency.data);
+  if (lowExact) {
+    for (let i = 0, p = 0; i < pixels.length; i += 4, p += 3) {
+      for (let c = 0; c < 3; c++) pixels[i + c] = lowExact[p + c]!;
+    }
+  }
+  return pixels;
+};
+
+// 低域に、NEUTRAL_GRAY を中心にした高域の画素を Linear Light で重ねる
+const linearLightOntoLow = (decomposition: FrequencyDecomposition, layer: ArrayLike<number>): Float32Array => {
+  const base = lowPixels(decomposition);
+  blendInto(base, layer, 'linearLight');
+  return base;
+};
+
+const maxRgbError = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  let error = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (let c = 0; c < 3; c++) error = Math.max(error, Math.abs(a[i + c]! - b[i + c]!));
+  }
+  return error;
+};
+
+describe('neutral offset round trip', () => {
+  it.each(['rgb', 'luminance'] as const)(
+    'split (%s): NEUTRAL_GRAY + detail / 2 in linear light over the low restores the image',
+    async (channels) => {
+      const decomposition = await decompose(image, 'split', channels);
+      const { residuals, highFrequencyCombined } = mixFrequencies(decomposition, UNIT_MIX);
+
+      // 丸めていない差から作った画素なら正確に戻る
+      const exact = new Float32Array(image.data.length);
+      for (let i = 0, p = 0; i < exact.length; i += 4, p += 3) {
+        for (let c = 0; c < 3; c++) exact[i + c] = NEUTRAL_GRAY + residuals[0]![p + c]! / 2;
+        exact[i + 3] = 255;
+      }
+      expect(maxRgbError(linearLightOntoLow(decomposition, exact), image.data)).toBeLessThan(1e-3);
+
+      // 8bit の表示用画像は差を半分にして丸めているので、戻すと 1 以内の誤差になる
+      expect(maxRgbError(linearLightOntoLow(decomposition, highFrequencyCombined!.data), image.data)).toBeLessThanOrEqual(1);
+    }
+  );
+
+  it('split: a detail of zero is displayed as NEUTRAL_GRAY', async () => {
+    const flat = { width: 8, height: 8, data: new Uint8ClampedArray(256).fill(90) };
+    const { highFrequencyBright, highFrequencyDark, highFrequencyCombined } = mixFrequencies(
+      await decompose(flat, 'split', 'rgb'),
+      UNIT_MIX
+    );
+    for (const layer of [highFrequencyBright!, highFrequencyDark!, highFrequencyCombined!]) {
+      for (let i = 0; i < layer.data.length; i += 4) {
+        expect([layer.data[i], layer.data[i + 1], layer.data[i + 2]]).toEqual([NEUTRAL_GRAY, NEUTRAL_GRAY, NEUTRAL_GRAY]);
+      }
+    }
+  });
+
+  it('split: bright and dark intensities scale the positive and negative residuals', async () => {
+    const decomposition = await decompose(image, 'split', 'rgb');
+    const settings = { ...UNIT_MIX, brightIntensity: 2, darkIntensity: 0 };
+    const { highFrequencyCombined, residuals, mix } = mixFrequencies(decomposition, settings);
+    // 差はそのまま渡し、強さは合成するときに掛ける
+    expect(residuals).toBe(decomposition.residuals);
+    expect(mix).toEqual(settings);
+    const residual = residuals[0]!;
+    for (let i = 0, p = 0; i < image.data.length; i += 4, p += 3) {
+      for (let c = 0; c < 3; c++) {
+        const diff = residual[p + c]!;
+        expect(highFrequencyCombined!.data[i + c]).toBe(Math.min(255, NEUTRAL_GRAY + (diff >= 0 ? diff : 0)));
+      }
+    }
+  });
+
+  it.each(['rgb', 'luminance'] as const)('pyramid (%s): unit gains recombine to the image', async (channels) => {
+    const { reconstruction, bands } = mixFrequencies(await decompose(image, 'pyramid', channels), UNIT_MIX);
+    expect(bands).toHaveLength(DEFAULT_FREQUENCY_SETTINGS.bandCount - 1);
+    expect(maxRgbError(reconstruction!.data, image.data)).toBe(0);
+  });
+
+  it('pyramid: a muted band is left out of the recombined image', async () => {
+    const decomposition = await decompose(image, 'pyramid', 'rgb');
+    const gains = [0, ...UNIT_MIX.bandGains.slice(1)];
+    const { reconstruction, bands } = mixFrequencies(decomposition, { ...UNIT_MIX, bandGains: gains });
+    expect(bands[0]!.data.every((value, i) => i % 4 === 3 || value === NEUTRAL_GRAY)).toBe(true);
+
+    const expected = Float32Array.from(image.data);
+    for (let i = 0, p = 0; i < expected.length; i += 4, p += 3) {
+      for (let c = 0; c < 3; c++) expected[i + c] = expected[i + c]! - decomposition.residuals[0]![p + c]!;
+    }
+    expect(maxRgbError(reconstruction!.data, expected)).toBe(0);
+  });
+});
+
+describe('alpha', () => {
+  // 左半分を透明にした画像
+  const translucent: PixelImage = {
+    ...image,
+    data: image.data.map((value, i) => (i % 4 === 3 && (i >> 2) % image.width < image.width / 2 ? 0 : value)),
+  };
+
+  it.each(['split', 'pyramid'] as const)('%s: the layers keep the alpha of the low band as-is', async (mode) => {
+    const decomposition = await decompose(translucent, mode, 'rgb');
+    const alpha = decomposition.lowFrequency.data;
+    const mixed = mixFrequencies(decomposition, UNIT_MIX);
+    const { highFrequencyBright, highFrequencyDark, highFrequencyCombined, reconstruction, bands } = mixed;
+    const layers = [highFrequencyBright, highFrequencyDark, highFrequencyCombined, reconstruction, ...bands];
+    for (const layer of layers) {
+      if (!layer) continue;
+      for (let i = 3; i < layer.data.length; i += 4) expect(layer.data[i]).toBe(alpha[i]);
+    }
+    // 透明な画素は透明なまま（不透明にしない）
+    expect(layers.some((layer) => layer?.data[3] === 0)).toBe(true);
+  });
+});
+
+describe('createFrequencyMixer', () => {
+  it('returns the same layers as mixFrequencies while reusing the pixel buffers', async () => {
+    const decomposition = await decompose(image, 'pyramid', 'rgb');
+    const mixer = createFrequencyMixer();
+    const first = mixer(decomposition, { ...UNIT_MIX, bandGains: [2, 1, 1, 1, 1] });
+    const firstBuffer = first.reconstruction!.data.buffer;
+    const second = mixer(decomposition, UNIT_MIX);
+
+    expect(second.reconstruction).not.toBe(first.reconstruction);
+    expect(second.reconstruction!.data.buffer).toBe(firstBuffer);
+    const fresh = mixFrequencies(decomposition, UNIT_MIX);
+    expect(Array.from(second.reconstruction!.data)).toEqual(Array.from(fresh.reconstruction!.data));
+    expect(second.bands.map((band) => Array.from(band.data))).toEqual(fresh.bands.map((band) => Array.from(band.data)));
+  });
+});
+
+describe('downscaleDecomposition', () => {
+  it('returns a small decomposition unchanged', async () => {
+    const decomposition = await decompose(image, 'split', 'rgb');
+    expect(downscaleDecomposition(decomposition)).toBe(decomposition);
+  });
+
+  it.each(['rgb', 'luminance'] as const)(
+    'shrinks the long side to PROXY_MAX_SIZE and still sums to the shrunk image (%s)',
+    async (channels) => {
+      const large = testImage(PROXY_MAX_SIZE + 300, 60);
+      const decomposition = await decompose(large, 'pyramid', channels);
+      const proxy = downscaleDecomposition(decomposition);
+      const { width, height } = proxy.lowFrequency;
+      expect(width).toBe(PROXY_MAX_SIZE);
+      expect(height).toBe(Math.round((60 * PROXY_MAX_SIZE) / (PROXY_MAX_SIZE + 300)));
+
+      const sum = lowPixels(proxy);
+      for (const residual of proxy.residuals) {
+        for (let i = 0, p = 0; i < sum.length; i += 4, p += 3) {
+          for (let c = 0; c < 3; c++) sum[i + c] = sum[i + c]! + residual[p + c]!;
+        }
+      }
+      const shrunk = downscaleArea(large, width, height, new Float32Array(width * height * 4));
+      // rgb の低域は 8bit に丸めて縮めるので、その分だけずれる
+      expect(maxRgbError(sum, shrunk)).toBeLessThanOrEqual(channels === 'rgb' ? 0.501 : 1e-3);
+    }
+  );
+});
@@ -0,0 +1,187 @@
+// 周波数分離の低域と差（強さを掛ける前）から、表示用の高域レイヤーと再構成を作る。
+// 低域フィルタは通さないので、明暗・帯域の強さを変えたときはここだけをメインスレッドでやり直す。
+// 合成用の差には強さを掛けず、描画するときに掛ける（強さ × 差 の配列は作らない）。
+// スライダーをドラッグしている間は縮小した分解から、前回の出力の配列を上書きして混ぜ直す。
+
+import { FrequencyData, FrequencyDecomposition, FrequencyMixSettings, RgbPlane } from '../types/FrequencyTypes';
+import { NEUTRAL_GRAY } from './blendModes';
+import { PROXY_MAX_SIZE } from './proxyImage';
+import { downscaleArea } from './resample';
+
+// 出力の画像を用意する。name ごとに前回と同じ配列を返すと、その中身を上書きして使い回す
+interface MixBuffers {
+  image(name: string, width: number, height: number): ImageData;
+}
+
+const freshBuffers: MixBuffers = {
+  image: (_name, width, height) => new ImageData(width, height),
+};
+
+const mixSettings = ({ brightIntensity, darkIntensity, bandGains }: FrequencyMixSettings): FrequencyMixSettings => ({
+  brightIntensity,
+  darkIntensity,
+  bandGains,
+});
+
+// 2 分割: 差の正の部分に Bright、負の部分に Dark の強さを掛ける
+const mixSplit = (
+  decomposition: FrequencyDecomposition,
+  settings: FrequencyMixSettings,
+  buffers: MixBuffers
+): FrequencyData => {
+  const { lowFrequency, residuals } = decomposition;
+  const { width, height } = lowFrequency;
+  const residual = residuals[0]!;
+  const alpha = lowFrequency.data;
+
+  // Create high frequency components（表示用の 8bit 画像）
+  const highFrequencyBright = buffers.image('bright', width, height);
+  const highFrequencyDark = buffers.image('dark', width, height);
+  const highFrequencyCombined = buffers.image('combined', width, height);
+  const bright = highFrequencyBright.data;
+  const dark = highFrequencyDark.data;
+  const combined = highFrequencyCombined.data;
+
+  for (let i = 0, p = 0; i < alpha.length; i += 4, p += 3) {
+    for (let c = 0; c < 3; c++) {
+      const diff = residual[p + c]!;
+
+      // Bright high frequency (表示用: 128 + 明るい部分/2 * intensity)
+      bright[i + c] = Math.round(Math.min(255, NEUTRAL_GRAY + Math.max(0, diff) * settings.brightIntensity / 2));
+      // Dark high frequency (表示用: 128 - 暗い部分/2 * intensity)
+      dark[i + c] = Math.round(Math.max(0, NEUTRAL_GRAY - Math.max(0, -diff) * settings.darkIntensity / 2));
+      // Combined high frequency (表示用: 128 + diff/2 * intensity)
+      // Apply intensity based on whether the difference is positive (bright) or negative (dark)
+      const weighted = diff * (diff >= 0 ? settings.brightIntensity : settings.darkIntensity);
+      combined[i + c] = Math.round(Math.max(0, Math.min(255, NEUTRAL_GRAY + weighted / 2)));
+    }
+    bright[i + 3] = dark[i + 3] = combined[i + 3] = alpha[i + 3]!;
+  }
+
+  return {
+    lowFrequency,
+    lowExact: decomposition.lowExact,
+    highFrequencyBright,
+    highFrequencyDark,
+    highFrequencyCombined,
+    bands: [],
+    residuals,
+    mix: mixSettings(settings),
+    reconstruction: null,
+  };
+};
+
+// 多帯域: 帯域ごとの強さを掛け、低域 + Σ 強さ × 帯域 を再構成として作る。強さがすべて 1 なら元画像と一致する
+const mixPyramid = (
+  decomposition: FrequencyDecomposition,
+  settings: FrequencyMixSettings,
+  buffers: MixBuffers
+): FrequencyData => {
+  const { lowFrequency, lowExact, residuals } = decomposition;
+  const { width, height } = lowFrequency;
+  const alpha = lowFrequency.data;
+  const gains = residuals.map((_, level) => settings.bandGains[level] ?? 1);
+
+  const bands = residuals.map((residual, level) => {
+    const band = buffers.image(`band${level}`, width, height);
+    for (let i = 0, p = 0; i < alpha.length; i += 4, p += 3) {
+      for (let c = 0; c < 3; c++) {
+        // 表示用: 128 + 強さ × 差 / 2（2 分割の High と同じ表し方）
+        band.data[i + c] = Math.round(NEUTRAL_GRAY + (residual[p + c]! * gains[level]!) / 2);
+      }
+      band.data[i + 3] = alpha[i + 3]!;
+    }
+    return band;
+  });
+
+  // 画素ごとに 低域 + Σ 強さ × 差 を足す
+  const reconstruction = buffers.image('reconstruction', width, height);
+  const out = reconstruction.data;
+  for (let i = 0, p = 0; i < out.length; i += 4, p += 3) {
+    for (let c = 0; c < 3; c++) {
+      let value = lowExact ? lowExact[p + c]! : alpha[i + c]!;
+      for (let level = 0; level < residuals.length; level++) {
+        value += residuals[level]![p + c]! * gains[level]!;
+      }
+      out[i + c] = Math.round(value);
+    }
+    out[i + 3] = alpha[i + 3]!;
+  }
+
+  return {
+    lowFrequency,
+    lowExact,
+    highFrequencyBright: null,
+    highFrequencyDark: null,
+    highFrequencyCombined: null,
+    bands,
+    residuals,
+    mix: mixSettings(settings),
+    reconstruction,
+  };
+};
+
+const mix = (
+  decomposition: FrequencyDecomposition,
+  settings: FrequencyMixSettings,
+  buffers: MixBuffers
+): FrequencyData =>
+  decomposition.mode === 'pyramid'
+    ? mixPyramid(decomposition, settings, buffers)
+    : mixSplit(decomposition, settings, buffers);
+
+/** 低域と差に強さを掛けて、表示・合成用の周波数レイヤーを作る */
+export const mixFrequencies = (
+  decomposition: FrequencyDecomposition,
+  settings: FrequencyMixSettings
+): FrequencyData => mix(decomposition, settings, freshBuffers);
+
+export type FrequencyMixer = (decomposition: FrequencyDecomposition, settings: FrequencyMixSettings) => FrequencyData;
+
+/**
+ * ドラッグ中に何度も混ぜ直すための mixFrequencies。画素の配列は前回のものを上書きして使い回し、
+ * 包む ImageData だけを毎回作り直す（描画側のキャッシュは ImageData ごとなので、古い表示が残らない）。
+ * 前に返した結果の中身も書き換わるので、次に混ぜ直すまでの表示にだけ使う
+ */
+export const createFrequencyMixer = (): FrequencyMixer => {
+  const pixels = new Map<string, Uint8ClampedArray>();
+
+  // 同じ名前・同じ大きさの配列が前回あればそれを使う
+  const buffers: MixBuffers = {
+    image: (name, width, height) => {
+      let array = pixels.get(name);
+      if (!array || array.length !== width * height * 4) {
+        array = new Uint8ClampedArray(width * height * 4);
+        pixels.set(name, array);
+      }
+      return new ImageData(array, width, height);
+    },
+  };
+
+  return (decomposition, settings) => mix(decomposition, settings, buffers);
+};
+
+/** ドラッグ中に混ぜ直す、長辺を PROXY_MAX_SIZE に縮めた分解。元から小さければそのまま返す */
+export const downscaleDecomposition = (decomposition: FrequencyDecomposition): FrequencyDecomposition => {
+  const { lowFrequency, lowExact, residuals } = decomposition;
+  const { width, height } = lowFrequency;
+  if (Math.max(width, height) <= PROXY_MAX_SIZE) return decomposition;
+
+  const scale = PROXY_MAX_SIZE / Math.max(width, height);
+  const proxyWidth = Math.max(1, Math.round(width * scale));
+  const proxyHeight = Math.max(1, Math.round(height * scale));
+  // 差は線形に縮めるので、縮めた低域と足すと縮めた元画像になる
+  const shrink = (data: RgbPlane) =>
+    downscaleArea({ width, height, data }, proxyWidth, proxyHeight, new Float32Array(proxyWidth * proxyHeight * 3), 3);
+
+  return {
+    mode: decomposition.mode,
+    lowFrequency: new ImageData(
+      downscaleArea(lowFrequency, proxyWidth, proxyHeight, new Uint8ClampedArray(proxyWidth * proxyHeight * 4)),
+      proxyWidth,
+      proxyHeight
+    ),
+    lowExact: lowExact && shrink(lowExact),
+    residuals: residuals.map(shrink),
+  };
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { testImage } from '../test/images';
+import { DEFAULT_FREQUENCY_SETTINGS, FrequencySettings, frequencySplitSettings } from '../types/FrequencyTypes';
+import { isAbortError } from '../types/JobTypes';
+import { canvasImageProcessor } from './canvasImageProcessor';
+import { ImageProcessor } from './ImageProcessor';
+import { FrequencyLayers, runImageJob } from './imageJobs';
+import { PixelImage } from './tiling';
+
+const decompose = async (image: PixelImage, settings: Partial<FrequencySettings>): Promise<FrequencyLayers> => {
+  const split = frequencySplitSettings({ ...DEFAULT_FREQUENCY_SETTINGS, blurRadius: 3, ...settings });
+  const result = await runImageJob(
+    canvasImageProcessor,
+    { kind: split.mode === 'pyramid' ? 'frequencyPyramid' : 'frequencySplit', settings: split },
+    image
+  );
+  if (result.kind !== 'frequency') throw new Error(`unexpected ${result.kind} result`);
+  return result.layers;
+};
+
+// 低域（切り詰める前のものがあればそちら）+ Σ 差 と元画像の RGB の最大誤差
+const reconstructionError = (image: PixelImage, { lowFrequency, lowExact, residuals }: FrequencyLayers): number => {
+  let error = 0;
+  for (let i = 0, p = 0; i < image.data.length; i += 4, p += 3) {
+    for (let c = 0; c < 3; c++) {
+      const low = lowExact ? lowExact[p + c]! : lowFrequency[i + c]!;
+      const sum = residuals.reduce((total, residual) => total + residual[p + c]!, low);
+      error = Math.max(error, Math.abs(sum - image.data[i + c]!));
+    }
+  }
+  return error;
+};
+
+// 差が 3 チャンネルとも同じ値（色のない高域）か
+const isGray = (residual: Int16Array): boolean => {
+  for (let i = 0; i < residual.length; i += 3) {
+    if (residual[i] !== residual[i + 1] || residual[i] !== residual[i + 2]) return false;
+  }
+  return true;
+};
+
+describe('frequency separation round trip', () => {
+  const image = testImage(48, 40);
+
+  it.each(['gaussian', 'median'] as const)('split (rgb, %s): low + residual restores the image', async (filterMethod) => {
+    const layers = await decompose(image, { mode: 'split', channels: 'rgb', filterMethod });
+    expect(layers.lowExact).toBeNull();
+    expect(layers.residuals).toHaveLength(1);
+    expect(reconstructionError(image, layers)).toBe(0);
+  });
+
+  it('split (luminance): the exact low + gray residual restores the image', async () => {
+    const layers = await decompose(image, { mode: 'split', channels: 'luminance' });
+    expect(layers.lowExact).not.toBeNull();
+    expect(isGray(layers.residuals[0]!)).toBe(true);
+    expect(reconstructionError(image, layers)).toBe(0);
+  });
+
+  it.each(['rgb', 'luminance'] as const)('pyramid (%s): low + every band restores the image', async (channels) => {
+    const layers = await decompose(image, { mode: 'pyramid', channels, bandCount: 4 });
+    expect(layers.residuals).toHaveLength(3);
+    expect(reconstructionError(image, layers)).toBe(0);
+    if (channels === 'luminance') expect(layers.residuals.every(isGray)).toBe(true);
+  });
+
+  it.each(['split', 'pyramid'] as const)('%s: residuals are whole-number RGB without alpha', async (mode) => {
+    const layers = await decompose(image, { mode, channels: 'luminance' });
+    for (const plane of [layers.lowExact!, ...layers.residuals]) {
+      expect(plane).toBeInstanceOf(Int16Array);
+      expect(plane).toHaveLength(image.width * image.height * 3);
+    }
+  });
+
+  it('pyramid bands get coarser with each level', async () => {
+    const { residuals } = await decompose(image, { mode: 'pyramid', channels: 'rgb', bandCount: 4 });
+    // 細かい帯域ほど隣の画素との差（高い周波数の成分）が大きい
+    const roughness = (residual: Int16Array) => {
+      let sum = 0;
+      for (let i = 3; i < residual.length; i += 3) sum += Math.abs(residual[i]! - residual[i - 3]!);
+      return sum;
+    };
+    const [fine, middle, coarse] = residuals.map(roughness);
+    expect(fine).toBeGreaterThan(middle!);
+    expect(middle).toBeGreaterThan(coarse!);
+  });
+});
+
+describe('cancellation', () => {
+  const image = testImage(48, 40);
+  const settings = frequencySplitSettings({
+    ...DEFAULT_FREQUENCY_SETTINGS,
+    mode: 'pyramid',
+    filterMethod: 'median',
+    blurRadius: 2,
+    bandCount: 4,
+  });
+
+  it('stops before the next pass once the signal is aborted', async () => {
+    const controller = new AbortController();
+    let passes = 0;
+    const processor: ImageProcessor = {
+      ...canvasImageProcessor,
+      median: (...args) => {
+        passes++;
+        controller.abort();
+        return canvasImageProcessor.median(...args);
+      },
+    };
+    const running = runImageJob(processor, { kind: 'frequencyPyramid', settings }, image, undefined, controller.signal);
+    await expect(running).rejects.toSatisfy(isAbortError);
+    expect(passes).toBe(1);
+  });
+
+  it('does not start a job whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const running = runImageJob(canvasImageProcessor, { kind: 'median', radius: 2 }, image, undefined, controller.signal);
+    await expect(running).rejects.toSatisfy(isAbortError);
+  });
+});
+
+describe('edge post-processing job', () => {
+  it('reads the input image as a one-byte-per-pixel mask', async () => {
+    const edges = { width: 8, height: 1, data: Uint8Array.from([1, 1, 1, 0, 0, 1, 1, 1]) };
+    const settings = { thinning: false, linkDistance: 3, minEdgeLength: 0 };
+    const image = { width: 8, height: 1, data: new Uint8ClampedArray(edges.data.buffer) };
+    const result = await runImageJob(canvasImageProcessor, { kind: 'edgePostProcess', settings }, image);
+    expect(result).toEqual({ kind: 'mask', edges: { width: 8, height: 1, data: new Uint8Array(8).fill(1) } });
+  });
+});
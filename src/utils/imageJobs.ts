@@ -0,0 +1,382 @@
+// 重い画像処理ジョブ（フィルタ・ノイズ除去・周波数分離・Canny エッジ検出とその後処理）の実装。
+// フィルタ本体は ImageProcessor（OpenCV.js 版か純 TypeScript 版）に任せ、ここではタイル分割と進捗の配分を行う。
+// DOM（canvas / imshow）に依存しないので、画像処理 Worker とメインスレッドの両方から呼べる。
+// 進捗は段階名とジョブ全体に対する % で報告する。
+// タイル・段の合間で一度イベントループに戻り、その間に abort されていれば AbortError で止める。
+
+import { CannyDetectionSettings, EdgeDetection, EdgeMask } from '../types/CannyTypes';
+import { FrequencySplitSettings } from '../types/FrequencyTypes';
+import { JobProgressCallback, createAbortError, isAbortError } from '../types/JobTypes';
+import { NoiseReductionSettings } from '../types/NoiseReductionTypes';
+import { createGaussianKernel, gaussianBlurPixels } from './canvasImageProcessor';
+import { EdgePostProcessOptions, postProcessEdges } from './edgePostProcess';
+import { ImageProcessor, StepProgress, radiusToKernelSize } from './ImageProcessor';
+import { createLuminanceFunction } from './luminance';
+import { halveImage, resizeBilinear } from './resample';
+import { PixelImage, processTiled } from './tiling';
+
+export type FilterJob =
+  | { kind: 'median'; radius: number }
+  | { kind: 'gaussian'; radius: number }
+  | { kind: 'bilateral'; radius: number; sigmaColor: number; sigmaSpace: number }
+  | { kind: 'guided'; radius: number; strength: number }
+  | { kind: 'ycrcbDenoise'; settings: NoiseReductionSettings };
+
+export type ImageJob =
+  | FilterJob
+  | { kind: 'frequencySplit'; settings: FrequencySplitSettings }
+  | { kind: 'frequencyPyramid'; settings: FrequencySplitSettings }
+  | { kind: 'canny'; settings: CannyDetectionSettings }
+  // 入力画像はエッジマスク（1 画素 1 バイト、エッジ画素が 1）
+  | { kind: 'edgePostProcess'; settings: EdgePostProcessOptions };
+
+// 周波数分離の結果。強さを掛ける前の差だけを返し、表示用のレイヤーは frequencyMix で作る
+export interface FrequencyLayers {
+  lowFrequency: Uint8ClampedArray; // pyramid では最も粗い低域
+  // luminance のときの切り詰める前の低域（色を戻すと 0..255 を超えることがある）。rgb では lowFrequency が正確なので null
+  lowExact: Int16Array | null;
+  // 符号付きの差（元画像 - 低域）。8bit に丸めないので低域と足すと元に戻る。pyramid では細かい順の帯域。
+  // どちらも A を持たない RGB（RgbPlane）で、8bit の値どうしの差なので整数
+  residuals: Int16Array[];
+}
+
+export type ImageJobResult =
+  | { kind: 'image'; pixels: Uint8ClampedArray }
+  | { kind: 'frequency'; layers: FrequencyLayers }
+  | { kind: 'edges'; detection: EdgeDetection }
+  | { kind: 'mask'; edges: EdgeMask };
+
+const FILTER_NAMES: Record<FilterJob['kind'], string> = {
+  median: 'Median filter',
+  gaussian: 'Gaussian filter',
+  bilateral: 'Bilateral filter',
+  guided: 'Guided filter',
+  ycrcbDenoise: 'Noise reduction',
+};
+
+// ジョブ全体のうち from〜to(%) を受け持つ区間。入れ子の処理（周波数分離の低域など）は区間を分割して渡す
+interface ProgressRange {
+  report?: JobProgressCallback;
+  signal?: AbortSignal;
+  from: number;
+  to: number;
+}
+
+const subRange = (range: ProgressRange, from: number, to: number): ProgressRange => ({
+  report: range.report,
+  signal: range.signal,
+  from: range.from + (range.to - range.from) * from,
+  to: range.from + (range.to - range.from) * to,
+});
+
+// 区間内の進捗（0..1）を段階名付きで報告する関数を作る
+const stageReporter = (range: ProgressRange, stage: string) => (fraction: number): void => {
+  range.report?.({ stage, percent: range.from + (range.to - range.from) * Math.max(0, Math.min(1, fraction)) });
+};
+
+/** 出力画素が参照する近傍の半径。タイル分割時の重なり幅になる */
+export const filterMargin = (job: FilterJob): number => {
+  switch (job.kind) {
+    case 'median':
+    case 'gaussian':
+      return (radiusToKernelSize(job.radius) - 1) / 2;
+    case 'bilateral':
+      return Math.max(1, Math.round(job.radius));
+    case 'guided':
+      // 平均 a, b を求める box と、それをもう一度平均する box の 2 段分
+      return Math.max(1, Math.round(job.radius)) * 2;
+    case 'ycrcbDenoise':
+      // バイラテラル（直径 radius*2+1）と Detail 用の 5x5 ガウシアン
+      return Math.max(job.settings.radius, 2);
+  }
+};
+
+// タイル・段を始める前に呼ぶ。Worker は処理中メッセージを受け取れないので、ここで溜まったキャンセル要求を受け取る
+const checkpoint = async ({ signal }: ProgressRange): Promise<void> => {
+  if (!signal) return;
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  if (signal.aborted) throw createAbortError();
+};
+
+// 段階名の後ろに ImageProcessor が報告する段階の補足（チャンネル名など）を付ける
+const stepReporter = (range: ProgressRange, stage: string): StepProgress => (fraction, step) =>
+  stageReporter(range, step ? `${stage} · ${step}` : stage)(fraction);
+
+// タイル（分割しないときは画像全体）1 枚分のフィルタ処理
+const filterTile = (
+  processor: ImageProcessor,
+  job: FilterJob,
+  image: PixelImage,
+  range: ProgressRange
+): Uint8ClampedArray => {
+  const report = stepReporter(range, FILTER_NAMES[job.kind]);
+  switch (job.kind) {
+    case 'median':
+      return processor.median(image, job.radius, report);
+    case 'gaussian':
+      return processor.gaussian(image, job.radius, report);
+    case 'bilateral':
+      return processor.bilateral(image, job.radius, job.sigmaColor, job.sigmaSpace, report);
+    case 'guided':
+      return processor.guided(image, job.radius, job.strength, report);
+    case 'ycrcbDenoise':
+      return processor.ycrcbDenoise(image, job.settings, report);
+  }
+};
+
+// 分割したときは段階名にタイル番号を付け、進捗区間をタイル数で等分する
+const tileRange = (range: ProgressRange, index: number, count: number): ProgressRange => {
+  if (count === 1) return range;
+  const { from, to } = subRange(range, index / count, (index + 1) / count);
+  return {
+    from,
+    to,
+    signal: range.signal,
+    report: range.report && ((progress) => range.report!({ ...progress, stage: `${progress.stage} · tile ${index + 1}/${count}` })),
+  };
+};
+
+// 大きな画像は重なり付きのタイルに分けて処理する（全体を 1 枚の Mat にすると WASM ヒープが足りなくなる）
+const runFilterJob = async (
+  processor: ImageProcessor,
+  job: FilterJob,
+  image: PixelImage,
+  range: ProgressRange
+): Promise<Uint8ClampedArray> => {
+  try {
+    return await processTiled(image, filterMargin(job), async (tile, index, count) => {
+      await checkpoint(range);
+      return filterTile(processor, job, tile, tileRange(range, index, count));
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new Error(`${FILTER_NAMES[job.kind]} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+const lowPass = async (
+  processor: ImageProcessor,
+  image: PixelImage,
+  settings: FrequencySplitSettings,
+  range: ProgressRange
+): Promise<Uint8ClampedArray> => {
+  if (settings.filterMethod === 'gaussian') {
+    // 周波数分離のガウシアン低域はエンジンに依らず純 JS の分離型畳み込み（端は複製、σ = r/3）。
+    // カーネル半径は ceil(2r)。作業用の全画面バッファを持たないようタイルに分ける
+    const kernel = createGaussianKernel(Math.ceil(settings.blurRadius * 2) * 2 + 1, settings.blurRadius / 3);
+    return processTiled(image, Math.ceil(settings.blurRadius * 2), async (tile, index, count) => {
+      await checkpoint(range);
+      return gaussianBlurPixels(tile, kernel, stepReporter(tileRange(range, index, count), 'Gaussian blur'));
+    });
+  }
+  switch (settings.filterMethod) {
+    case 'median':
+      return runFilterJob(processor, { kind: 'median', radius: settings.blurRadius }, image, range);
+    case 'bilateral':
+      return runFilterJob(processor, {
+        kind: 'bilateral',
+        radius: settings.blurRadius,
+        sigmaColor: settings.bilateralSigmaColor,
+        sigmaSpace: Math.max(1, settings.blurRadius * 2),
+      }, image, range);
+    case 'guided':
+      return runFilterJob(processor, {
+        kind: 'guided',
+        radius: settings.blurRadius,
+        strength: settings.guidedStrength,
+      }, image, range);
+  }
+};
+
+// 低域フィルタが処理時間の大半を占めるので、進捗の 90% を低域、残りを高周波の計算に割り当てる
+// YCrCb の Y（BT.601）。ノイズ除去の輝度チャンネルと同じ重み
+const ycrcbLuma = createLuminanceFunction('bt601');
+
+// 輝度だけを分けるときに低域フィルタへ通す画像。R = G = B = Y（整数に丸める）なので、
+// 差を取ると 3 チャンネルが同じ値、つまり色のないグレーの高域になる
+const luminanceImage = (image: PixelImage): PixelImage => {
+  const { data, width, height } = image;
+  const luma = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    luma[i] = luma[i + 1] = luma[i + 2] = ycrcbLuma(data[i]!, data[i + 1]!, data[i + 2]!);
+    luma[i + 3] = data[i + 3]!;
+  }
+  return { data: luma, width, height };
+};
+
+// 輝度の低域に元画像の色を戻す: 低域 = 元画像 - (Y - 低域の Y)。色（Cr/Cb）はすべて低域に残る。
+// 高域は Y の差だけ（グレー）のままにし、0..255 に収まらない分は切り詰める前の低域（lowExact）に残す
+const restoreColor = (
+  original: Uint8ClampedArray,
+  luma: Uint8ClampedArray,
+  lumaLow: Uint8ClampedArray
+): Pick<FrequencyLayers, 'lowFrequency' | 'lowExact'> => {
+  const lowFrequency = new Uint8ClampedArray(original.length);
+  const lowExact = new Int16Array((original.length / 4) * 3);
+  for (let i = 0, p = 0; i < original.length; i += 4, p += 3) {
+    const texture = luma[i]! - lumaLow[i]!;
+    for (let c = 0; c < 3; c++) {
+      lowExact[p + c] = original[i + c]! - texture;
+      lowFrequency[i + c] = lowExact[p + c]!;
+    }
+    lowFrequency[i + 3] = original[i + 3]!;
+  }
+  return { lowFrequency, lowExact };
+};
+
+// RGBA の 2 枚の差 a - b を、A を除いた RGB で返す
+const rgbDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): Int16Array => {
+  const difference = new Int16Array((a.length / 4) * 3);
+  for (let i = 0, p = 0; i < a.length; i += 4, p += 3) {
+    for (let c = 0; c < 3; c++) {
+      difference[p + c] = a[i + c]! - b[i + c]!;
+    }
+  }
+  return difference;
+};
+
+const splitFrequencies = async (
+  processor: ImageProcessor,
+  image: PixelImage,
+  settings: FrequencySplitSettings,
+  range: ProgressRange
+): Promise<FrequencyLayers> => {
+  // luminance のときは Y だけを分け、差はグレー（3 チャンネル同じ値）になる
+  const source = settings.channels === 'luminance' ? luminanceImage(image) : image;
+  const low = await lowPass(processor, source, settings, subRange(range, 0, 0.9));
+  stageReporter(subRange(range, 0.9, 1), 'High-pass')(0);
+  const original = source.data;
+
+  const residual = rgbDifference(original, low);
+
+  const lowBand = source === image ? { lowFrequency: low, lowExact: null } : restoreColor(image.data, original, low);
+  return { ...lowBand, residuals: [residual] };
+};
+
+// 低域 G0, G1, … の差を帯域にする（ラプラシアンピラミッド）。帯域 k = G(k-1) - G(k)、G(-1) は元画像。
+// G(k) は元画像を k 回半分に縮めた画像に同じ半径の低域フィルタをかけて元の大きさに戻したもので、
+// 元の大きさで見た半径は 1 段ごとに倍になるが、フィルタの直径・タイルの margin は増えない。
+// 差を足し合わせると元画像に戻る（望遠鏡和）ので、再構成は 8bit の表示用画像ではなく差そのものから作る。
+// luminance のときは Y だけを分け、色は最後に残る低域に戻す
+const splitPyramid = async (
+  processor: ImageProcessor,
+  image: PixelImage,
+  settings: FrequencySplitSettings,
+  range: ProgressRange
+): Promise<FrequencyLayers> => {
+  const source = settings.channels === 'luminance' ? luminanceImage(image) : image;
+  const original = source.data;
+  const detailCount = Math.max(1, settings.bandCount - 1);
+  const residuals: Int16Array[] = [];
+  let finer = original;
+  let reduced: PixelImage = source;
+
+  // 処理する画素数は 1 段ごとに 1/4 になるので、進捗もその割合で配分する
+  const weights = Array.from({ length: detailCount }, (_, level) => 4 ** -level);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let done = 0;
+
+  for (let level = 0; level < detailCount; level++) {
+    if (level > 0) reduced = halveImage(reduced);
+    const levelRange = subRange(range, (done / total) * 0.95, ((done + weights[level]!) / total) * 0.95);
+    done += weights[level]!;
+    const filtered = await lowPass(processor, reduced, settings, levelRange);
+    const coarser =
+      reduced === source
+        ? filtered
+        : resizeBilinear({ ...reduced, data: filtered }, source.width, source.height);
+    residuals.push(rgbDifference(finer, coarser));
+    finer = coarser;
+  }
+
+  if (source === image) return { lowFrequency: finer, lowExact: null, residuals };
+  stageReporter(subRange(range, 0.95, 1), 'Color')(0);
+  return { ...restoreColor(image.data, original, finer), residuals };
+};
+
+/**
+ * 縮小プレビュー画像用に、画素単位のパラメータ（半径・空間 σ）を縮小率に合わせたジョブを返す。
+ * 色・強さのパラメータは画像の大きさに依らないのでそのまま
+ */
+export const scaleImageJob = (job: ImageJob, scale: number): ImageJob => {
+  const length = (value: number) => Math.max(1, value * scale);
+  switch (job.kind) {
+    case 'median':
+    case 'gaussian':
+    case 'guided':
+      return { ...job, radius: length(job.radius) };
+    case 'bilateral':
+      return { ...job, radius: length(job.radius), sigmaSpace: length(job.sigmaSpace) };
+    case 'ycrcbDenoise':
+      // バイラテラルの直径 radius*2+1 は整数でなければならない
+      return { ...job, settings: { ...job.settings, radius: Math.round(length(job.settings.radius)) } };
+    case 'frequencySplit':
+    case 'frequencyPyramid':
+      return { ...job, settings: { ...job.settings, blurRadius: length(job.settings.blurRadius) } };
+    case 'canny':
+      // 前処理の半径は 0（ぼかさない）にもできる
+      return { ...job, settings: { ...job.settings, blurRadius: Math.round(job.settings.blurRadius * scale) } };
+    case 'edgePostProcess':
+      // 0 は無効を表すので 1 に切り上げない
+      return {
+        ...job,
+        settings: {
+          ...job.settings,
+          linkDistance: job.settings.linkDistance * scale,
+          minEdgeLength: Math.round(job.settings.minEdgeLength * scale),
+        },
+      };
+  }
+};
+
+/**
+ * 画像処理エンジンを使うジョブか（ガウシアン低域の周波数分離とエッジの後処理は、
+ * エンジンの読み込みを待たずに実行できる）
+ */
+export const jobNeedsEngine = (job: ImageJob): boolean =>
+  job.kind !== 'edgePostProcess' &&
+  !((job.kind === 'frequencySplit' || job.kind === 'frequencyPyramid') && job.settings.filterMethod === 'gaussian');
+
+/** ジョブを processor で実行する。signal が abort されたら、次のタイル・段に進まず AbortError で reject する */
+export const runImageJob = async (
+  processor: ImageProcessor,
+  job: ImageJob,
+  image: PixelImage,
+  onProgress?: JobProgressCallback,
+  signal?: AbortSignal
+): Promise<ImageJobResult> => {
+  const range: ProgressRange = { report: onProgress, signal, from: 0, to: 100 };
+  if (job.kind === 'frequencySplit') {
+    return { kind: 'frequency', layers: await splitFrequencies(processor, image, job.settings, range) };
+  }
+  if (job.kind === 'frequencyPyramid') {
+    return { kind: 'frequency', layers: await splitPyramid(processor, image, job.settings, range) };
+  }
+  if (job.kind === 'canny') {
+    // ヒステリシスでエッジが画像全体につながるので、タイルに分けずに処理する（1 チャンネルなので Mat は小さい）
+    return { kind: 'edges', detection: processor.canny(image, job.settings, stepReporter(range, 'Canny edges')) };
+  }
+  if (job.kind === 'edgePostProcess') {
+    const { width, height, data } = image;
+    stageReporter(range, 'Edge post-processing')(0);
+    const mask = { width, height, data: new Uint8Array(data.buffer, data.byteOffset, data.length) };
+    return { kind: 'mask', edges: postProcessEdges(mask, job.settings) };
+  }
+  return { kind: 'image', pixels: await runFilterJob(processor, job, image, range) };
+};
+
+/** Worker から返すときに転送するバッファ */
+export const imageJobTransferables = (result: ImageJobResult): ArrayBuffer[] => {
+  switch (result.kind) {
+    case 'image':
+      return [result.pixels.buffer as ArrayBuffer];
+    case 'frequency': {
+      const { lowFrequency, lowExact, residuals } = result.layers;
+      return [lowFrequency, ...(lowExact ? [lowExact] : []), ...residuals].map((layer) => layer.buffer as ArrayBuffer);
+    }
+    case 'edges':
+      return [result.detection.edges.data.buffer as ArrayBuffer];
+    case 'mask':
+      return [result.edges.data.buffer as ArrayBuffer];
+  }
+};
@@ -0,0 +1,367 @@
+// 画像処理 Worker のクライアント。画素をコピーして Worker に転送し、結果を ImageData にして返す。
+// Worker には一度に 1 ジョブだけ渡し、残りはここで待ち行列にする。
+// abort されたジョブは、待ち行列中なら外し、実行中なら Worker に 'cancel' を送ってタイル・段の合間で止めさせる。
+// Worker は作り直さないので、読み込んだ OpenCV はそのまま次のジョブに使える。
+// Worker を作れない環境では、メインスレッドの window.cv で同じジョブを実行する。
+// どちらでも OpenCV.js が読み込めなければ純 TypeScript のエンジンに切り替え、使っているエンジンを返す。
+// フル解像度の結果は入力画像と設定ごとにキャッシュし、同じ組み合わせに戻したときは処理しない。
+
+import { CannySettings, EdgeDetection, EdgeMask, cannyDetectionSettings } from '../types/CannyTypes';
+import { FrequencyDecomposition, FrequencySettings, frequencySplitSettings } from '../types/FrequencyTypes';
+import { JobOptions, JobProgress, QUEUED_PROGRESS, createAbortError } from '../types/JobTypes';
+import { EdgePostProcessOptions } from './edgePostProcess';
+import { FilterJob, ImageJob, ImageJobResult, jobNeedsEngine, runImageJob, scaleImageJob } from './imageJobs';
+import { ImageProcessor, ProcessingEngine } from './ImageProcessor';
+import { canvasImageProcessor } from './canvasImageProcessor';
+import { createOpenCVImageProcessor } from './openCVImageProcessor';
+import { openCVProcessor } from './OpenCVProcessor';
+import { LRUCache, RESULT_CACHE_BUDGET_BYTES, hashSettings, imageIdentity } from './resultCache';
+import { MemoryItem, bufferItems, imageDataItems, memoryBudget } from './memoryBudget';
+import { PixelImage } from './tiling';
+
+export type ImageWorkerRequest =
+  | { id: number; type: 'load' }
+  | { id: number; type: 'cancel' }
+  | { id: number; type: 'job'; job: ImageJob; width: number; height: number; pixels: Uint8ClampedArray };
+
+export type ImageWorkerResponse =
+  | { id: number; type: 'loaded'; engine: ProcessingEngine }
+  | { id: number; type: 'progress'; progress: JobProgress }
+  | { id: number; type: 'result'; result: ImageJobResult }
+  | { id: number; type: 'cancelled' }
+  | { id: number; type: 'error'; error: string };
+
+interface QueuedJob {
+  id: number;
+  job: ImageJob;
+  image: PixelImage;
+  options: JobOptions;
+  resolve: (result: ImageJobResult) => void;
+  reject: (error: unknown) => void;
+  onAbort: () => void;
+}
+
+let worker: Worker | null | undefined;
+let nextId = 1;
+let loadPromise: Promise<ProcessingEngine> | null = null;
+let mainThreadProcessor: Promise<ImageProcessor> | null = null;
+// 応答待ちの 'load' 要求。Worker が落ちたらすべて失敗させる
+const pendingLoads = new Map<number, { resolve: (engine: ProcessingEngine) => void; reject: (error: Error) => void }>();
+const queue: QueuedJob[] = [];
+let running: QueuedJob | null = null;
+const resultCache = new LRUCache<ImageData | FrequencyDecomposition>(RESULT_CACHE_BUDGET_BYTES);
+
+const decompositionBytes = ({ lowFrequency, lowExact, residuals }: FrequencyDecomposition): number =>
+  residuals.reduce(
+    (sum, residual) => sum + residual.byteLength,
+    lowFrequency.data.byteLength + (lowExact?.byteLength ?? 0)
+  );
+
+const resultItems = (value: ImageData | FrequencyDecomposition): MemoryItem[] =>
+  value instanceof ImageData
+    ? imageDataItems(value)
+    : [
+        ...imageDataItems(value.lowFrequency),
+        ...bufferItems(...(value.lowExact ? [value.lowExact] : []), ...value.residuals),
+      ];
+
+// 結果キャッシュは計算し直せば戻せるが、作り直しが最も重いので最後に捨てる。
+// 表示中の結果と同じもの（捨てても解放されない）は残す
+memoryBudget.register({
+  name: 'Result cache',
+  items: () => resultCache.values().flatMap(resultItems),
+  evictOne: (inUse) => resultCache.evictOldest((value) => resultItems(value).some((item) => inUse(item.key))),
+  evictPriority: 2,
+});
+
+const handleMessage = (event: MessageEvent<ImageWorkerResponse>) => {
+  const response = event.data;
+
+  const load = pendingLoads.get(response.id);
+  if (load) {
+    pendingLoads.delete(response.id);
+    if (response.type === 'loaded') load.resolve(response.engine);
+    else if (response.type === 'error') load.reject(new Error(response.error));
+    return;
+  }
+
+  // Worker が落ちたあとに届いた応答は捨てる
+  if (!running || running.id !== response.id) return;
+  const job = running;
+
+  switch (response.type) {
+    case 'progress':
+      job.options.onProgress?.(response.progress);
+      return;
+    case 'result':
+      finishRunning();
+      job.resolve(response.result);
+      drainQueue();
+      return;
+    case 'error':
+      finishRunning();
+      job.reject(new Error(response.error));
+      drainQueue();
+      return;
+    case 'cancelled':
+      finishRunning();
+      job.reject(createAbortError());
+      drainQueue();
+      return;
+  }
+};
+
+const createWorker = (): Worker | null => {
+  try {
+    const created = new Worker(new URL('../workers/image.worker.ts', import.meta.url), { type: 'module' });
+    created.onmessage = handleMessage;
+    created.onerror = (event) => {
+      // Worker 自体が落ちたら待っている依頼をすべて失敗させ、以降はメインスレッドで処理する
+      console.warn('Image worker failed, falling back to main thread:', event.message);
+      created.terminate();
+      worker = null;
+      loadPromise = null;
+      for (const load of pendingLoads.values()) load.reject(new Error('Image worker failed'));
+      pendingLoads.clear();
+      const failed = running;
+      finishRunning();
+      failed?.reject(new Error('Image worker failed'));
+      drainQueue();
+    };
+    return created;
+  } catch (error) {
+    console.warn('Image worker unavailable, processing on main thread:', error);
+    return null;
+  }
+};
+
+// Worker は最初の依頼で作る。作れない環境では null にしてメインスレッドで処理する
+const getWorker = (): Worker | null => {
+  if (worker === undefined) worker = createWorker();
+  return worker;
+};
+
+const finishRunning = () => {
+  running?.options.signal?.removeEventListener('abort', running.onAbort);
+  running = null;
+};
+
+const cancelJob = (job: QueuedJob) => {
+  const queuedIndex = queue.indexOf(job);
+  if (queuedIndex >= 0) {
+    queue.splice(queuedIndex, 1);
+    job.reject(createAbortError());
+    return;
+  }
+  // メインスレッド実行中（worker が null）は runImageJob が signal を見て止まる
+  if (running === job && worker) {
+    // 実行枠は Worker が止まって応答するまで占有したままにし、届いた結果は解決済みの Promise に渡して捨てる
+    worker.postMessage({ id: job.id, type: 'cancel' } satisfies ImageWorkerRequest);
+    job.reject(createAbortError());
+  }
+};
+
+const drainQueue = () => {
+  if (running) return;
+  const next = queue.shift();
+  if (!next) return;
+
+  const target = getWorker();
+  if (!target) {
+    // 最後のタイル・段の途中で abort されたときは、止まらずに返ってきた結果を捨てる
+    running = next;
+    runOnMainThread(next.job, next.image, next.options).then(
+      (result) => {
+        finishRunning();
+        if (next.options.signal?.aborted) next.reject(createAbortError());
+        else next.resolve(result);
+        drainQueue();
+      },
+      (error) => {
+        finishRunning();
+        next.reject(error);
+        drainQueue();
+      }
+    );
+    return;
+  }
+
+  running = next;
+  // 表示にも使う元の ImageData は手放せないので、コピーを転送する
+  const pixels = next.image.data.slice();
+  target.postMessage(
+    {
+      id: next.id,
+      type: 'job',
+      job: next.job,
+      width: next.image.width,
+      height: next.image.height,
+      pixels,
+    } satisfies ImageWorkerRequest,
+    [pixels.buffer]
+  );
+};
+
+// メインスレッドで使うエンジン。OpenCVProcessor の読み込みが失敗・タイムアウトしたら純 TypeScript 版にする
+const loadMainThreadProcessor = (): Promise<ImageProcessor> => {
+  mainThreadProcessor ??= openCVProcessor.ensureLoaded().then(
+    () => createOpenCVImageProcessor(window.cv),
+    (error) => {
+      console.warn('OpenCV.js unavailable, using the built-in image engine:', error);
+      return canvasImageProcessor;
+    }
+  );
+  return mainThreadProcessor;
+};
+
+const runOnMainThread = async (job: ImageJob, image: PixelImage, options: JobOptions): Promise<ImageJobResult> => {
+  const processor = jobNeedsEngine(job) ? await loadMainThreadProcessor() : canvasImageProcessor;
+  return runImageJob(processor, job, image, options.onProgress, options.signal);
+};
+
+/**
+ * 画像処理エンジン（Worker 内の OpenCV.js、使えなければ純 TypeScript 版）の読み込みを待ち、使うエンジンを返す。
+ * 読み込みは最初の呼び出しで一度だけ行う
+ */
+export const loadImageProcessor = (): Promise<ProcessingEngine> => {
+  if (loadPromise) return loadPromise;
+  const target = getWorker();
+  if (!target) {
+    loadPromise = loadMainThreadProcessor().then((processor) => processor.engine);
+    return loadPromise;
+  }
+  const id = nextId++;
+  loadPromise = new Promise<ProcessingEngine>((resolve, reject) => {
+    pendingLoads.set(id, { resolve, reject });
+    target.postMessage({ id, type: 'load' } satisfies ImageWorkerRequest);
+  }).catch(() => {
+    // 読み込み中に Worker 自体が落ちたら、以降の処理と同じくメインスレッドで読み込み直す
+    loadPromise = null;
+    return loadImageProcessor();
+  });
+  return loadPromise;
+};
+
+const runJob = (job: ImageJob, image: PixelImage, options: JobOptions): Promise<ImageJobResult> =>
+  new Promise((resolve, reject) => {
+    const { signal } = options;
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const { previewScale } = options;
+    const entry: QueuedJob = {
+      id: nextId++,
+      job: previewScale !== undefined ? scaleImageJob(job, previewScale) : job,
+      image,
+      options,
+      resolve,
+      reject,
+      onAbort: () => cancelJob(entry),
+    };
+    signal?.addEventListener('abort', entry.onAbort, { once: true });
+    queue.push(entry);
+    options.onProgress?.(QUEUED_PROGRESS);
+    drainQueue();
+  });
+
+// キーにジョブの種類も含まれるので、同じキーには同じ型の結果しか入らない
+const cachedResult = async <T extends ImageData | FrequencyDecomposition>(
+  job: ImageJob,
+  imageData: ImageData,
+  options: JobOptions,
+  compute: () => Promise<T>,
+  bytes: (value: T) => number
+): Promise<T> => {
+  // ドラッグ中の縮小プレビューは使い捨てなので、キャッシュに置いてフル解像度の結果を追い出さない
+  if (options.previewScale !== undefined) return compute();
+  const key = `${imageIdentity(imageData)}:${hashSettings(job)}`;
+  const cached = resultCache.get(key) as T | undefined;
+  if (cached) return cached;
+  const value = await compute();
+  resultCache.set(key, value, bytes(value));
+  memoryBudget.changed();
+  return value;
+};
+
+/** キャッシュした結果をすべて捨てる（別の画像を読み込んだとき） */
+export const clearResultCache = (): void => {
+  resultCache.clear();
+  memoryBudget.changed();
+};
+
+/** フィルタ（median / gaussian / bilateral / guided / YCrCb ノイズ除去）をかけた画像を返す */
+export const filterImage = async (
+  job: FilterJob,
+  imageData: ImageData,
+  options: JobOptions = {}
+): Promise<ImageData> =>
+  cachedResult(job, imageData, options, async () => {
+    const result = await runJob(job, imageData, options);
+    if (result.kind !== 'image') {
+      throw new Error('Unexpected result from image worker');
+    }
+    return new ImageData(result.pixels, imageData.width, imageData.height);
+  }, (filtered) => filtered.data.byteLength);
+
+/**
+ * 低周波と、強さを掛ける前の符号付きの差に分ける。
+ * pyramid のときは最後に残る低域と細かい順の帯域を返す。強さは frequencyMix で掛ける
+ */
+export const separateFrequencies = async (
+  settings: FrequencySettings,
+  imageData: ImageData,
+  options: JobOptions = {}
+): Promise<FrequencyDecomposition> => {
+  // 強さはジョブに含めないので、強さだけが違う分離はキャッシュから返る
+  const split = frequencySplitSettings(settings);
+  const job: ImageJob = { kind: settings.mode === 'pyramid' ? 'frequencyPyramid' : 'frequencySplit', settings: split };
+  return cachedResult(job, imageData, options, async () => {
+    const result = await runJob(job, imageData, options);
+    if (result.kind !== 'frequency') {
+      throw new Error('Unexpected result from image worker');
+    }
+    const { lowFrequency, lowExact, residuals } = result.layers;
+    return {
+      mode: settings.mode,
+      lowFrequency: new ImageData(lowFrequency, imageData.width, imageData.height),
+      lowExact,
+      residuals,
+    };
+  }, decompositionBytes);
+};
+
+/**
+ * Canny でエッジを検出し、0 / 1 のマスクと使った閾値を返す。
+ * ボタンを押したときだけ走るので結果はキャッシュしない
+ */
+export const detectEdges = async (
+  settings: CannySettings,
+  imageData: ImageData,
+  options: JobOptions = {}
+): Promise<EdgeDetection> => {
+  const result = await runJob({ kind: 'canny', settings: cannyDetectionSettings(settings) }, imageData, options);
+  if (result.kind !== 'edges') {
+    throw new Error('Unexpected result from image worker');
+  }
+  return result.detection;
+};
+
+/**
+ * Canny のマスクに後処理（細線化・途切れの連結・短いエッジの除去）をかける。
+ * 後処理の設定だけを変えたときに検出し直さずに済むよう、検出とは別のジョブにする
+ */
+export const postProcessEdgeMask = async (
+  edges: EdgeMask,
+  settings: EdgePostProcessOptions,
+  options: JobOptions = {}
+): Promise<EdgeMask> => {
+  // マスクは 1 画素 1 バイトの画像として、画像と同じ経路でコピーを転送する
+  const { width, height, data } = edges;
+  const image = { width, height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) };
+  const result = await runJob({ kind: 'edgePostProcess', settings }, image, options);
+  if (result.kind !== 'mask') {
+    throw new Error('Unexpected result from image worker');
+  }
+  return result.edges;
+};
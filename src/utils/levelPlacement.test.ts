@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { otsuLevels, parseManualLevels, quantileLevels } from './levelPlacement';
+
+// 指定したビンに画素数を置いたヒストグラム
+const histogramOf = (counts: Record<number, number>): Float64Array => {
+  const histogram = new Float64Array(256);
+  for (const [bin, count] of Object.entries(counts)) histogram[Number(bin)] = count;
+  return histogram;
+};
+
+// 閾値で分けたクラスの Σ S_k² / W_k（クラス間分散と同じ順序になる量）
+const otsuObjective = (histogram: Float64Array, levels: number[]): number => {
+  const bounds = [0, ...levels.map((level) => Math.ceil(level)), 256];
+  let total = 0;
+  for (let k = 0; k + 1 < bounds.length; k++) {
+    let w = 0;
+    let s = 0;
+    for (let bin = bounds[k]!; bin < bounds[k + 1]!; bin++) {
+      w += histogram[bin]!;
+      s += histogram[bin]! * bin;
+    }
+    if (w > 0) total += (s * s) / w;
+  }
+  return total;
+};
+
+describe('otsuLevels', () => {
+  it('separates two clusters with one threshold', () => {
+    const levels = otsuLevels(histogramOf({ 40: 100, 45: 80, 200: 120, 210: 60 }), 1);
+    expect(levels).toHaveLength(1);
+    expect(levels[0]).toBeGreaterThan(45);
+    expect(levels[0]).toBeLessThan(200);
+  });
+
+  it('separates three clusters with two thresholds', () => {
+    const levels = otsuLevels(histogramOf({ 20: 50, 25: 50, 120: 50, 130: 50, 230: 50, 240: 50 }), 2);
+    expect(levels).toHaveLength(2);
+    expect(levels[0]).toBeGreaterThan(25);
+    expect(levels[0]).toBeLessThan(120);
+    expect(levels[1]).toBeGreaterThan(130);
+    expect(levels[1]).toBeLessThan(230);
+  });
+
+  it('finds the same optimum as an exhaustive search over two cuts', () => {
+    // 滑らかでない、山が重なったヒストグラム
+    const histogram = new Float64Array(256);
+    for (let bin = 0; bin < 256; bin++) {
+      histogram[bin] =
+        1 + 40 * Math.exp(-(((bin - 60) / 18) ** 2)) + 25 * Math.exp(-(((bin - 150) / 30) ** 2)) + (bin * 37) % 11;
+    }
+
+    let best = -Infinity;
+    for (let i = 1; i < 255; i++) {
+      for (let j = i + 1; j < 256; j++) {
+        best = Math.max(best, otsuObjective(histogram, [i - 0.5, j - 0.5]));
+      }
+    }
+
+    const levels = otsuLevels(histogram, 2);
+    expect(levels).toHaveLength(2);
+    expect(otsuObjective(histogram, levels)).toBeCloseTo(best, 6);
+  });
+
+  it('places thresholds on bin boundaries', () => {
+    for (const level of otsuLevels(histogramOf({ 10: 5, 90: 5, 170: 5, 250: 5 }), 3)) {
+      expect(level % 1).toBe(0.5);
+    }
+  });
+});
+
+describe('quantileLevels', () => {
+  it('splits a flat histogram into equal parts', () => {
+    expect(quantileLevels(new Float64Array(256).fill(1), 3)).toEqual([63.5, 127.5, 191.5]);
+  });
+
+  it('returns no levels for an empty histogram', () => {
+    expect(quantileLevels(new Float64Array(256), 3)).toEqual([]);
+  });
+});
+
+describe('parseManualLevels', () => {
+  it('sorts, deduplicates and clamps the entered levels', () => {
+    expect(parseManualLevels('200, 50 50、 300 -4 abc')).toEqual([0, 50, 200, 255]);
+  });
+});
@@ -0,0 +1,179 @@
+// 等高線レベル（閾値）の配置方法。輝度ヒストグラムから各方式の閾値を求める。
+// どの方式も 0-255 の昇順・重複なしの配列を返す（画像によっては要求数より少なくなる）。
+
+import { ContourSettings, LevelPlacementMode } from '../types/ImageTypes';
+
+const BINS = 256;
+
+// 輝度マップを 256 ビンのヒストグラムにする
+export const brightnessHistogram = (brightnessMap: Float32Array): Float64Array => {
+  const histogram = new Float64Array(BINS);
+  for (let i = 0; i < brightnessMap.length; i++) {
+    const bin = Math.max(0, Math.min(BINS - 1, Math.round(brightnessMap[i]!)));
+    histogram[bin]! += 1;
+  }
+  return histogram;
+};
+
+// 閾値は整数の画素値と一致しないようビン境界（v + 0.5）に置く。
+// 一致すると線が画素中心を通り、同値の平坦部で線が揺れる
+const binBoundary = (bin: number): number => bin + 0.5;
+
+const normalizeLevels = (levels: number[]): number[] =>
+  [...new Set(levels.map((level) => Math.max(0, Math.min(255, level))))].sort((a, b) => a - b);
+
+export const uniformLevels = (count: number): number[] =>
+  Array.from({ length: count }, (_, i) => (i + 1) * (255 / (count + 1)));
+
+// 各帯の画素数が等しくなる位置（ヒストグラムの分位点）に閾値を置く
+export const quantileLevels = (histogram: Float64Array, count: number): number[] => {
+  const total = histogram.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return [];
+
+  const levels: number[] = [];
+  let cumulative = 0;
+  let next = 1;
+  for (let bin = 0; bin < BINS - 1 && next <= count; bin++) {
+    cumulative += histogram[bin]!;
+    while (next <= count && cumulative >= (total * next) / (count + 1)) {
+      levels.push(binBoundary(bin));
+      next++;
+    }
+  }
+  return normalizeLevels(levels);
+};
+
+// 多値 Otsu 法。クラス間分散 Σ S_k² / W_k を最大化する分割を動的計画法で厳密に求める
+// （全探索 O(L^n) の代わりに O(n·L²)）
+export const otsuLevels = (histogram: Float64Array, count: number): number[] => {
+  const classes = Math.min(count + 1, BINS);
+  const weight = new Float64Array(BINS + 1);
+  const moment = new Float64Array(BINS + 1);
+  for (let i = 0; i < BINS; i++) {
+    weight[i + 1] = weight[i]! + histogram[i]!;
+    moment[i + 1] = moment[i]! + histogram[i]! * i;
+  }
+
+  // ビン [from, to) を 1 クラスにしたときの寄与
+  const score = (from: number, to: number): number => {
+    const w = weight[to]! - weight[from]!;
+    if (w <= 0) return 0;
+    const s = moment[to]! - moment[from]!;
+    return (s * s) / w;
+  };
+
+  // best[k][j]: 先頭 j ビンを k+1 クラスに分けたときの最大値、cut[k][j]: 最後のクラスの開始ビン
+  const best: Float64Array[] = [];
+  const cut: Int32Array[] = [];
+  best[0] = new Float64Array(BINS + 1);
+  cut[0] = new Int32Array(BINS + 1);
+  for (let j = 1; j <= BINS; j++) best[0]![j] = score(0, j);
+
+  for (let k = 1; k < classes; k++) {
+    const prev = best[k - 1]!;
+    const row = new Float64Array(BINS + 1).fill(-Infinity);
+    const rowCut = new Int32Array(BINS + 1);
+    for (let j = k + 1; j <= BINS; j++) {
+      for (let i = k; i < j; i++) {
+        const value = prev[i]! + score(i, j);
+        if (value > row[j]!) {
+          row[j] = value;
+          rowCut[j] = i;
+        }
+      }
+    }
+    best[k] = row;
+    cut[k] = rowCut;
+  }
+
+  const levels: number[] = [];
+  let end = BINS;
+  for (let k = classes - 1; k > 0; k--) {
+    const start = cut[k]![end]!;
+    levels.push(binBoundary(start - 1));
+    end = start;
+  }
+  return normalizeLevels(levels);
+};
+
+// 輝度の 1 次元 k-means（count + 1 クラスタ）。隣り合う中心の中点を閾値にする。
+// 初期中心は分位点に置くので、暗部に偏った画像でも空のクラスタができにくい
+export const kMeansLevels = (histogram: Float64Array, count: number): number[] => {
+  const total = histogram.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return [];
+
+  const k = count + 1;
+  const centers: number[] = [];
+  let cumulative = 0;
+  let next = 0;
+  for (let bin = 0; bin < BINS && next < k; bin++) {
+    cumulative += histogram[bin]!;
+    while (next < k && cumulative >= (total * (next + 0.5)) / k) {
+      centers.push(bin);
+      next++;
+    }
+  }
+
+  const MAX_ITERATIONS = 100;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const sums = new Float64Array(k);
+    const counts = new Float64Array(k);
+    let c = 0;
+    for (let bin = 0; bin < BINS; bin++) {
+      // 中心は昇順なので、ビンに最も近い中心は単調に進む
+      while (c < k - 1 && Math.abs(centers[c + 1]! - bin) <= Math.abs(centers[c]! - bin)) c++;
+      sums[c]! += histogram[bin]! * bin;
+      counts[c]! += histogram[bin]!;
+    }
+
+    let moved = false;
+    for (let i = 0; i < k; i++) {
+      if (counts[i]! === 0) continue;
+      const center = sums[i]! / counts[i]!;
+      if (Math.abs(center - centers[i]!) > 1e-3) moved = true;
+      centers[i] = center;
+    }
+    centers.sort((a, b) => a - b);
+    if (!moved) break;
+  }
+
+  const levels: number[] = [];
+  for (let i = 0; i < k - 1; i++) {
+    if (centers[i + 1]! - centers[i]! < 1e-6) continue;
+    levels.push((centers[i]! + centers[i + 1]!) / 2);
+  }
+  return normalizeLevels(levels);
+};
+
+/** 入力文字列（カンマ・空白区切り）から手動レベルを読み取る */
+export const parseManualLevels = (text: string): number[] =>
+  normalizeLevels(
+    text
+      .split(/[\s,、]+/)
+      .filter((token) => token !== '')
+      .map(Number)
+      .filter((value) => Number.isFinite(value))
+  );
+
+/** 設定の配置方式に従って等高線レベルを求める */
+export const computeContourLevels = (
+  brightnessMap: Float32Array,
+  settings: ContourSettings
+): number[] => {
+  const mode: LevelPlacementMode = settings.levelMode ?? 'uniform';
+  const count = settings.levels;
+
+  switch (mode) {
+    case 'manual':
+      return normalizeLevels(settings.manualLevels ?? []);
+    case 'quantile':
+      return quantileLevels(brightnessHistogram(brightnessMap), count);
+    case 'otsu':
+      return otsuLevels(brightnessHistogram(brightnessMap), count);
+    case 'kmeans':
+      return kMeansLevels(brightnessHistogram(brightnessMap), count);
+    case 'uniform':
+    default:
+      return uniformLevels(count);
+  }
+};
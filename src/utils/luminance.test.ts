@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { ContourSettings } from '../types/ImageTypes';
+import { computeLuminanceMap, createLuminanceFunction, levelToLightness, luminanceKey, rgbToLab } from './luminance';
+
+const COLORS: [number, number, number][] = [
+  [0, 0, 0],
+  [255, 255, 255],
+  [200, 80, 40],
+  [12, 190, 240],
+  [128, 128, 128],
+];
+
+const settings = (overrides: Partial<ContourSettings>): ContourSettings => ({ levels: 5, transparency: 100, ...overrides });
+
+describe('createLuminanceFunction', () => {
+  it('uses the BT.601 and BT.709 luma weights', () => {
+    expect(createLuminanceFunction('bt601')(200, 80, 40)).toBeCloseTo(0.299 * 200 + 0.587 * 80 + 0.114 * 40, 6);
+    expect(createLuminanceFunction('bt709')(200, 80, 40)).toBeCloseTo(0.2126 * 200 + 0.7152 * 80 + 0.0722 * 40, 6);
+  });
+
+  it.each([
+    ['bt601', { r: 299, g: 587, b: 114 }],
+    ['bt709', { r: 2126, g: 7152, b: 722 }],
+  ] as const)('gives the same result as %s with the same custom weights', (model, weights) => {
+    const standard = createLuminanceFunction(model);
+    const custom = createLuminanceFunction('custom', weights);
+    for (const color of COLORS) {
+      expect(custom(...color)).toBeCloseTo(standard(...color), 6);
+    }
+  });
+
+  it('normalizes custom weights and falls back to the plain average when they are all zero', () => {
+    expect(createLuminanceFunction('custom', { r: 2, g: 0, b: 2 })(100, 255, 50)).toBeCloseTo(75, 6);
+    expect(createLuminanceFunction('custom', { r: 0, g: 0, b: 0 })(30, 60, 90)).toBeCloseTo(60, 6);
+  });
+
+  it('maps the sRGB extremes to 0 and 255 in every model', () => {
+    for (const model of ['bt601', 'bt709', 'linear', 'lstar', 'hsv', 'custom'] as const) {
+      const luminance = createLuminanceFunction(model);
+      expect(luminance(0, 0, 0)).toBeCloseTo(0, 6);
+      expect(luminance(255, 255, 255)).toBeCloseTo(255, 4);
+    }
+  });
+
+  it('returns linear light for the linear model', () => {
+    // sRGB 128 は線形光で約 0.21586
+    expect(createLuminanceFunction('linear')(128, 128, 128) / 255).toBeCloseTo(0.21586, 5);
+  });
+
+  it('returns CIE L* scaled to 0-255 for the lstar model', () => {
+    const lstar = createLuminanceFunction('lstar');
+    // 既知の L*: 中間グレー（sRGB 119）≈ 50、sRGB 128 ≈ 53.59、原色の赤・緑・青
+    expect(lstar(119, 119, 119) / 2.55).toBeCloseTo(50.03, 1);
+    expect(lstar(128, 128, 128) / 2.55).toBeCloseTo(53.59, 1);
+    expect(lstar(255, 0, 0) / 2.55).toBeCloseTo(53.24, 1);
+    expect(lstar(0, 255, 0) / 2.55).toBeCloseTo(87.73, 1);
+    expect(lstar(0, 0, 255) / 2.55).toBeCloseTo(32.3, 1);
+  });
+
+  it('returns the largest channel for the hsv model', () => {
+    expect(createLuminanceFunction('hsv')(12, 190, 240)).toBe(240);
+  });
+});
+
+describe('rgbToLab', () => {
+  it('puts neutral grays on the L* axis', () => {
+    const [l, a, b] = rgbToLab(255, 255, 255);
+    expect(l).toBeCloseTo(100, 2);
+    expect(a).toBeCloseTo(0, 1);
+    expect(b).toBeCloseTo(0, 1);
+  });
+
+  it('matches the reference Lab of sRGB red', () => {
+    const [l, a, b] = rgbToLab(255, 0, 0);
+    expect(l).toBeCloseTo(53.24, 1);
+    expect(a).toBeCloseTo(80.09, 0);
+    expect(b).toBeCloseTo(67.2, 0);
+  });
+});
+
+describe('levelToLightness', () => {
+  it('reads a level as the L* of the same gray, or directly for the lstar model', () => {
+    expect(levelToLightness(128, settings({ luminanceModel: 'bt601' }))).toBeCloseTo(53.59, 1);
+    expect(levelToLightness(127.5, settings({ luminanceModel: 'lstar' }))).toBeCloseTo(50, 6);
+  });
+});
+
+describe('luminanceKey', () => {
+  it('includes the weights only for the custom model', () => {
+    expect(luminanceKey(settings({ luminanceModel: 'bt709', channelWeights: { r: 1, g: 2, b: 3 } }))).toBe('bt709');
+    expect(luminanceKey(settings({ luminanceModel: 'custom', channelWeights: { r: 1, g: 2, b: 3 } }))).toBe('custom:1,2,3');
+    expect(luminanceKey(settings({}))).toBe('bt601');
+  });
+});
+
+describe('computeLuminanceMap', () => {
+  it('evaluates the model for every pixel in row-major order', () => {
+    const data = Uint8ClampedArray.from([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]);
+    const map = computeLuminanceMap({ width: 3, height: 1, data }, createLuminanceFunction('hsv'));
+    expect(Array.from(map)).toEqual([255, 255, 255]);
+    const bt709 = computeLuminanceMap({ width: 3, height: 1, data }, createLuminanceFunction('bt709'));
+    expect(Array.from(bt709).map((value) => Math.round(value * 100) / 100)).toEqual([54.21, 182.38, 18.41]);
+  });
+});
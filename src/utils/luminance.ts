@@ -0,0 +1,105 @@
+// 輝度（明度）モデル。等高線解析・フィルタ後の等高線・グレースケール表示のすべてが
+// ここを通るので、モデルを切り替えても表示と解析が食い違わない。
+// どのモデルも 0-255 のスケールで返す（L* は 0-100 を 2.55 倍）。
+
+import { ChannelWeights, ContourSettings, LuminanceModel } from '../types/ImageTypes';
+
+export type LuminanceFunction = (r: number, g: number, b: number) => number;
+
+export const DEFAULT_CHANNEL_WEIGHTS: ChannelWeights = { r: 30, g: 59, b: 11 };
+
+// sRGB (0-255) → 線形光 (0-1) の変換表
+const SRGB_TO_LINEAR = new Float64Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+const toLinear = (value: number): number =>
+  SRGB_TO_LINEAR[Math.max(0, Math.min(255, Math.round(value)))]!;
+
+const relativeLuminance = (r: number, g: number, b: number): number =>
+  0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+
+// CIE 1976 L*（D65 白色点基準、Y は 0-1）
+const lightnessFromY = (y: number): number =>
+  y > 216 / 24389 ? 116 * Math.cbrt(y) - 16 : (24389 / 27) * y;
+
+/** sRGB (0-255) → CIE L*a*b*（D65 白色点） */
+export const rgbToLab = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+  // sRGB → XYZ を白色点で正規化してから f(t) をかける
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const f = (t: number): number => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  return [lightnessFromY(y), 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+/** 設定されたモデルの輝度関数を返す */
+export const createLuminanceFunction = (
+  model: LuminanceModel = 'bt601',
+  weights: ChannelWeights = DEFAULT_CHANNEL_WEIGHTS
+): LuminanceFunction => {
+  switch (model) {
+    case 'bt709':
+      return (r, g, b) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    case 'linear':
+      return (r, g, b) => relativeLuminance(r, g, b) * 255;
+    case 'lstar':
+      return (r, g, b) => lightnessFromY(relativeLuminance(r, g, b)) * 2.55;
+    case 'hsv':
+      return (r, g, b) => Math.max(r, g, b);
+    case 'custom': {
+      const total = weights.r + weights.g + weights.b;
+      // 全部 0 のときは単純平均にする
+      const [wr, wg, wb] = total > 0
+        ? [weights.r / total, weights.g / total, weights.b / total]
+        : [1 / 3, 1 / 3, 1 / 3];
+      return (r, g, b) => wr * r + wg * g + wb * b;
+    }
+    case 'bt601':
+    default:
+      return (r, g, b) => 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+};
+
+export const luminanceFromSettings = (settings: ContourSettings): LuminanceFunction =>
+  createLuminanceFunction(settings.luminanceModel, settings.channelWeights);
+
+/**
+ * 0-255 スケールのレベル値を CIE L* (0-100) に直す。
+ * lstar モデルはそのまま 2.55 で割り、それ以外は同じ値のグレー (v, v, v) の L* とみなす
+ */
+export const levelToLightness = (level: number, settings: ContourSettings): number =>
+  (settings.luminanceModel ?? 'bt601') === 'lstar'
+    ? level / 2.55
+    : lightnessFromY(toLinear(level));
+
+/** キャッシュの無効化判定に使う、輝度モデルを一意に表すキー */
+export const luminanceKey = (settings: ContourSettings): string => {
+  const model = settings.luminanceModel ?? 'bt601';
+  if (model !== 'custom') return model;
+  const { r, g, b } = settings.channelWeights ?? DEFAULT_CHANNEL_WEIGHTS;
+  return `custom:${r},${g},${b}`;
+};
+
+/**
+ * 画像全体の輝度マップを作る（行優先の 1 次元配列）。
+ * Worker 内でも使えるよう ImageData そのものではなく同じ形のオブジェクトを受け取る
+ */
+export const computeLuminanceMap = (
+  imageData: Pick<ImageData, 'width' | 'height' | 'data'>,
+  luminance: LuminanceFunction
+): Float32Array => {
+  const { width, height, data } = imageData;
+  const brightnessMap = new Float32Array(width * height);
+
+  for (let i = 0; i < brightnessMap.length; i++) {
+    brightnessMap[i] = luminance(data[i * 4]!, data[i * 4 + 1]!, data[i * 4 + 2]!);
+  }
+
+  return brightnessMap;
+};
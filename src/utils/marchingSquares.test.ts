@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { ContourPolyline } from '../types/ImageTypes';
+import { extractContourLines, removeShortContourLines, simplifyContourLines } from './marchingSquares';
+
+const field = (width: number, rows: number[][]) => ({
+  width,
+  height: rows.length,
+  brightnessMap: Float32Array.from(rows.flat()),
+});
+
+const pointsOf = ({ points }: ContourPolyline): [number, number][] =>
+  Array.from({ length: points.length / 2 }, (_, i) => [points[i * 2]!, points[i * 2 + 1]!]);
+
+const centroid = (polyline: ContourPolyline): [number, number] => {
+  const points = pointsOf(polyline);
+  return [
+    points.reduce((sum, [x]) => sum + x, 0) / points.length,
+    points.reduce((sum, [, y]) => sum + y, 0) / points.length,
+  ];
+};
+
+describe('extractContourLines', () => {
+  it('rings a single bright pixel with interpolated points on pixel-centre coordinates', () => {
+    const [paths] = extractContourLines(field(3, [[0, 0, 0], [0, 1, 0], [0, 0, 0]]), [0.5]);
+    expect(paths!.polylines).toHaveLength(1);
+    const ring = paths!.polylines[0]!;
+    expect(ring.closed).toBe(true);
+    // 画素 (1, 1) の中心は (1.5, 1.5)。隣の中心との中点を通る菱形になる
+    const sorted = pointsOf(ring).sort(([ax, ay], [bx, by]) => ax - bx || ay - by);
+    expect(sorted).toEqual([[1, 1.5], [1.5, 1], [1.5, 2], [2, 1.5]]);
+  });
+
+  it('keeps the level order and indices of the input', () => {
+    const paths = extractContourLines(field(2, [[0, 100], [0, 100]]), [75, 25]);
+    expect(paths.map(({ level, index }) => [level, index])).toEqual([[75, 0], [25, 1]]);
+    const [x] = pointsOf(paths[1]!.polylines[0]!)[0]!;
+    expect(x).toBeCloseTo(0.75);
+  });
+
+  describe('saddle cells', () => {
+    // 左上と右下が明るい 2x2。セル中心の平均は 0.5
+    const saddle = field(2, [[1, 0], [0, 1]]);
+    const nearest = (polyline: ContourPolyline, corners: Record<string, [number, number]>): string => {
+      const [cx, cy] = centroid(polyline);
+      return Object.entries(corners).sort(
+        ([, a], [, b]) => Math.hypot(a[0] - cx, a[1] - cy) - Math.hypot(b[0] - cx, b[1] - cy)
+      )[0]![0];
+    };
+    const corners: Record<string, [number, number]> = {
+      tl: [0.5, 0.5],
+      tr: [1.5, 0.5],
+      br: [1.5, 1.5],
+      bl: [0.5, 1.5],
+    };
+
+    it('joins the bright corners when the centre is inside', () => {
+      const [paths] = extractContourLines(saddle, [0.4]);
+      expect(paths!.polylines).toHaveLength(2);
+      // 暗い角（右上・左下）が切り離される
+      expect(paths!.polylines.map((polyline) => nearest(polyline, corners)).sort()).toEqual(['bl', 'tr']);
+    });
+
+    it('separates the bright corners when the centre is outside', () => {
+      const [paths] = extractContourLines(saddle, [0.6]);
+      expect(paths!.polylines).toHaveLength(2);
+      expect(paths!.polylines.map((polyline) => nearest(polyline, corners)).sort()).toEqual(['br', 'tl']);
+    });
+  });
+
+  describe('closeAtBorder', () => {
+    const halves = field(4, [[0, 0, 1, 1], [0, 0, 1, 1], [0, 0, 1, 1]]);
+
+    it('leaves lines that reach the border open by default', () => {
+      const [paths] = extractContourLines(halves, [0.5]);
+      expect(paths!.polylines).toHaveLength(1);
+      expect(paths!.polylines[0]!.closed).toBe(false);
+    });
+
+    it('closes every line along the image border', () => {
+      const [paths] = extractContourLines(halves, [0.5], { closeAtBorder: true });
+      expect(paths!.polylines).toHaveLength(1);
+      const ring = paths!.polylines[0]!;
+      expect(ring.closed).toBe(true);
+      // 明るい右半分を囲む: 内側の線は x = 2、残りは画像の縁（x = 4, y = 0, y = 3）に乗る
+      for (const [x, y] of pointsOf(ring)) {
+        expect(x === 2 || x === 4 || y === 0 || y === 3).toBe(true);
+        expect(x).toBeGreaterThanOrEqual(2);
+      }
+      const xs = pointsOf(ring).map(([x]) => x);
+      expect(Math.min(...xs)).toBe(2);
+      expect(Math.max(...xs)).toBe(4);
+    });
+
+    it('rings a region that covers the whole image', () => {
+      const flat = field(3, [[1, 1, 1], [1, 1, 1]]);
+      expect(extractContourLines(flat, [0.5])[0]!.polylines).toHaveLength(0);
+      const [paths] = extractContourLines(flat, [0.5], { closeAtBorder: true });
+      expect(paths!.polylines).toHaveLength(1);
+      expect(paths!.polylines[0]!.closed).toBe(true);
+    });
+  });
+});
+
+describe('removeShortContourLines', () => {
+  it('drops lines shorter than the minimum length', () => {
+    // 1 画素の島と、右端の 2 列を区切る長さ 5 の線
+    const paths = extractContourLines(field(6, [
+      [0, 0, 0, 0, 1, 1],
+      [0, 1, 0, 0, 1, 1],
+      [0, 0, 0, 0, 1, 1],
+      [0, 0, 0, 0, 1, 1],
+      [0, 0, 0, 0, 1, 1],
+      [0, 0, 0, 0, 1, 1],
+    ]), [0.5]);
+    expect(paths[0]!.polylines).toHaveLength(2);
+    // 1 画素の菱形は周長 2√2 ≈ 2.83
+    expect(removeShortContourLines(paths, 3)[0]!.polylines).toHaveLength(1);
+  });
+});
+
+describe('simplifyContourLines', () => {
+  it('removes points that lie on a straight line', () => {
+    const points = Float32Array.from([0, 0, 1, 0.01, 2, 0, 3, 0.01, 4, 0]);
+    const [simplified] = simplifyContourLines([{ level: 1, index: 0, polylines: [{ points, closed: false }] }], 0.1);
+    expect(Array.from(simplified!.polylines[0]!.points)).toEqual([0, 0, 4, 0]);
+  });
+});
@@ -0,0 +1,337 @@
+// Marching squares による等値線（iso-line）抽出。
+// 輝度マップの画素中心を格子点とみなし、各レベルの閾値を横切る辺を線形補間して
+// サブピクセル精度のポリラインを得る。出力座標は画素中心 (x + 0.5, y + 0.5) 基準なので
+// そのまま canvas / SVG の座標系に描ける。
+
+import { ContourLevelPaths, ContourPolyline } from '../types/ImageTypes';
+
+// セルの 4 隅（tl=8, tr=4, br=2, bl=1）の内外パターンごとに、結ぶ辺の組を列挙する。
+// 辺の番号: 0=top, 1=right, 2=bottom, 3=left。
+// 5 / 10 は鞍点で、セル中心の値で接続を切り替えるため別扱い。
+const SEGMENT_TABLE: ReadonlyArray<ReadonlyArray<readonly [number, number]>> = [
+  [],
+  [[3, 2]],
+  [[2, 1]],
+  [[3, 1]],
+  [[0, 1]],
+  [], // saddle
+  [[0, 2]],
+  [[3, 0]],
+  [[3, 0]],
+  [[0, 2]],
+  [], // saddle
+  [[0, 1]],
+  [[3, 1]],
+  [[2, 1]],
+  [[3, 2]],
+  [],
+];
+
+// 鞍点の接続: 中心が内側なら内側の隅同士がつながる
+const SADDLE_5_CENTER_IN: ReadonlyArray<readonly [number, number]> = [[3, 0], [2, 1]];
+const SADDLE_5_CENTER_OUT: ReadonlyArray<readonly [number, number]> = [[3, 2], [0, 1]];
+const SADDLE_10_CENTER_IN: ReadonlyArray<readonly [number, number]> = [[0, 1], [3, 2]];
+const SADDLE_10_CENTER_OUT: ReadonlyArray<readonly [number, number]> = [[3, 0], [2, 1]];
+
+interface ScalarField {
+  width: number;
+  height: number;
+  brightnessMap: Float32Array; // 行優先
+}
+
+export interface ExtractOptions {
+  /**
+   * 画像の外周を全レベルより低い値で囲んで抽出する。すべての線が閉じたリングになり、
+   * 「level 以上の領域」をそのまま塗りつぶせる（外周上の点は画像の縁に置かれる）。
+   */
+  closeAtBorder?: boolean;
+}
+
+// 抽出に使う格子。closeAtBorder のときは 1 画素ぶん外側に広げ、外側は null を返す
+interface Grid {
+  field: ScalarField;
+  pad: number;
+  gridWidth: number;
+  at: (x: number, y: number) => number | null;
+}
+
+const createGrid = (field: ScalarField, closeAtBorder: boolean): Grid => {
+  const { width, height, brightnessMap } = field;
+  const pad = closeAtBorder ? 1 : 0;
+  return {
+    field,
+    pad,
+    gridWidth: width + pad * 2,
+    at: (x, y) => (x < 0 || y < 0 || x >= width || y >= height ? null : brightnessMap[y * width + x]!),
+  };
+};
+
+// 辺 ID: 格子点 (x, y) から右へ伸びる辺を偶数、下へ伸びる辺を奇数で表す。
+// 隣接セルは同じ辺 ID を共有するので、これを手がかりに線分を連結する。
+const edgeId = (cellX: number, cellY: number, edge: number, gridWidth: number): number => {
+  switch (edge) {
+    case 0: return (cellY * gridWidth + cellX) * 2;
+    case 1: return (cellY * gridWidth + cellX + 1) * 2 + 1;
+    case 2: return ((cellY + 1) * gridWidth + cellX) * 2;
+    default: return (cellY * gridWidth + cellX) * 2 + 1;
+  }
+};
+
+// 辺上で値が閾値を横切る位置を線形補間する。
+// 片側が外周パディングなら、補間せず画像の縁に置く
+const edgePoint = (id: number, level: number, grid: Grid): [number, number] => {
+  const { pad, gridWidth, at, field } = grid;
+  const vertex = id >> 1;
+  const gx = vertex % gridWidth;
+  const x = gx - pad;
+  const y = (vertex - gx) / gridWidth - pad;
+  const horizontal = (id & 1) === 0;
+  const v0 = at(x, y);
+  const v1 = horizontal ? at(x + 1, y) : at(x, y + 1);
+
+  if (v0 === null || v1 === null) {
+    return horizontal
+      ? [x < 0 ? 0 : field.width, y + 0.5]
+      : [x + 0.5, y < 0 ? 0 : field.height];
+  }
+
+  const t = v1 === v0 ? 0.5 : (level - v0) / (v1 - v0);
+  return horizontal ? [x + t + 0.5, y + 0.5] : [x + 0.5, y + t + 0.5];
+};
+
+// 辺 ID ペアの線分列をポリラインに連結する。
+// 各辺は高々 2 セルにしか属さないので、端点の相手は最大 2 本。
+const chainSegments = (
+  segments: number[],
+  level: number,
+  grid: Grid
+): ContourPolyline[] => {
+  const segmentCount = segments.length / 2;
+  const first = new Map<number, number>();
+  const second = new Map<number, number>();
+  for (let s = 0; s < segmentCount; s++) {
+    for (let k = 0; k < 2; k++) {
+      const id = segments[s * 2 + k]!;
+      if (first.has(id)) second.set(id, s);
+      else first.set(id, s);
+    }
+  }
+
+  const visited = new Uint8Array(segmentCount);
+  const otherSegment = (id: number, s: number): number | undefined => {
+    const a = first.get(id);
+    return a === s ? second.get(id) : a;
+  };
+
+  // 端点 id から線分を辿り、通過した辺 ID を順に返す
+  const walk = (startSegment: number, fromId: number): number[] => {
+    const ids: number[] = [];
+    let s: number | undefined = startSegment;
+    let entry = fromId;
+    while (s !== undefined && !visited[s]) {
+      visited[s] = 1;
+      const a = segments[s * 2]!;
+      const exit = a === entry ? segments[s * 2 + 1]! : a;
+      ids.push(exit);
+      entry = exit;
+      s = otherSegment(exit, s);
+    }
+    return ids;
+  };
+
+  const polylines: ContourPolyline[] = [];
+  for (let s = 0; s < segmentCount; s++) {
+    if (visited[s]) continue;
+    const a = segments[s * 2]!;
+
+    // もう一方の端点側へ前進し、閉じていなければ a 側へも伸ばして先頭に繋げる
+    const forward = walk(s, a);
+    const closed = forward[forward.length - 1] === a && forward.length > 2;
+    let ids: number[];
+    if (closed) {
+      ids = [a, ...forward.slice(0, -1)];
+    } else {
+      const prev = otherSegment(a, s);
+      const backward = prev !== undefined ? walk(prev, a) : [];
+      ids = [...backward.reverse(), a, ...forward];
+    }
+
+    const points = new Float32Array(ids.length * 2);
+    ids.forEach((id, i) => {
+      const [px, py] = edgePoint(id, level, grid);
+      points[i * 2] = px;
+      points[i * 2 + 1] = py;
+    });
+    polylines.push({ points, closed });
+  }
+
+  return polylines;
+};
+
+/**
+ * 輝度マップから各レベルの等値線を抽出する。
+ * レベルは昇順でなくてもよいが、返り値は引数の順序・インデックスを保つ。
+ */
+export const extractContourLines = (
+  field: ScalarField,
+  levels: number[],
+  options: ExtractOptions = {}
+): ContourLevelPaths[] => {
+  const { width, height } = field;
+  const grid = createGrid(field, options.closeAtBorder ?? false);
+  const { pad, gridWidth, at } = grid;
+  const sorted = levels
+    .map((level, index) => ({ level, index }))
+    .sort((p, q) => p.level - q.level);
+  const segmentsByLevel: number[][] = levels.map(() => []);
+  // 外周パディングはどのレベルよりも低い値として扱う
+  const outside = -Infinity;
+
+  // 1 パスで全レベルを処理する。セルの値域に入るレベルだけを二分探索で拾う
+  for (let y = -pad; y < height - 1 + pad; y++) {
+    for (let x = -pad; x < width - 1 + pad; x++) {
+      const tl = at(x, y) ?? outside;
+      const tr = at(x + 1, y) ?? outside;
+      const br = at(x + 1, y + 1) ?? outside;
+      const bl = at(x, y + 1) ?? outside;
+      const min = Math.min(tl, tr, br, bl);
+      const max = Math.max(tl, tr, br, bl);
+      if (min === max) continue;
+
+      let lo = 0;
+      let hi = sorted.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid]!.level <= min) lo = mid + 1;
+        else hi = mid;
+      }
+
+      for (let k = lo; k < sorted.length; k++) {
+        const { level, index } = sorted[k]!;
+        if (level > max) break;
+
+        const code =
+          (tl >= level ? 8 : 0) |
+          (tr >= level ? 4 : 0) |
+          (br >= level ? 2 : 0) |
+          (bl >= level ? 1 : 0);
+        if (code === 0 || code === 15) continue;
+
+        let pairs = SEGMENT_TABLE[code]!;
+        if (code === 5 || code === 10) {
+          // 外周を含むセルでは中心平均が -Infinity になり、内側を切り離す側に倒れる
+          const centerIn = (tl + tr + br + bl) / 4 >= level;
+          pairs = code === 5
+            ? (centerIn ? SADDLE_5_CENTER_IN : SADDLE_5_CENTER_OUT)
+            : (centerIn ? SADDLE_10_CENTER_IN : SADDLE_10_CENTER_OUT);
+        }
+
+        const out = segmentsByLevel[index]!;
+        const cx = x + pad;
+        const cy = y + pad;
+        for (const [e0, e1] of pairs) {
+          out.push(edgeId(cx, cy, e0, gridWidth), edgeId(cx, cy, e1, gridWidth));
+        }
+      }
+    }
+  }
+
+  return levels.map((level, index) => ({
+    level,
+    index,
+    polylines: chainSegments(segmentsByLevel[index]!, level, grid),
+  }));
+};
+
+// Ramer–Douglas–Peucker による間引き。tolerance px 以内の屈曲は直線に丸める
+const simplifyPoints = (points: Float32Array, tolerance: number): Float32Array => {
+  const count = points.length / 2;
+  if (count <= 2) return points;
+
+  const keep = new Uint8Array(count);
+  keep[0] = 1;
+  keep[count - 1] = 1;
+  const stack: [number, number][] = [[0, count - 1]];
+  const toleranceSq = tolerance * tolerance;
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    const ax = points[start * 2]!;
+    const ay = points[start * 2 + 1]!;
+    const dx = points[end * 2]! - ax;
+    const dy = points[end * 2 + 1]! - ay;
+    const lengthSq = dx * dx + dy * dy;
+
+    let maxDistSq = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const px = points[i * 2]! - ax;
+      const py = points[i * 2 + 1]! - ay;
+      const cross = px * dy - py * dx;
+      const distSq = lengthSq > 0 ? (cross * cross) / lengthSq : px * px + py * py;
+      if (distSq > maxDistSq) {
+        maxDistSq = distSq;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex >= 0 && maxDistSq > toleranceSq) {
+      keep[maxIndex] = 1;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  let kept = 0;
+  for (let i = 0; i < count; i++) kept += keep[i]!;
+  const result = new Float32Array(kept * 2);
+  let j = 0;
+  for (let i = 0; i < count; i++) {
+    if (!keep[i]) continue;
+    result[j++] = points[i * 2]!;
+    result[j++] = points[i * 2 + 1]!;
+  }
+  return result;
+};
+
+// ポリラインの長さ（閉じた線は始点に戻る辺も含む）
+const polylineLength = ({ points, closed }: ContourPolyline): number => {
+  const count = points.length / 2;
+  let length = 0;
+  for (let i = 1; i < count; i++) {
+    length += Math.hypot(points[i * 2]! - points[(i - 1) * 2]!, points[i * 2 + 1]! - points[(i - 1) * 2 + 1]!);
+  }
+  if (closed && count > 1) {
+    length += Math.hypot(points[0]! - points[(count - 1) * 2]!, points[1]! - points[(count - 1) * 2 + 1]!);
+  }
+  return length;
+};
+
+/**
+ * 長さが minLength px 未満の線（ノイズによる小さな島など）を取り除く（0 以下なら何もしない）。
+ * 等値線はもともと幅を持たない連続した線なので、ラスタのエッジと違い細線化や連結は要らない
+ */
+export const removeShortContourLines = (
+  paths: ContourLevelPaths[],
+  minLength: number
+): ContourLevelPaths[] => {
+  if (minLength <= 0) return paths;
+  return paths.map((path) => ({
+    ...path,
+    polylines: path.polylines.filter((polyline) => polylineLength(polyline) >= minLength),
+  }));
+};
+
+/** tolerance px 以下の屈曲を落としてポリラインを単純化する（0 以下なら何もしない） */
+export const simplifyContourLines = (
+  paths: ContourLevelPaths[],
+  tolerance: number
+): ContourLevelPaths[] => {
+  if (tolerance <= 0) return paths;
+  return paths.map((path) => ({
+    ...path,
+    polylines: path.polylines.map((polyline) => ({
+      ...polyline,
+      points: simplifyPoints(polyline.points, tolerance),
+    })),
+  }));
+};
@@ -0,0 +1,151 @@
+// 画像バッファとキャッシュのメモリ使用量の集計と上限管理。
+// 画像・処理結果・各キャッシュがそれぞれ「プール」として持っているバッファを報告し、
+// 合計が上限を超えたら、作り直せるキャッシュのプールから捨てていく。
+// 同じバッファを複数のプール（現在の結果と結果キャッシュなど）が持っていても 1 回だけ数え、
+// 捨てられないプールも持っているバッファ（使用中）を含むものはキャッシュから捨てない（捨てても減らない）。
+
+import { DEFAULT_MEMORY_LIMIT_MB } from '../types/UITypes';
+
+const MB = 1024 * 1024;
+
+// key はバッファそのもの（ArrayBuffer）か canvas。同じ key は合計で 1 回だけ数える
+export interface MemoryItem {
+  key: object;
+  bytes: number;
+}
+
+export interface MemoryPool {
+  name: string;
+  items(): Iterable<MemoryItem>;
+  // 作り直せるキャッシュだけが持つ。最も手放しやすいものを 1 つ捨て、捨てるものがなければ false を返す。
+  // inUse な key（捨てられないプールも持っているバッファ）を含むものは捨てずに飛ばす
+  evictOne?(inUse: (key: object) => boolean): boolean;
+  // 捨てる順（小さいほど先に捨てる）。作り直すのが安いものほど小さくする
+  evictPriority?: number;
+}
+
+export interface MemoryPoolUsage {
+  name: string;
+  bytes: number;
+  evictable: boolean;
+}
+
+export interface MemoryUsage {
+  totalBytes: number;
+  limitBytes: number;
+  pools: MemoryPoolUsage[];
+}
+
+/** RGBA の画像 1 枚分（ImageData・canvas）のバイト数 */
+export const rgbaBytes = (width: number, height: number): number => width * height * 4;
+
+/** ImageData をプールの項目にする（null なら項目なし）。同じ配列を包み直した ImageData は同じ項目になる */
+export const imageDataItems = (...images: (ImageData | null | undefined)[]): MemoryItem[] =>
+  images.flatMap((image) => (image ? [{ key: image.data.buffer, bytes: image.data.byteLength }] : []));
+
+/** 画素以外の配列（周波数分離の符号付きの差など）をプールの項目にする */
+export const bufferItems = (...buffers: ArrayBufferView[]): MemoryItem[] =>
+  buffers.map((buffer) => ({ key: buffer.buffer, bytes: buffer.byteLength }));
+
+class MemoryBudget {
+  private pools = new Set<MemoryPool>();
+  private limitBytes = DEFAULT_MEMORY_LIMIT_MB * MB;
+  private listeners = new Set<() => void>();
+  private usage: MemoryUsage = { totalBytes: 0, limitBytes: this.limitBytes, pools: [] };
+  private scheduled = false;
+
+  /** プールを登録し、登録を外す関数を返す */
+  register(pool: MemoryPool): () => void {
+    this.pools.add(pool);
+    this.changed();
+    return () => {
+      this.pools.delete(pool);
+      this.changed();
+    };
+  }
+
+  setLimit(megabytes: number): void {
+    this.limitBytes = megabytes * MB;
+    this.changed();
+  }
+
+  /** プールの中身が変わったことを知らせる。同じタスク内の変更はまとめて 1 回だけ集計する */
+  changed(): void {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    queueMicrotask(() => {
+      this.scheduled = false;
+      this.enforce();
+    });
+  }
+
+  getUsage = (): MemoryUsage => this.usage;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // 作り直せないプール（画像・現在の結果）を先に数え、キャッシュには他で数えていない分だけを割り当てる
+  private measure(): MemoryUsage {
+    const counted = new Set<object>();
+    const ordered = [...this.pools].sort((a, b) => Number(!!a.evictOne) - Number(!!b.evictOne));
+    const pools = ordered.map((pool) => {
+      let bytes = 0;
+      for (const item of pool.items()) {
+        if (counted.has(item.key)) continue;
+        counted.add(item.key);
+        bytes += item.bytes;
+      }
+      return { name: pool.name, bytes, evictable: !!pool.evictOne };
+    });
+    const totalBytes = pools.reduce((sum, pool) => sum + pool.bytes, 0);
+    return { totalBytes, limitBytes: this.limitBytes, pools };
+  }
+
+  // 捨てられないプールが持っている key（表示中の画像・結果）
+  private inUseKeys(): Set<object> {
+    const keys = new Set<object>();
+    for (const pool of this.pools) {
+      if (pool.evictOne) continue;
+      for (const item of pool.items()) keys.add(item.key);
+    }
+    return keys;
+  }
+
+  private enforce(): void {
+    const evictable = [...this.pools]
+      .filter((pool) => pool.evictOne)
+      .sort((a, b) => (a.evictPriority ?? 0) - (b.evictPriority ?? 0));
+
+    let usage = this.measure();
+    if (usage.totalBytes > this.limitBytes) {
+      const inUse = this.inUseKeys();
+      const isInUse = (key: object) => inUse.has(key);
+      for (const pool of evictable) {
+        while (usage.totalBytes > this.limitBytes && pool.evictOne!(isInUse)) {
+          const next = this.measure();
+          const freed = usage.totalBytes - next.totalBytes;
+          usage = next;
+          // 捨てても減らない（同じバッファをほかのキャッシュも持っている）なら、このプールからはもう捨てない
+          if (freed <= 0) break;
+        }
+      }
+    }
+
+    // 変わっていなければ同じオブジェクトを返し続け、表示を描き直させない
+    const previous = this.usage;
+    const same =
+      previous.totalBytes === usage.totalBytes &&
+      previous.limitBytes === usage.limitBytes &&
+      previous.pools.length === usage.pools.length &&
+      previous.pools.every((pool, i) => pool.name === usage.pools[i]!.name && pool.bytes === usage.pools[i]!.bytes);
+    if (same) return;
+    this.usage = usage;
+    for (const listener of this.listeners) listener();
+  }
+}
+
+export const memoryBudget = new MemoryBudget();
@@ -0,0 +1,255 @@
+// OpenCV.js 版の画像処理エンジン。画素配列と Mat の変換はここで閉じる。
+// 進捗は OpenCV の 1 回の呼び出しの途中では報告できないので、呼び出しの区切りごとに報告する。
+
+import { CannyDetectionSettings, EdgeDetection } from '../types/CannyTypes';
+import { NoiseReductionSettings } from '../types/NoiseReductionTypes';
+import { bilateralFilterMat, guidedFilterPixels } from './edgePreservingFilters';
+import {
+  CHANNEL_NAMES,
+  ImageProcessor,
+  StepProgress,
+  YCRCB_NAMES,
+  cannyBlurParams,
+  denoiseBilateralParams,
+  gaussianSigma,
+  otsuCannyThresholds,
+  radiusToKernelSize,
+} from './ImageProcessor';
+import { PixelImage } from './tiling';
+
+type CV = Window['cv'];
+type CVMat = Parameters<CV['imshow']>[1];
+
+const requireFunctions = (cv: CV, names: readonly (keyof CV)[]): void => {
+  for (const name of names) {
+    if (typeof cv[name] !== 'function') {
+      throw new Error(`OpenCV ${String(name)} function not available`);
+    }
+  }
+};
+
+const matFromPixels = (cv: CV, image: PixelImage): CVMat => {
+  const mat = new cv.Mat(image.height, image.width, cv.CV_8UC4);
+  mat.data.set(image.data);
+  return mat;
+};
+
+// RGBA(CV_8UC4) の Mat から画素をコピーする（Mat の data は WASM ヒープ上のビュー）
+const matToPixels = (mat: CVMat): Uint8ClampedArray => {
+  if (mat.rows <= 0 || mat.cols <= 0 || mat.channels() !== 4) {
+    throw new Error('Filter produced invalid output');
+  }
+  return new Uint8ClampedArray(mat.data);
+};
+
+// 画素を Mat にして apply を 1 回かけ、結果の画素を返す。Mat はすべて解放する
+const withMat = (cv: CV, image: PixelImage, apply: (src: CVMat) => CVMat): Uint8ClampedArray => {
+  const src = matFromPixels(cv, image);
+  let processed: CVMat | null = null;
+  try {
+    processed = apply(src);
+    return matToPixels(processed);
+  } finally {
+    src.delete();
+    processed?.delete();
+  }
+};
+
+// 単一チャンネル(Float32, width×height)に box(平均)フィルタをかけて結果配列を返す
+const boxMean = (cv: CV, width: number, height: number) => {
+  const anchor = new cv.Point(-1, -1);
+  return (input: Float32Array, ksize: number): Float32Array => {
+    const m = new cv.Mat(height, width, cv.CV_32FC1);
+    const out = new cv.Mat();
+    try {
+      m.data32F!.set(input);
+      cv.boxFilter(m, out, -1, new cv.Size(ksize, ksize), anchor, true, cv.BORDER_DEFAULT);
+      return new Float32Array(out.data32F!);
+    } finally {
+      m.delete();
+      out.delete();
+    }
+  };
+};
+
+// YCrCb に分けて輝度と色を別々の強さでバイラテラル平滑化し、Detail の分だけ元画像の高周波を戻す
+const denoiseYCrCb = (
+  cv: CV,
+  image: PixelImage,
+  settings: NoiseReductionSettings,
+  onProgress?: StepProgress
+): Uint8ClampedArray => {
+  // bilateralFilter / split / merge はビルドによっては含まれないため実行前に確認
+  requireFunctions(cv, ['bilateralFilter', 'split', 'merge', 'cvtColor', 'GaussianBlur']);
+
+  const mats: { delete(): void }[] = [];
+  const track = <T extends { delete(): void }>(mat: T): T => {
+    mats.push(mat);
+    return mat;
+  };
+
+  try {
+    const src = track(matFromPixels(cv, image));
+    // RGBA → RGB → YCrCb に変換し、輝度と色を分離
+    const rgb = track(new cv.Mat());
+    cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB);
+    const ycc = track(new cv.Mat());
+    cv.cvtColor(rgb, ycc, cv.COLOR_RGB2YCrCb);
+
+    const channels = track(new cv.MatVector());
+    cv.split(ycc, channels);
+
+    const { diameter, sigmaSpace, luminanceSigma, colorSigma } = denoiseBilateralParams(settings);
+
+    // 強度0のチャンネルはフィルタをスキップしてそのまま使う。Y/Cr/Cb/Detail を 4 段階として報告する
+    const denoiseChannel = (step: number, sigmaColor: number) => {
+      onProgress?.(step / 4, YCRCB_NAMES[step]);
+      const channel = track(channels.get(step));
+      if (sigmaColor <= 0) return channel;
+      const dst = track(new cv.Mat());
+      cv.bilateralFilter(channel, dst, diameter, sigmaColor, sigmaSpace);
+      return dst;
+    };
+
+    const merged = track(new cv.MatVector());
+    merged.push_back(denoiseChannel(0, luminanceSigma));
+    merged.push_back(denoiseChannel(1, colorSigma));
+    merged.push_back(denoiseChannel(2, colorSigma));
+
+    const yccDenoised = track(new cv.Mat());
+    cv.merge(merged, yccDenoised);
+    const rgbDenoised = track(new cv.Mat());
+    cv.cvtColor(yccDenoised, rgbDenoised, cv.COLOR_YCrCb2RGB);
+    const rgbaDenoised = track(new cv.Mat());
+    cv.cvtColor(rgbDenoised, rgbaDenoised, cv.COLOR_RGB2RGBA);
+
+    const out = matToPixels(rgbaDenoised);
+
+    // Detail: 元画像の高周波成分（original - blur(original)）をブレンドバックして
+    // 筆致などの微細テクスチャを復元する
+    const detailAmount = settings.detail / 100;
+    if (detailAmount > 0) {
+      onProgress?.(0.75, 'Detail');
+      const blurred = track(new cv.Mat());
+      cv.GaussianBlur(src, blurred, new cv.Size(5, 5), 1.5, 1.5);
+      const blur = blurred.data;
+      const orig = image.data;
+      for (let i = 0; i < out.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+          out[i + c] = out[i + c]! + (orig[i + c]! - blur[i + c]!) * detailAmount;
+        }
+        out[i + 3] = orig[i + 3]!;
+      }
+    }
+
+    return out;
+  } finally {
+    for (const mat of mats) {
+      mat.delete();
+    }
+  }
+};
+
+// グレースケール → 前処理のガウシアン → Canny。結果は 0 / 1 のマスク
+const cannyEdges = (
+  cv: CV,
+  image: PixelImage,
+  settings: CannyDetectionSettings,
+  onProgress?: StepProgress
+): EdgeDetection => {
+  requireFunctions(cv, ['cvtColor', 'GaussianBlur', 'Canny']);
+
+  const mats: { delete(): void }[] = [];
+  const track = <T extends { delete(): void }>(mat: T): T => {
+    mats.push(mat);
+    return mat;
+  };
+
+  try {
+    onProgress?.(0, 'Grayscale');
+    const src = track(matFromPixels(cv, image));
+    let gray = track(new cv.Mat());
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+
+    if (settings.blurRadius > 0) {
+      onProgress?.(0.25, 'Blur');
+      const blurred = track(new cv.Mat());
+      const { kernelSize, sigma } = cannyBlurParams(settings.blurRadius);
+      cv.GaussianBlur(gray, blurred, new cv.Size(kernelSize, kernelSize), sigma, sigma);
+      gray = blurred;
+    }
+
+    const thresholds = settings.thresholdMode === 'otsu'
+      ? otsuCannyThresholds(gray.data)
+      : { low: settings.lowThreshold, high: settings.highThreshold };
+
+    onProgress?.(0.5, 'Edges');
+    const edges = track(new cv.Mat());
+    cv.Canny(gray, edges, thresholds.low, thresholds.high, 3, settings.l2Gradient);
+
+    // 0 / 255 の出力を 0 / 1 のマスクにする
+    const data = new Uint8Array(edges.cols * edges.rows);
+    const edgeData = edges.data;
+    for (let i = 0; i < data.length; i++) {
+      data[i] = edgeData[i]! > 0 ? 1 : 0;
+    }
+    return { edges: { width: edges.cols, height: edges.rows, data }, thresholds };
+  } finally {
+    for (const mat of mats) {
+      mat.delete();
+    }
+  }
+};
+
+/** ロード済みの OpenCV.js で処理するエンジンを作る */
+export const createOpenCVImageProcessor = (cv: CV): ImageProcessor => ({
+  engine: 'opencv',
+
+  median: (image, radius, onProgress) => {
+    requireFunctions(cv, ['medianBlur']);
+    onProgress?.(0);
+    return withMat(cv, image, (src) => {
+      const dst = new cv.Mat();
+      try {
+        cv.medianBlur(src, dst, radiusToKernelSize(radius));
+      } catch (error) {
+        dst.delete();
+        throw error;
+      }
+      return dst;
+    });
+  },
+
+  gaussian: (image, radius, onProgress) => {
+    requireFunctions(cv, ['GaussianBlur']);
+    onProgress?.(0);
+    return withMat(cv, image, (src) => {
+      const dst = new cv.Mat();
+      try {
+        const kernelSize = radiusToKernelSize(radius);
+        const sigma = gaussianSigma(radius);
+        cv.GaussianBlur(src, dst, new cv.Size(kernelSize, kernelSize), sigma, sigma);
+      } catch (error) {
+        dst.delete();
+        throw error;
+      }
+      return dst;
+    });
+  },
+
+  bilateral: (image, radius, sigmaColor, sigmaSpace, onProgress) => {
+    onProgress?.(0);
+    return withMat(cv, image, (src) => bilateralFilterMat(cv, src, radius, sigmaColor, sigmaSpace));
+  },
+
+  guided: (image, radius, strength, onProgress) => {
+    requireFunctions(cv, ['boxFilter']);
+    return guidedFilterPixels(image, radius, strength, boxMean(cv, image.width, image.height), (channel, fraction) =>
+      onProgress?.((channel + fraction) / 3, CHANNEL_NAMES[channel])
+    );
+  },
+
+  ycrcbDenoise: (image, settings, onProgress) => denoiseYCrCb(cv, image, settings, onProgress),
+
+  canny: (image, settings, onProgress) => cannyEdges(cv, image, settings, onProgress),
+});
@@ -0,0 +1,65 @@
+// 処理チェーンの入力の解決。段の出力を入力にできるのは、循環しない（自分の出力に戻ってこない）ときだけ。
+
+import { PipelineSettings, PipelineSource, PipelineStage, DEFAULT_PIPELINE_SETTINGS } from '../types/PipelineTypes';
+import { ProxyImage, getProxyImage } from './proxyImage';
+
+export const PIPELINE_SOURCES: readonly PipelineSource[] = ['original', 'denoised', 'filtered', 'lowFrequency'];
+
+// 各画像を出力する段（元画像はどの段の出力でもない）
+const PRODUCERS: Record<PipelineSource, PipelineStage | null> = {
+  original: null,
+  denoised: 'denoise',
+  filtered: 'filter',
+  lowFrequency: 'frequency',
+};
+
+/** stage が source を入力にすると循環するか（source を作る段をさかのぼると stage に戻ってくる） */
+export const createsCycle = (settings: PipelineSettings, stage: PipelineStage, source: PipelineSource): boolean => {
+  const visited = new Set<PipelineStage>();
+  for (let producer = PRODUCERS[source]; producer; producer = PRODUCERS[settings[producer]]) {
+    // 既に循環している設定でも止まるよう、同じ段を 2 度たどったら循環とみなす
+    if (producer === stage || visited.has(producer)) return true;
+    visited.add(producer);
+  }
+  return false;
+};
+
+/** stage の入力に選べる画像（循環するものを除く） */
+export const availableSources = (settings: PipelineSettings, stage: PipelineStage): PipelineSource[] =>
+  PIPELINE_SOURCES.filter((source) => !createsCycle(settings, stage, source));
+
+/** 保存済み設定を読み込むときに、欠けた段を補い、循環している段を元画像に戻す */
+export const sanitizePipelineSettings = (stored: Partial<PipelineSettings>): PipelineSettings => {
+  const settings = { ...DEFAULT_PIPELINE_SETTINGS, ...stored };
+  for (const stage of Object.keys(settings) as PipelineStage[]) {
+    if (!PIPELINE_SOURCES.includes(settings[stage]) || createsCycle(settings, stage, settings[stage])) {
+      settings[stage] = 'original';
+    }
+  }
+  return settings;
+};
+
+// 段の入力。上流の段がドラッグ中の縮小プレビュー結果を返している間は、入力自体が縮小画像になる
+export interface StageInput {
+  image: ImageData | null;
+  // image が縮小画像のときの元画像に対する縮小率（フル解像度なら undefined）
+  previewScale?: number;
+  // ドラッグ中に処理する、image をさらに縮小した画像（scale は元画像に対する縮小率）
+  proxy: ProxyImage | null;
+}
+
+/** 入力画像と元画像の幅から、段の入力（縮小率と縮小プレビュー画像）を求める */
+export const createStageInput = (
+  image: ImageData | null,
+  originalWidth: number,
+  proxyPreview: boolean
+): StageInput => {
+  if (!image) return { image: null, proxy: null };
+  const previewScale = image.width < originalWidth ? image.width / originalWidth : undefined;
+  const proxy = proxyPreview ? getProxyImage(image) : null;
+  return {
+    image,
+    previewScale,
+    proxy: proxy && { imageData: proxy.imageData, scale: proxy.scale * (previewScale ?? 1) },
+  };
+};
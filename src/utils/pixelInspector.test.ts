@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { ContourSettings } from '../types/ImageTypes';
+import { inspectPixel } from './pixelInspector';
+
+const settings: ContourSettings = { levels: 3, transparency: 100, luminanceModel: 'bt601' };
+
+// 4 x 2 の画像。画素 i は (i * 30, i * 30, i * 30)
+const image = new ImageData(Uint8ClampedArray.from({ length: 32 }, (_, i) => (i % 4 === 3 ? 255 : (i >> 2) * 30)), 4, 2);
+const mask = { width: 4, height: 2, data: Uint8Array.from([0, 1, 0, 0, 0, 0, 1, 0]) };
+
+describe('inspectPixel', () => {
+  it('reads colour, luminance and level for image layers and on/off for edge masks, in source order', () => {
+    const readouts = inspectPixel(
+      1,
+      0,
+      [
+        { id: 'canny', label: 'Canny', mask },
+        { id: 'original', label: 'Original', imageData: image },
+      ],
+      [20, 100],
+      settings
+    );
+    expect(readouts).toEqual([
+      { id: 'canny', label: 'Canny', edge: true },
+      expect.objectContaining({ id: 'original', rgb: [30, 30, 30], hex: '#1e1e1e', luminance: 30, band: 1 }),
+    ]);
+  });
+
+  it('scales the position for smaller sources and skips points outside the image', () => {
+    const half = { width: 2, height: 1, data: Uint8Array.from([0, 1]) };
+    const frame = { width: 4, height: 2 };
+    expect(inspectPixel(3, 1, [{ id: 'canny', label: 'Canny', mask: half }], [], settings, frame)).toEqual([
+      { id: 'canny', label: 'Canny', edge: true },
+    ]);
+    expect(inspectPixel(0, 1, [{ id: 'canny', label: 'Canny', mask: half }], [], settings, frame)).toEqual([
+      { id: 'canny', label: 'Canny', edge: false },
+    ]);
+    expect(inspectPixel(4, 0, [{ id: 'canny', label: 'Canny', mask }], [], settings)).toEqual([]);
+  });
+});
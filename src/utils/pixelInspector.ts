@@ -0,0 +1,101 @@
+// ピクセルインスペクタの読み取り値。表示中の各画像レイヤーから同じ座標の画素を取り出し、
+// RGB・HEX・HSL・Lab と、解析に使っている輝度モデルでの値・等高線の帯番号を求める。
+// エッジマスク（Canny）のレイヤーはその画素がエッジかどうかだけを読む。
+
+import { EdgeMask } from '../types/CannyTypes';
+import { ContourSettings } from '../types/ImageTypes';
+import { luminanceFromSettings, rgbToLab } from './luminance';
+
+export interface InspectorSource {
+  id: string;
+  label: string;
+  imageData: ImageData;
+}
+
+// 色ではなく、エッジマスクのオン・オフだけを読むレイヤー
+export interface InspectorMaskSource {
+  id: string;
+  label: string;
+  mask: EdgeMask;
+}
+
+export interface MaskReadout {
+  id: string;
+  label: string;
+  edge: boolean;
+}
+
+export interface PixelReadout {
+  id: string;
+  label: string;
+  rgb: [number, number, number];
+  alpha: number;
+  hex: string;
+  hsl: [number, number, number]; // H 0-360, S/L 0-100
+  lab: [number, number, number];
+  luminance: number; // 0-255
+  band: number; // この値以下にあるレベルの数（0 = 最下位レベル未満）
+}
+
+const toHex = (value: number): string => value.toString(16).padStart(2, '0');
+
+export const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [0, 0, l * 100];
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === rn) h = ((gn - bn) / d) % 6;
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+  return [(h * 60 + 360) % 360, s * 100, l * 100];
+};
+
+/**
+ * 各ソース画像の (x, y) の画素を読み取る。レベルは昇順でなくてもよい。
+ * frame は座標の基準になる元画像の大きさで、縮小プレビュー中の小さいソースは位置を縮めて読む
+ */
+export const inspectPixel = (
+  x: number,
+  y: number,
+  sources: (InspectorSource | InspectorMaskSource)[],
+  levels: number[],
+  settings: ContourSettings,
+  frame?: { width: number; height: number }
+): (PixelReadout | MaskReadout)[] => {
+  const luminance = luminanceFromSettings(settings);
+
+  return sources.flatMap((source): (PixelReadout | MaskReadout)[] => {
+    const { id, label } = source;
+    const { width, height } = 'mask' in source ? source.mask : source.imageData;
+    const sx = frame ? Math.floor((x * width) / frame.width) : x;
+    const sy = frame ? Math.floor((y * height) / frame.height) : y;
+    if (sx < 0 || sy < 0 || sx >= width || sy >= height) return [];
+    if ('mask' in source) return [{ id, label, edge: source.mask.data[sy * width + sx] !== 0 }];
+
+    const { data } = source.imageData;
+    const i = (sy * width + sx) * 4;
+    const r = data[i]!;
+    const g = data[i + 1]!;
+    const b = data[i + 2]!;
+    const value = luminance(r, g, b);
+    return [{
+      id,
+      label,
+      rgb: [r, g, b],
+      alpha: data[i + 3]!,
+      hex: `#${toHex(r)}${toHex(g)}${toHex(b)}`,
+      hsl: rgbToHsl(r, g, b),
+      lab: rgbToLab(r, g, b),
+      luminance: value,
+      // 等値線の内外判定（value >= level）と同じ基準で数える
+      band: levels.filter((level) => value >= level).length,
+    }];
+  });
+};
@@ -0,0 +1,79 @@
+// スライダー操作中の即時プレビューに使う縮小画像。
+// 処理結果は縮小画像の大きさのまま返り、描画時に元画像の大きさへ引き伸ばす。
+
+import { imageDataItems, memoryBudget } from './memoryBudget';
+
+// 縮小画像の長辺（これ以下の画像は縮小せず、そのままフル解像度で処理する）
+export const PROXY_MAX_SIZE = 1024;
+
+export interface ProxyImage {
+  imageData: ImageData;
+  scale: number; // 元画像に対する縮小率（0-1）
+}
+
+/** 長辺が maxSize に収まるよう縮小した画像を作る。元から小さい画像は null */
+export const createProxyImage = (imageData: ImageData, maxSize: number = PROXY_MAX_SIZE): ProxyImage | null => {
+  const { width, height } = imageData;
+  if (Math.max(width, height) <= maxSize) return null;
+
+  const scale = maxSize / Math.max(width, height);
+  const proxyWidth = Math.max(1, Math.round(width * scale));
+  const proxyHeight = Math.max(1, Math.round(height * scale));
+
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  const target = document.createElement('canvas');
+  target.width = proxyWidth;
+  target.height = proxyHeight;
+  const sourceCtx = source.getContext('2d');
+  const targetCtx = target.getContext('2d', { willReadFrequently: true });
+  if (!sourceCtx || !targetCtx) return null;
+
+  sourceCtx.putImageData(imageData, 0, 0);
+  targetCtx.imageSmoothingQuality = 'high';
+  targetCtx.drawImage(source, 0, 0, proxyWidth, proxyHeight);
+  return {
+    imageData: targetCtx.getImageData(0, 0, proxyWidth, proxyHeight),
+    scale: proxyWidth / width,
+  };
+};
+
+// 同じ画像を入力にする段が複数あっても縮小は 1 回で済むよう、画像ごとに覚えておく。
+// 古い画像の分はメモリ上限に達したときに古い順に捨てる（元の画像も掴んだままになるので一緒に数える）。
+// 元の画像が表示中（段の入力になっている）の分は、捨てても次のドラッグで作り直すだけなので残す
+const proxyCache = new Map<ImageData, ProxyImage | null>();
+
+memoryBudget.register({
+  name: 'Preview proxies',
+  items: () =>
+    [...proxyCache].flatMap(([source, proxy]) => imageDataItems(source, proxy?.imageData)),
+  evictOne: (inUse) => {
+    for (const [source, proxy] of proxyCache) {
+      if (imageDataItems(source, proxy?.imageData).some((item) => inUse(item.key))) continue;
+      proxyCache.delete(source);
+      return true;
+    }
+    return false;
+  },
+  evictPriority: 0,
+});
+
+/** createProxyImage の結果を画像ごとにキャッシュして返す */
+export const getProxyImage = (imageData: ImageData): ProxyImage | null => {
+  let proxy = proxyCache.get(imageData);
+  if (proxy === undefined) {
+    proxy = createProxyImage(imageData);
+    memoryBudget.changed();
+  }
+  // 使ったものを末尾（最も新しい側）に移す
+  proxyCache.delete(imageData);
+  proxyCache.set(imageData, proxy);
+  return proxy;
+};
+
+/** 覚えている縮小画像をすべて捨てる（別の画像を読み込んだとき） */
+export const clearProxyImages = (): void => {
+  proxyCache.clear();
+  memoryBudget.changed();
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { downscaleArea, halveImage, resizeBilinear } from './resample';
+
+// 1 チャンネルの値を RGBA の 4 チャンネルすべてに入れた画像
+const planeImage = (width: number, values: number[]) => ({
+  width,
+  height: values.length / width,
+  data: Uint8ClampedArray.from(values.flatMap((value) => [value, value, value, value])),
+});
+
+const plane = (data: ArrayLike<number>): number[] => Array.from(data).filter((_, i) => i % 4 === 0);
+
+describe('halveImage', () => {
+  it('averages each 2x2 block', () => {
+    const halved = halveImage(planeImage(4, [0, 4, 8, 8, 8, 4, 0, 0, 1, 1, 2, 2, 3, 3, 6, 2]));
+    expect([halved.width, halved.height]).toEqual([2, 2]);
+    expect(plane(halved.data)).toEqual([4, 4, 2, 3]);
+  });
+
+  it('drops the last odd row and column and keeps a one pixel side', () => {
+    expect(halveImage(planeImage(5, [1, 2, 3, 4, 5, 1, 2, 3, 4, 5, 9, 9, 9, 9, 9])).width).toBe(2);
+    expect(halveImage(planeImage(1, [10, 20, 30, 40])).width).toBe(1);
+  });
+});
+
+describe('resizeBilinear', () => {
+  it('returns the same pixels at the same size', () => {
+    const image = planeImage(3, [0, 50, 100, 150, 200, 250]);
+    expect(Array.from(resizeBilinear(image, 3, 2))).toEqual(Array.from(image.data));
+  });
+
+  it('aligns pixel centres when doubling', () => {
+    // 元の中心は 0.5, 1.5。2 倍の中心 0.25, 0.75, 1.25, 1.75 は端を複製して補間する
+    expect(plane(resizeBilinear(planeImage(2, [0, 100]), 4, 1))).toEqual([0, 25, 75, 100]);
+  });
+});
+
+describe('downscaleArea', () => {
+  it('averages the covered area, including partly covered pixels', () => {
+    const out = downscaleArea(planeImage(3, [0, 30, 90]), 2, 1, new Float32Array(8));
+    // 1 画素が 1.5 画素ぶんを覆う: (0 + 30 / 2) / 1.5 と (30 / 2 + 90) / 1.5
+    expect(plane(out)).toEqual([10, 70]);
+  });
+
+  it('is linear, so a shrunk difference equals the difference of shrunk images', () => {
+    const a = planeImage(5, [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+    const b = planeImage(5, [5, 5, 5, 5, 5, 50, 40, 30, 20, 10]);
+    const difference = { ...a, data: Float32Array.from(a.data, (value, i) => value - b.data[i]!) };
+    const shrink = (image: { width: number; height: number; data: ArrayLike<number> }) =>
+      plane(downscaleArea(image, 3, 1, new Float32Array(12)));
+    const expected = shrink(a).map((value, i) => value - shrink(b)[i]!);
+    shrink(difference).forEach((value, i) => expect(value).toBeCloseTo(expected[i]!, 4));
+  });
+
+  it('shrinks RGB values without alpha when given three channels', () => {
+    const rgb = { width: 3, height: 1, data: Int16Array.from([0, -30, 9, 30, 0, 9, 90, 60, 9]) };
+    expect(Array.from(downscaleArea(rgb, 2, 1, new Float32Array(6), 3))).toEqual([10, -20, 9, 70, 40, 9]);
+  });
+});
@@ -0,0 +1,120 @@
+// 画素配列の縮小・拡大。DOM（canvas）を使わないので画像処理 Worker の中でも使える。
+// 多帯域分解で粗い帯域を縮小画像の上で処理して元の大きさに戻すときや、分解結果を縮小プレビューにするときに使う。
+
+import { PixelImage } from './tiling';
+
+/** 2x2 の平均で半分の大きさにする（奇数のときは端の画素を繰り返す）。1 画素の辺はそのまま */
+export const halveImage = (image: PixelImage): PixelImage => {
+  const { width, height, data } = image;
+  const halfWidth = Math.max(1, Math.floor(width / 2));
+  const halfHeight = Math.max(1, Math.floor(height / 2));
+  const out = new Uint8ClampedArray(halfWidth * halfHeight * 4);
+
+  for (let y = 0; y < halfHeight; y++) {
+    const y0 = Math.min(height - 1, y * 2);
+    const y1 = Math.min(height - 1, y * 2 + 1);
+    for (let x = 0; x < halfWidth; x++) {
+      const x0 = Math.min(width - 1, x * 2);
+      const x1 = Math.min(width - 1, x * 2 + 1);
+      const o = (y * halfWidth + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        out[o + c] =
+          (data[(y0 * width + x0) * 4 + c]! +
+            data[(y0 * width + x1) * 4 + c]! +
+            data[(y1 * width + x0) * 4 + c]! +
+            data[(y1 * width + x1) * 4 + c]!) / 4;
+      }
+    }
+  }
+
+  return { width: halfWidth, height: halfHeight, data: out };
+};
+
+/** バイリニア補間で width x height に拡大・縮小する（画素の中心を揃え、端は複製） */
+export const resizeBilinear = (image: PixelImage, width: number, height: number): Uint8ClampedArray => {
+  const { width: srcWidth, height: srcHeight, data } = image;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const scaleX = srcWidth / width;
+  const scaleY = srcHeight / height;
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.max(0, Math.min(srcHeight - 1, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(srcHeight - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.max(0, Math.min(srcWidth - 1, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const fx = sx - x0;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = data[(y0 * srcWidth + x0) * 4 + c]! * (1 - fx) + data[(y0 * srcWidth + x1) * 4 + c]! * fx;
+        const bottom = data[(y1 * srcWidth + x0) * 4 + c]! * (1 - fx) + data[(y1 * srcWidth + x1) * 4 + c]! * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  return out;
+};
+
+// 縮小先の 1 画素が覆う元画像の範囲（start から weights.length 画素）と、それぞれが重なる割合
+const areaSpans = (sourceSize: number, targetSize: number): { start: number; weights: number[] }[] => {
+  const scale = sourceSize / targetSize;
+  return Array.from({ length: targetSize }, (_, i) => {
+    const from = i * scale;
+    const to = Math.min(sourceSize, (i + 1) * scale);
+    const start = Math.floor(from);
+    const weights: number[] = [];
+    for (let s = start; s < to; s++) {
+      weights.push((Math.min(to, s + 1) - Math.max(from, s)) / scale);
+    }
+    return { start, weights };
+  });
+};
+
+/**
+ * 面積平均で width x height に縮小し、out に書く（拡大はしない）。channels は 1 画素の値の数（RGBA なら 4、RGB なら 3）。
+ * 線形なので、符号付きの差を縮小したものは縮小した画像どうしの差と一致する
+ */
+export const downscaleArea = <T extends Uint8ClampedArray | Float32Array>(
+  image: { width: number; height: number; data: ArrayLike<number> },
+  width: number,
+  height: number,
+  out: T,
+  channels = 4
+): T => {
+  const { width: srcWidth, height: srcHeight, data } = image;
+  const columns = areaSpans(srcWidth, width);
+  const rows = areaSpans(srcHeight, height);
+
+  // 横方向を先に縮める
+  const horizontal = new Float32Array(width * srcHeight * channels);
+  for (let y = 0; y < srcHeight; y++) {
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x]!;
+      const o = (y * width + x) * channels;
+      for (let k = 0; k < weights.length; k++) {
+        const s = (y * srcWidth + start + k) * channels;
+        for (let c = 0; c < channels; c++) horizontal[o + c] = horizontal[o + c]! + data[s + c]! * weights[k]!;
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y]!;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * channels;
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let k = 0; k < weights.length; k++) {
+          sum += horizontal[((start + k) * width + x) * channels + c]! * weights[k]!;
+        }
+        out[o + c] = sum;
+      }
+    }
+  }
+
+  return out;
+};
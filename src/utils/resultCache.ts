@@ -0,0 +1,107 @@
+// 段の出力（フィルタ・ノイズ除去・周波数分離の結果）の LRU キャッシュ。
+// キーは入力画像の同一性と設定のハッシュで、同じ入力・同じ設定に戻したときは処理せずに前の結果を返す。
+// 同じ ImageData を返すので、それを入力にしている下流の段もキャッシュから引ける。
+
+// キャッシュに置く結果の合計の上限（RGBA で 1200 万画素の画像なら、フィルタの結果 5 枚ほど）
+export const RESULT_CACHE_BUDGET_BYTES = 256 * 1024 * 1024;
+
+const imageIds = new WeakMap<ImageData, number>();
+let nextImageId = 1;
+
+/** ImageData の同一性を表す番号。同じオブジェクトには常に同じ番号を返す */
+export const imageIdentity = (imageData: ImageData): number => {
+  let id = imageIds.get(imageData);
+  if (id === undefined) {
+    id = nextImageId++;
+    imageIds.set(imageData, id);
+  }
+  return id;
+};
+
+/** 設定を JSON にした文字列の 53bit ハッシュ（cyrb53）。キャッシュが持つ程度の件数なら衝突は無視できる */
+export const hashSettings = (settings: unknown): string => {
+  const text = JSON.stringify(settings);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+interface CacheEntry<T> {
+  value: T;
+  bytes: number;
+}
+
+/**
+ * 合計バイト数に上限のある LRU キャッシュ。Map の挿入順を使った順として扱い、
+ * 上限を超えたら最も長く使っていないものから捨てる。上限より大きい値は置かない
+ */
+export class LRUCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private totalBytes = 0;
+  private budgetBytes: number;
+
+  constructor(budgetBytes: number) {
+    this.budgetBytes = budgetBytes;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // 使ったものを末尾（最も新しい側）に移す
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: T, bytes: number): void {
+    this.delete(key);
+    if (bytes > this.budgetBytes) return;
+    this.entries.set(key, { value, bytes });
+    this.totalBytes += bytes;
+    for (const [oldestKey] of this.entries) {
+      if (this.totalBytes <= this.budgetBytes) break;
+      this.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+  }
+
+  /** 最も長く使っていないものを 1 つ捨てる（keep が true を返すものは飛ばす）。捨てるものがなければ false */
+  evictOldest(keep?: (value: T) => boolean): boolean {
+    for (const [key, entry] of this.entries) {
+      if (keep?.(entry.value)) continue;
+      this.delete(key);
+      return true;
+    }
+    return false;
+  }
+
+  values(): T[] {
+    return [...this.entries.values()].map((entry) => entry.value);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+}
@@ -0,0 +1,188 @@
+// 等高線を SVG として書き出すためのマークアップ生成。
+// レベルごとに <g> を分け、値帯（ポスタリゼーション）は下から順に塗り重ねるポリゴンで表す。
+
+import { BrightnessData, ContourLevelPaths, ContourSettings, ContourSource } from '../types/ImageTypes';
+import { extractContourLines, removeShortContourLines, simplifyContourLines } from './marchingSquares';
+import { bandColor, contourStrokeForLevel } from './contourStyle';
+import { rgbToCss } from './colorRamps';
+import { ContourLabel, placeContourLabels } from './contourLabels';
+
+export interface SvgContourSource {
+  /** SVG 内の id / グループ名に使う（例: 'contour', 'filtered-contour'） */
+  id: string;
+  source: ContourSource;
+  brightnessData: BrightnessData;
+}
+
+export interface ContourSvgInput {
+  width: number;
+  height: number;
+  settings: ContourSettings;
+  /** 線として書き出す等高線ソース（上に描くものほど後ろ） */
+  sources: SvgContourSource[];
+  /** 値帯ポリゴンを作る輝度データ。null なら帯は書き出さない */
+  bandSource: BrightnessData | null;
+  /** 下敷きにする画像の data URL。null なら埋め込まない */
+  underlayUrl: string | null;
+  /** <metadata> に入れる任意のテキスト（JSON など） */
+  metadata?: string;
+}
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatCoord = (value: number): string => {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2).replace(/0$/, '');
+};
+
+// 1 レベル分のポリラインを 1 つの path data にまとめる
+const toPathData = (paths: ContourLevelPaths): string => {
+  const parts: string[] = [];
+  for (const { points, closed } of paths.polylines) {
+    if (points.length < 4) continue;
+    let d = `M${formatCoord(points[0]!)} ${formatCoord(points[1]!)}`;
+    for (let i = 2; i < points.length; i += 2) {
+      d += `L${formatCoord(points[i]!)} ${formatCoord(points[i + 1]!)}`;
+    }
+    parts.push(closed ? `${d}Z` : d);
+  }
+  return parts.join('');
+};
+
+const renderBands = (brightnessData: BrightnessData, settings: ContourSettings): string => {
+  const { width, height } = brightnessData;
+  const levels = [...brightnessData.levels].sort((a, b) => a - b);
+  const rings = extractContourLines(brightnessData, levels, { closeAtBorder: true });
+
+  // 最下位の帯を全面に敷き、「level 以上」の領域を下から順に塗り重ねる
+  const shapes = [
+    `<rect data-band="0" width="${width}" height="${height}" fill="${rgbToCss(bandColor(0, levels, settings))}"/>`,
+  ];
+  rings.forEach((levelPaths, i) => {
+    const d = toPathData(levelPaths);
+    if (!d) return;
+    const fill = rgbToCss(bandColor(i + 1, levels, settings));
+    shapes.push(
+      `<path data-band="${i + 1}" data-level="${formatCoord(levelPaths.level)}" fill="${fill}" fill-rule="evenodd" d="${d}"/>`
+    );
+  });
+
+  return `<g id="value-bands" opacity="${(settings.bandOpacity ?? 100) / 100}">${shapes.join('')}</g>`;
+};
+
+const formatAngle = (angle: number): string => formatCoord((angle * 180) / Math.PI);
+
+// ラベルの下の線を隠すマスク。白地に、回転したラベル枠を黒で抜く
+const renderLabelMask = (
+  id: string,
+  labels: ContourLabel[],
+  width: number,
+  height: number
+): string => {
+  const holes = labels.map(({ x, y, angle, width: w, height: h }) => {
+    const padding = h * 0.25;
+    return (
+      `<rect x="${formatCoord(x - w / 2 - padding)}" y="${formatCoord(y - h / 2)}" ` +
+      `width="${formatCoord(w + padding * 2)}" height="${formatCoord(h)}" ` +
+      `transform="rotate(${formatAngle(angle)} ${formatCoord(x)} ${formatCoord(y)})"/>`
+    );
+  });
+  return (
+    `<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">` +
+    `<rect width="${width}" height="${height}" fill="white"/><g fill="black">${holes.join('')}</g></mask>`
+  );
+};
+
+const renderContourSource = (
+  source: SvgContourSource,
+  settings: ContourSettings,
+  width: number,
+  height: number
+): string => {
+  const { brightnessData } = source;
+  const paths = simplifyContourLines(
+    removeShortContourLines(brightnessData.paths, settings.minContourLength ?? 0),
+    settings.minContourDistance ?? 0
+  );
+
+  const colors = new Map<number, string>();
+  const groups = paths.map((levelPaths) => {
+    const d = toPathData(levelPaths);
+    const stroke = contourStrokeForLevel(
+      levelPaths.level,
+      levelPaths.index,
+      paths.length,
+      settings,
+      source.source
+    );
+    colors.set(levelPaths.index, rgbToCss(stroke.color));
+    const dash = stroke.dash.length > 0
+      ? ` stroke-dasharray="${stroke.dash.map(formatCoord).join(' ')}"`
+      : '';
+    return (
+      `<g id="${source.id}-level-${levelPaths.index + 1}" data-level="${formatCoord(levelPaths.level)}">` +
+      (d
+        ? `<path stroke="${rgbToCss(stroke.color)}" stroke-width="${formatCoord(stroke.width)}"${dash} d="${d}"/>`
+        : '') +
+      '</g>'
+    );
+  });
+
+  const labels = settings.showLabels ? placeContourLabels(paths, settings) : [];
+  const maskId = `${source.id}-label-mask`;
+  const lines =
+    `<g fill="none" stroke-linejoin="round" stroke-linecap="round"` +
+    (labels.length > 0 ? ` mask="url(#${maskId})"` : '') +
+    `>${groups.join('')}</g>`;
+
+  // ラベルはマスクで線を抜いた上に、線と同じ色で重ねる
+  const defs = labels.length > 0
+    ? `<defs>${renderLabelMask(maskId, labels, width, height)}</defs>`
+    : '';
+  const texts = labels.map(({ index, text, x, y, angle }) =>
+    `<text x="${formatCoord(x)}" y="${formatCoord(y)}" fill="${colors.get(index) ?? '#000'}" ` +
+    `transform="rotate(${formatAngle(angle)} ${formatCoord(x)} ${formatCoord(y)})">${escapeXml(text)}</text>`
+  );
+  const labelGroup = labels.length > 0
+    ? `<g id="${source.id}-labels" font-family="sans-serif" font-size="${labels[0]!.height}" ` +
+      `text-anchor="middle" dominant-baseline="central">${texts.join('')}</g>`
+    : '';
+
+  return `<g id="${source.id}" opacity="${settings.transparency / 100}">${defs}${lines}${labelGroup}</g>`;
+};
+
+/** 等高線（と任意で値帯・下敷き画像）を含む SVG 文書を組み立てる */
+export const buildContourSvg = (input: ContourSvgInput): string => {
+  const { width, height, settings, sources, bandSource, underlayUrl, metadata } = input;
+  const body: string[] = [];
+
+  if (metadata) {
+    body.push(`<metadata>${escapeXml(metadata)}</metadata>`);
+  }
+  if (underlayUrl) {
+    // SVG2 の href だけだと古い Illustrator / Inkscape などが画像を捨てるので xlink:href も書く
+    const href = escapeXml(underlayUrl);
+    body.push(
+      `<image id="underlay" width="${width}" height="${height}" preserveAspectRatio="none" ` +
+        `href="${href}" xlink:href="${href}"/>`
+    );
+  }
+  if (bandSource) {
+    body.push(renderBands(bandSource, settings));
+  }
+  for (const source of sources) {
+    body.push(renderContourSource(source, settings, width, height));
+  }
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n` +
+    body.join('\n') +
+    '\n</svg>\n'
+  );
+};
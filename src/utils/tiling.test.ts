@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { testImage } from '../test/images';
+import { DEFAULT_NOISE_REDUCTION_SETTINGS } from '../types/NoiseReductionTypes';
+import { canvasImageProcessor } from './canvasImageProcessor';
+import { FilterJob, filterMargin, runImageJob } from './imageJobs';
+import { MAX_FULL_FRAME_PIXELS, PixelImage, planTiles, processTiled } from './tiling';
+
+// 上下左右 radius 画素と自身の平均（端は複製）。出力画素が参照する範囲は radius
+const crossAverage = (radius: number) => (image: PixelImage): Uint8ClampedArray => {
+  const { width, height, data } = image;
+  const out = new Uint8ClampedArray(data.length);
+  const at = (x: number, y: number, c: number) =>
+    data[(Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))) * 4 + c]!;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        out[o + c] =
+          (at(x, y, c) + at(x - radius, y, c) + at(x + radius, y, c) + at(x, y - radius, c) + at(x, y + radius, c)) / 5;
+      }
+    }
+  }
+  return out;
+};
+
+// 分割される大きさ（どちらの辺もタイルの一辺で割り切れない）
+const WIDTH = 2100;
+const HEIGHT = 2050;
+
+const noiseImage = (): PixelImage => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  let seed = 1;
+  for (let i = 0; i < data.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = seed >> 23;
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+};
+
+// 最初に値が食い違う位置（一致すれば -1）。大きな配列を toEqual で比べると差分の表示が重いので使わない
+const firstDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  if (a.length !== b.length) return Math.min(a.length, b.length);
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return -1;
+};
+
+describe('planTiles', () => {
+  it('keeps images up to MAX_FULL_FRAME_PIXELS whole', () => {
+    expect(planTiles(2048, MAX_FULL_FRAME_PIXELS / 2048, 8)).toHaveLength(1);
+  });
+
+  it('covers every pixel with exactly one core and pads cores by the margin inside the image', () => {
+    const margin = 5;
+    const tiles = planTiles(WIDTH, HEIGHT, margin, 1024);
+    expect(tiles).toHaveLength(9);
+
+    const covered = new Uint8Array(WIDTH * HEIGHT);
+    for (const { core, padded } of tiles) {
+      for (let y = core.y; y < core.y + core.height; y++) {
+        for (let x = core.x; x < core.x + core.width; x++) covered[y * WIDTH + x]! += 1;
+      }
+      expect(padded.x).toBe(Math.max(0, core.x - margin));
+      expect(padded.y).toBe(Math.max(0, core.y - margin));
+      expect(padded.x + padded.width).toBe(Math.min(WIDTH, core.x + core.width + margin));
+      expect(padded.y + padded.height).toBe(Math.min(HEIGHT, core.y + core.height + margin));
+    }
+    expect(covered.every((count) => count === 1)).toBe(true);
+  });
+});
+
+describe('processTiled', () => {
+  const image = noiseImage();
+  const whole = crossAverage(2)(image);
+
+  it('stitches tiles into the same result as processing the whole image', async () => {
+    let calls = 0;
+    const tiled = await processTiled(image, 2, (tile, index, count) => {
+      calls++;
+      expect(index).toBeLessThan(count);
+      return crossAverage(2)(tile);
+    });
+    expect(calls).toBe(9);
+    expect(firstDifference(tiled, whole)).toBe(-1);
+  });
+
+  it('shows seams when the margin is smaller than the filter reach', async () => {
+    const tiled = await processTiled(image, 1, crossAverage(2));
+    expect(firstDifference(tiled, whole)).not.toBe(-1);
+  });
+
+  it('calls process once for an image that fits in one frame', async () => {
+    const small = { width: 4, height: 3, data: new Uint8ClampedArray(48).fill(7) };
+    let calls = 0;
+    const result = await processTiled(small, 2, (tile) => {
+      calls++;
+      expect(tile).toBe(small);
+      return tile.data;
+    });
+    expect(calls).toBe(1);
+    expect(result).toBe(small.data);
+  });
+});
+
+describe('tiled filters', () => {
+  // 小さなタイルに分けて、端のタイル（一辺が TILE より短い）も含める
+  const TILE = 24;
+  const image = testImage(70, 53);
+
+  const filter = async (job: FilterJob, tile: PixelImage): Promise<Uint8ClampedArray> => {
+    const result = await runImageJob(canvasImageProcessor, job, tile);
+    if (result.kind !== 'image') throw new Error(`unexpected ${result.kind} result`);
+    return result.pixels;
+  };
+
+  it.each<[string, FilterJob]>([
+    ['median', { kind: 'median', radius: 2 }],
+    ['gaussian', { kind: 'gaussian', radius: 2.5 }],
+    ['bilateral', { kind: 'bilateral', radius: 3, sigmaColor: 40, sigmaSpace: 6 }],
+    ['guided', { kind: 'guided', radius: 3, strength: 30 }],
+    ['ycrcbDenoise', { kind: 'ycrcbDenoise', settings: { ...DEFAULT_NOISE_REDUCTION_SETTINGS, radius: 3 } }],
+    ['ycrcbDenoise (radius 1)', { kind: 'ycrcbDenoise', settings: { ...DEFAULT_NOISE_REDUCTION_SETTINGS, radius: 1 } }],
+  ])('%s gives the same pixels tiled with filterMargin as on the whole image', async (_name, job) => {
+    const whole = await filter(job, image);
+    let count = 0;
+    const tiled = await processTiled(
+      image,
+      filterMargin(job),
+      (tile, _index, tileCount) => {
+        count = tileCount;
+        return filter(job, tile);
+      },
+      TILE,
+      0
+    );
+    expect(count).toBe(9);
+    expect(firstDifference(tiled, whole)).toBe(-1);
+  });
+});
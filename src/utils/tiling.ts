@@ -0,0 +1,97 @@
+// 大きな画像をタイルに分けて処理し、つなぎ目なく貼り合わせる。
+// 各タイルはフィルタの影響範囲（margin）だけ周囲を重ねて切り出し、処理後は重なりを捨てて中央部だけを書き戻す。
+// margin が影響範囲以上なら、中央部の各画素が参照する近傍はタイル内に収まるので全体処理と同じ結果になる
+// （画像の端に接するタイルは画像の端をそのまま境界として扱うので、端の処理も全体処理と一致する）。
+
+export type PixelImage = Pick<ImageData, 'width' | 'height' | 'data'>;
+
+interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TilePlan {
+  core: TileRect; // 書き戻す範囲
+  padded: TileRect; // margin を含めて切り出す範囲
+}
+
+// これ以下の画素数なら分割せず 1 枚で処理する（WASM ヒープに Mat を数枚持てる大きさ）
+export const MAX_FULL_FRAME_PIXELS = 2048 * 2048;
+// 分割するときのタイル中央部の一辺
+export const TILE_SIZE = 1024;
+
+export const planTiles = (
+  width: number,
+  height: number,
+  margin: number,
+  tileSize: number = TILE_SIZE,
+  maxFullFramePixels: number = MAX_FULL_FRAME_PIXELS
+): TilePlan[] => {
+  if (width * height <= maxFullFramePixels) {
+    const whole = { x: 0, y: 0, width, height };
+    return [{ core: whole, padded: whole }];
+  }
+
+  const tiles: TilePlan[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      const core = { x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) };
+      const px = Math.max(0, x - margin);
+      const py = Math.max(0, y - margin);
+      const padded = {
+        x: px,
+        y: py,
+        width: Math.min(width, core.x + core.width + margin) - px,
+        height: Math.min(height, core.y + core.height + margin) - py,
+      };
+      tiles.push({ core, padded });
+    }
+  }
+  return tiles;
+};
+
+const extractTile = (image: PixelImage, rect: TileRect): Uint8ClampedArray => {
+  const tile = new Uint8ClampedArray(rect.width * rect.height * 4);
+  for (let row = 0; row < rect.height; row++) {
+    const start = ((rect.y + row) * image.width + rect.x) * 4;
+    tile.set(image.data.subarray(start, start + rect.width * 4), row * rect.width * 4);
+  }
+  return tile;
+};
+
+/**
+ * 画像をタイルごとに process して貼り合わせる。分割不要な大きさなら process を 1 回呼ぶだけ。
+ * タイルは 1 枚ずつ順に処理する（process が Promise を返せば、それを待ってから次のタイルに進む）。
+ * tileSize・maxFullFramePixels は planTiles と同じ（小さな画像で分割を確かめるとき以外は既定値のまま）
+ */
+export const processTiled = async (
+  image: PixelImage,
+  margin: number,
+  process: (tile: PixelImage, index: number, count: number) => Uint8ClampedArray | Promise<Uint8ClampedArray>,
+  tileSize: number = TILE_SIZE,
+  maxFullFramePixels: number = MAX_FULL_FRAME_PIXELS
+): Promise<Uint8ClampedArray> => {
+  const tiles = planTiles(image.width, image.height, Math.max(0, Math.ceil(margin)), tileSize, maxFullFramePixels);
+  if (tiles.length === 1) {
+    return process(image, 0, 1);
+  }
+
+  const out = new Uint8ClampedArray(image.width * image.height * 4);
+  for (const [index, { core, padded }] of tiles.entries()) {
+    const result = await process(
+      { width: padded.width, height: padded.height, data: extractTile(image, padded) },
+      index,
+      tiles.length
+    );
+    // 重なり部分を捨てて中央部の行だけを書き戻す
+    const offsetX = core.x - padded.x;
+    const offsetY = core.y - padded.y;
+    for (let row = 0; row < core.height; row++) {
+      const from = ((offsetY + row) * padded.width + offsetX) * 4;
+      out.set(result.subarray(from, from + core.width * 4), ((core.y + row) * image.width + core.x) * 4);
+    }
+  }
+  return out;
+};
@@ -0,0 +1,21 @@
+// 輝度解析 Worker。輝度マップ・レベル配置・等値線抽出をメインスレッドの外で行い、
+// 結果のバッファは転送（コピーなし）で返す。
+
+import { analysisTransferables, analyzeLuminance } from '../utils/brightnessMap';
+import type { AnalysisRequest, AnalysisResponse } from '../utils/analysisWorkerClient';
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const { id, width, height, pixels, settings, fixedLevels } = event.data;
+  let response: AnalysisResponse;
+  let transfer: ArrayBuffer[] = [];
+
+  try {
+    const analysis = analyzeLuminance({ width, height, data: pixels }, settings, fixedLevels);
+    response = { id, analysis };
+    transfer = analysisTransferables(analysis);
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Analysis failed' };
+  }
+
+  self.postMessage(response, { transfer });
+};
@@ -0,0 +1,134 @@
+// 画像処理 Worker。opencv.js を Worker 内で一度だけ読み込み、フィルタ・ノイズ除去・周波数分離の
+// ジョブをメインスレッドの外で実行する。結果の画素バッファは転送（コピーなし）で返す。
+// opencv.js が読み込めない（取得失敗・タイムアウトなど）ときは純 TypeScript のエンジンで処理する。
+// 'cancel' を受けたジョブはタイル・段の合間で止め、'cancelled' を返す（読み込んだ OpenCV はそのまま使い続ける）。
+
+import { imageJobTransferables, jobNeedsEngine, runImageJob } from '../utils/imageJobs';
+import { canvasImageProcessor } from '../utils/canvasImageProcessor';
+import { createOpenCVImageProcessor } from '../utils/openCVImageProcessor';
+import { isAbortError } from '../types/JobTypes';
+import type { ImageProcessor } from '../utils/ImageProcessor';
+import type { JobProgress } from '../types/JobTypes';
+import type { ImageWorkerRequest, ImageWorkerResponse } from '../utils/imageWorkerClient';
+
+const OPENCV_URL = '/opencv.js';
+// メインスレッドの OpenCVProcessor と同じく、これを過ぎたら読み込みを諦める
+const OPENCV_LOAD_TIMEOUT_MS = 30000;
+
+let loadPromise: Promise<void> | null = null;
+let processorPromise: Promise<ImageProcessor> | null = null;
+// 読み込み済みのエンジン（読み込み中は null）
+let processor: ImageProcessor | null = null;
+// 実行中のジョブ。ジョブはタイル・段の合間でイベントループに戻るので、その間に 'cancel' を受け取れる
+const runningJobs = new Map<number, AbortController>();
+
+// opencv.js の Module は thenable なので、Promise の値として返さず self.cv から参照する
+const waitForRuntime = (): Promise<void> =>
+  new Promise((resolve) => {
+    if (self.cv.Mat) {
+      resolve();
+      return;
+    }
+    const cv = self.cv as unknown as Record<string, unknown>;
+    const original = cv['onRuntimeInitialized'] as (() => void) | undefined;
+    cv['onRuntimeInitialized'] = () => {
+      if (original) original();
+      resolve();
+    };
+  });
+
+// module Worker では importScripts が使えず、モジュールとして読むと UMD ラッパーの this が undefined で
+// グローバルに登録できない。CommonJS の module を一時的に置き、module.exports に入った cv を受け取る。
+// 絶対 URL で読むのは、開発サーバーが ?import を付けて public の外を探しに行かないようにするため
+const loadOpenCV = (): Promise<void> => {
+  loadPromise ??= (async () => {
+    const scope = self as unknown as { module?: { exports: unknown } };
+    const placeholder = {};
+    scope.module = { exports: placeholder };
+    try {
+      await import(/* @vite-ignore */ new URL(OPENCV_URL, self.location.origin).href);
+      if (scope.module.exports === placeholder) {
+        throw new Error('OpenCV.js did not register in the worker');
+      }
+      self.cv = scope.module.exports as Window['cv'];
+    } finally {
+      delete scope.module;
+    }
+    await waitForRuntime();
+  })();
+  return loadPromise;
+};
+
+const withTimeout = (promise: Promise<void>, ms: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`OpenCV.js did not load within ${ms / 1000} s`)), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+// 使うエンジンは最初の読み込みで決め、以降は変えない（パネルに表示するエンジンと一致させる）
+const loadProcessor = (): Promise<ImageProcessor> => {
+  processorPromise ??= withTimeout(loadOpenCV(), OPENCV_LOAD_TIMEOUT_MS)
+    .then(
+      () => createOpenCVImageProcessor(self.cv),
+      (error) => {
+        console.warn('OpenCV.js unavailable in the image worker, using the built-in engine:', error);
+        return canvasImageProcessor;
+      }
+    )
+    .then((loaded) => {
+      processor = loaded;
+      return loaded;
+    });
+  return processorPromise;
+};
+
+const reply = (response: ImageWorkerResponse, transfer: ArrayBuffer[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+self.onmessage = async (event: MessageEvent<ImageWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'load') {
+    const loaded = await loadProcessor();
+    reply({ id: request.id, type: 'loaded', engine: loaded.engine });
+    return;
+  }
+
+  if (request.type === 'cancel') {
+    runningJobs.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, job, width, height, pixels } = request;
+
+  // 同じ段階・同じ整数 % の報告は送らない（行ごとの報告でメインスレッドを溢れさせない）
+  let last: JobProgress | null = null;
+  const onProgress = (progress: JobProgress) => {
+    const percent = Math.floor(progress.percent);
+    if (last && last.stage === progress.stage && last.percent === percent) return;
+    last = { stage: progress.stage, percent };
+    reply({ id, type: 'progress', progress: last });
+  };
+
+  const controller = new AbortController();
+  runningJobs.set(id, controller);
+  try {
+    if (jobNeedsEngine(job) && !processor) {
+      // エンジンの読み込みが終わる前に届いたジョブは、ここで読み込みを待つ
+      onProgress({ stage: 'Loading OpenCV.js', percent: 0 });
+      await loadProcessor();
+    }
+    const image = { width, height, data: pixels };
+    const result = await runImageJob(processor ?? canvasImageProcessor, job, image, onProgress, controller.signal);
+    reply({ id, type: 'result', result }, imageJobTransferables(result));
+  } catch (error) {
+    if (isAbortError(error)) {
+      reply({ id, type: 'cancelled' });
+      return;
+    }
+    reply({ id, type: 'error', error: error instanceof Error ? error.message : 'Image processing failed' });
+  } finally {
+    runningJobs.delete(id);
+  }
+};
@@ -0,0 +1,17 @@
+import path from 'node:path'
+import { defineConfig } from 'vitest/config'
+
+// テストは DOM（canvas）を使わない画像処理だけが対象なので、アプリ用の Vite プラグイン
+// （React・Tailwind・PWA）は読み込まず Node で実行する
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+})